@@ -0,0 +1,549 @@
+import { app } from '@azure/functions'
+import { createRateLimiter } from '../shared/rateLimiter.js'
+import { getCallerId, getPrincipal } from '../shared/caller.js'
+import { buildChatRequest, estimateCost, getProvider, ProviderError } from '../shared/llmProviders.js'
+import { createUsageStore, summarizeUsage } from '../shared/usageStore.js'
+
+/**
+ * Natural language to KQL conversion backed by the LLM provider chosen with
+ * LLM_PROVIDER (see ../shared/llmProviders.js).
+ * API keys stay in the function app settings and never reach the browser.
+ *
+ *   GET  /api/nl2kql  -> { configured, provider, model, budget }
+ *   GET  /api/nl2kql?usage=day|user  -> { budget, grouping, breakdown: [{ key, calls, promptTokens, completionTokens, estimatedCost, averageLatency }] }
+ *     -> 401 / 403 for usage=user unless the caller is signed in with the LLM_USAGE_ADMIN_ROLE role
+ *   POST /api/nl2kql  { "query": "...", "schema": "<schema prompt>", "history": [ConversationTurn], "repair": [RepairAttempt], "examples": [Example], "timeRange": "...", "vessels": "..." }
+ *     -> 200 KQLConversionResult { kqlQuery, explanation, confidence, suggestedVisualizations, parameters, usage, budget }
+ *   POST /api/nl2kql  { "explain": "<KQL>", "schema": "<schema prompt>" }
+ *     -> 200 KQLExplanation { summary, steps: [{ kql, description }], usage, budget }
+ *     -> 429 { error: "rate_limited" } with Retry-After
+ *     -> 429 { error: "budget_exceeded", budget } with Retry-After, once LLM_MONTHLY_BUDGET is spent
+ *     -> 503 { error: "not_configured" } when the provider is missing its settings
+ *
+ * history carries earlier turns ({ question, kqlQuery, resultColumns }) so
+ * follow-ups such as "now only the tankers" can refine the previous query.
+ * repair lists earlier answers to this query that failed to run ({ kqlQuery, error }),
+ * oldest first, so the model can correct the latest one.
+ * examples are similar questions with the KQL that answered them ({ question, kqlQuery }),
+ * taken from the user's saved queries and the test scenarios, and replace the built-in patterns.
+ * timeRange is the question's time phrase with the exact bounds the client resolved it to
+ * (in the user's time zone), so the model does not do calendar arithmetic itself.
+ * vessels lists the vessels the question refers to ("atlantic", "CGO1") with the ids the client
+ * resolved them to from VesselInfo, so the model filters on exact vesselId values.
+ * explain asks for a plain English walk-through of existing KQL, e.g. a saved or hand-edited query,
+ * with one step per statement and pipe stage.
+ * usage reports the completion's { provider, model, promptTokens, completionTokens, totalTokens,
+ * latencyMs, estimatedCost } (USD, null when the model's price is unknown; see LLM_PROMPT_COST_PER_1K).
+ * Every completion is recorded with its caller in the usage store (see ../shared/usageStore.js);
+ * budget is this month's { month, spent, tokens, calls, budget, state } from those records, where
+ * state is 'ok', 'warning' past LLM_BUDGET_WARNING of LLM_MONTHLY_BUDGET (USD), or 'exceeded'.
+ * usage=day|user breaks this month's calls down by day (UTC) or caller. Callers are user ids and IP
+ * addresses, so the per-user breakdown is only for signed-in users with the admin role.
+ *
+ * Without AZURE_OPENAI_API_KEY the caller's Entra ID token for Azure OpenAI
+ * (Authorization: Bearer ...) is forwarded instead.
+ */
+
+const MAX_QUERY_LENGTH = 1000
+const MAX_SCHEMA_LENGTH = 20000
+const MAX_HISTORY_TURNS = 5
+const MAX_KQL_LENGTH = 5000
+const MAX_RESULT_COLUMNS = 50
+const MAX_REPAIR_ATTEMPTS = 5
+const MAX_ERROR_LENGTH = 2000
+const MAX_EXAMPLES = 5
+const MAX_TIME_RANGE_LENGTH = 500
+const MAX_VESSELS_LENGTH = 1000
+
+const rateLimiter = createRateLimiter({
+  limit: Number(process.env.NL2KQL_RATE_LIMIT) || 20,
+  windowMs: (Number(process.env.NL2KQL_RATE_WINDOW_S) || 60) * 1000
+})
+
+const usageStore = createUsageStore({
+  tableUrl: process.env.LLM_USAGE_TABLE_URL,
+  cacheMs: 30 * 1000
+})
+
+// USD per calendar month (UTC); unset means no limit
+function getMonthlyBudget() {
+  const budget = Number(process.env.LLM_MONTHLY_BUDGET)
+  return budget > 0 ? budget : null
+}
+
+// Share of the budget past which clients are warned
+function getBudgetWarning() {
+  const warning = Number(process.env.LLM_BUDGET_WARNING)
+  return warning > 0 && warning <= 1 ? warning : 0.8
+}
+
+function describeBudget({ month, records }) {
+  const budget = getMonthlyBudget()
+  const spent = records.reduce((sum, record) => sum + (record.estimatedCost ?? 0), 0)
+  let state = 'ok'
+  if (budget !== null && spent >= budget) {
+    state = 'exceeded'
+  } else if (budget !== null && spent >= budget * getBudgetWarning()) {
+    state = 'warning'
+  }
+  return {
+    month,
+    spent,
+    tokens: records.reduce((sum, record) => sum + (record.totalTokens ?? 0), 0),
+    calls: records.length,
+    budget,
+    state
+  }
+}
+
+// null when the usage store cannot be read
+async function readBudget(context) {
+  try {
+    return describeBudget(await usageStore.getMonth())
+  } catch (error) {
+    context.warn(`Failed to read LLM usage: ${error.message}`)
+    return null
+  }
+}
+
+function secondsUntilNextMonth() {
+  const now = new Date()
+  return Math.ceil((Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1) - now.getTime()) / 1000)
+}
+
+// Static Web Apps role allowed to see spend per user (default 'admin'), assigned under Role management
+function getUsageAdminRole() {
+  return process.env.LLM_USAGE_ADMIN_ROLE || 'admin'
+}
+
+// A call that cannot be recorded has still been answered, so the failure is only logged
+async function recordUsage(usage, caller, kind, context) {
+  try {
+    await usageStore.record({ timestamp: new Date().toISOString(), caller, kind, ...usage })
+  } catch (error) {
+    context.warn(`Failed to record LLM usage: ${error.message}`)
+  }
+}
+
+// AZURE_OPENAI_TEMPERATURE predates LLM_TEMPERATURE and is still honoured
+function getTemperature() {
+  return Number(process.env.LLM_TEMPERATURE || process.env.AZURE_OPENAI_TEMPERATURE) || 0.2
+}
+
+const DEFAULT_QUERY_PATTERNS = `Common Query Patterns:
+- Vessel filtering: VesselInfo | where vesselName startswith "A" | project vesselId, vesselName, vesselType
+- Battery data: BatteryReadings | where vesselId == "CGO-001" | where timestamp >= ago(1d)
+- Health issues: BatteryReadings | where batteryHealth < 80 | summarize count() by vesselName
+- Maintenance: VesselMaintenance | where status == "pending" | project vesselName, component, priority`
+
+function buildExamplesSection(examples) {
+  if (examples.length === 0) {
+    return DEFAULT_QUERY_PATTERNS
+  }
+  const formatted = examples.map(example => `Question: ${example.question}\nKQL:\n${example.kqlQuery}`)
+  return `Examples of similar questions answered with this team's conventions (follow their style, naming and structure):
+
+${formatted.join('\n\n')}`
+}
+
+function buildSystemPrompt(schema, examples = []) {
+  return `You are an expert in Kusto Query Language (KQL) for Azure Data Explorer, specializing in maritime vessel battery monitoring systems.
+
+Database Schema:
+${schema}
+
+Key Guidelines:
+1. Generate syntactically correct KQL queries using proper operators (|, where, project, summarize, etc.)
+2. Use EXACT table and column names from the schema provided above
+3. For vessel queries, use VesselInfo table first, then join or filter other tables
+4. For battery data, use BatteryReadings table with proper vesselId/vesselName filters
+5. For time-based queries, use appropriate time operators (ago(), startofday(), bin())
+6. Use string matching carefully: 'contains', 'startswith', 'endswith', 'matches regex'
+7. When filtering by letter/character patterns, use appropriate string functions
+8. Questions may follow up on earlier ones in the conversation ("now only the tankers", "break that down by battery bank"). Refine the previous KQL query instead of starting over, and reuse the columns it returned
+9. Never inline user-supplied values (vessel names, dates, thresholds). Declare them as query parameters on the first line and reference them by name:
+   declare query_parameters(vesselFilter:string, startTime:datetime, endTime:datetime, healthThreshold:real);
+
+${buildExamplesSection(examples)}
+
+Return your response as a JSON object with:
+- kqlQuery: The complete, executable KQL query
+- explanation: Brief explanation of what the query does and returns
+- confidence: Your confidence level (0-1) in the query correctness
+- suggestedVisualizations: Array of suggested chart types (table, bar, line, pie, etc.)
+- parameters: Array of { name, type, label, defaultValue } for every declared parameter, with the value taken from the request as defaultValue (ISO 8601 for datetimes)
+
+CRITICAL: Only return valid JSON, no markdown, no additional text. The response must be parseable JSON.`
+}
+
+function buildExplainSystemPrompt(schema) {
+  return `You are an expert in Kusto Query Language (KQL) for Azure Data Explorer. You explain queries to people who do not read KQL.
+
+Database Schema:
+${schema}
+
+Explain the query you are given step by step, in the order it runs:
+- One step per statement (declare, let, set) and per pipe stage, with the KQL of that step copied exactly as written
+- Describe what each step does to the rows in plain English, using the column meanings from the schema where they help
+- Mention anything surprising, such as a filter that can never match or a sort that a later step discards
+
+Return your response as a JSON object with:
+- summary: One or two sentences on what the query returns
+- steps: Array of { kql, description }
+
+CRITICAL: Only return valid JSON, no markdown, no additional text. The response must be parseable JSON.`
+}
+
+// Malformed turns are dropped rather than failing the request
+function sanitizeHistory(history) {
+  if (!Array.isArray(history)) {
+    return []
+  }
+  return history
+    .filter(turn =>
+      typeof turn?.question === 'string' && turn.question.length <= MAX_QUERY_LENGTH &&
+      typeof turn.kqlQuery === 'string' && turn.kqlQuery.length <= MAX_KQL_LENGTH
+    )
+    .slice(-MAX_HISTORY_TURNS)
+    .map(turn => ({
+      question: turn.question,
+      kqlQuery: turn.kqlQuery,
+      resultColumns: Array.isArray(turn.resultColumns)
+        ? turn.resultColumns.filter(column => typeof column === 'string').slice(0, MAX_RESULT_COLUMNS)
+        : []
+    }))
+}
+
+// resolved carries what the client already worked out from the question: { timeRange, vessels }
+function buildUserPrompt(query, previousTurn, resolved = {}) {
+  let prompt = `Convert this natural language query to KQL: "${query}"`
+  if (resolved.timeRange) {
+    prompt += `\nTime range (already resolved, use exactly): ${resolved.timeRange}`
+  }
+  if (resolved.vessels) {
+    prompt += `\nVessels (already resolved): ${resolved.vessels}`
+  }
+  if (!previousTurn?.resultColumns.length) {
+    return prompt
+  }
+  return `The previous query returned these columns: ${previousTurn.resultColumns.join(', ')}\n${prompt}`
+}
+
+// Earlier turns are replayed as the exchange the model would have had
+function buildHistoryMessages(history) {
+  return history.flatMap((turn, index) => [
+    { role: 'user', content: buildUserPrompt(turn.question, history[index - 1]) },
+    { role: 'assistant', content: JSON.stringify({ kqlQuery: turn.kqlQuery }) }
+  ])
+}
+
+function sanitizeExamples(examples) {
+  if (!Array.isArray(examples)) {
+    return []
+  }
+  return examples
+    .filter(example =>
+      typeof example?.question === 'string' && example.question.length <= MAX_QUERY_LENGTH &&
+      typeof example.kqlQuery === 'string' && example.kqlQuery.length <= MAX_KQL_LENGTH
+    )
+    .slice(0, MAX_EXAMPLES)
+    .map(example => ({ question: example.question, kqlQuery: example.kqlQuery }))
+}
+
+function sanitizeRepairAttempts(repair) {
+  if (!Array.isArray(repair)) {
+    return []
+  }
+  return repair
+    .filter(attempt => typeof attempt?.kqlQuery === 'string' && attempt.kqlQuery.length <= MAX_KQL_LENGTH)
+    .slice(-MAX_REPAIR_ATTEMPTS)
+    .map(attempt => ({
+      kqlQuery: attempt.kqlQuery,
+      error: typeof attempt.error === 'string' ? attempt.error.slice(0, MAX_ERROR_LENGTH) : 'Unknown error'
+    }))
+}
+
+function buildRepairPrompt(error) {
+  return `That query failed with this error:
+${error}
+Return a corrected query in the same JSON format. Keep the intent of the question and change only what the error requires.`
+}
+
+// The failed answers follow the question as if the model had given them, each answered with its error
+function buildRepairMessages(query, previousTurn, attempts, resolved) {
+  return [
+    { role: 'user', content: buildUserPrompt(query, previousTurn, resolved) },
+    ...attempts.flatMap((attempt, index) => [
+      { role: 'assistant', content: JSON.stringify({ kqlQuery: attempt.kqlQuery }) },
+      ...(index < attempts.length - 1 ? [{ role: 'user', content: buildRepairPrompt(attempt.error) }] : [])
+    ])
+  ]
+}
+
+function isExplanation(result) {
+  return (
+    typeof result === 'object' &&
+    result !== null &&
+    typeof result.summary === 'string' &&
+    Array.isArray(result.steps) &&
+    result.steps.every(step => typeof step?.kql === 'string' && typeof step.description === 'string')
+  )
+}
+
+function isConversionResult(result) {
+  return (
+    typeof result === 'object' &&
+    result !== null &&
+    typeof result.kqlQuery === 'string' &&
+    typeof result.explanation === 'string' &&
+    typeof result.confidence === 'number' &&
+    Array.isArray(result.suggestedVisualizations)
+  )
+}
+
+// Models without JSON mode tend to wrap the object in prose or a markdown fence
+function parseModelJson(content) {
+  try {
+    return JSON.parse(content)
+  } catch {
+    const start = content.indexOf('{')
+    const end = content.lastIndexOf('}')
+    if (start < 0 || end <= start) {
+      throw new Error('No JSON object in model response')
+    }
+    return JSON.parse(content.slice(start, end + 1))
+  }
+}
+
+function jsonResponse(status, body, headers = {}) {
+  return { status, jsonBody: body, headers }
+}
+
+async function getStatus(request, context, provider) {
+  const grouping = new URL(request.url).searchParams.get('usage')
+  if (grouping === null) {
+    return jsonResponse(200, {
+      configured: provider.configured,
+      provider: provider.name,
+      model: provider.configured ? provider.model : null,
+      budget: await readBudget(context)
+    })
+  }
+
+  if (grouping !== 'day' && grouping !== 'user') {
+    return jsonResponse(400, { error: 'invalid_request', error_description: 'usage must be day or user' })
+  }
+  if (grouping === 'user') {
+    const principal = getPrincipal(request)
+    if (!principal) {
+      return jsonResponse(401, { error: 'unauthorized', error_description: 'Sign in to see LLM usage by user' })
+    }
+    if (!principal.userRoles.includes(getUsageAdminRole())) {
+      return jsonResponse(403, { error: 'forbidden', error_description: `LLM usage by user requires the ${getUsageAdminRole()} role` })
+    }
+  }
+  try {
+    const month = await usageStore.getMonth()
+    return jsonResponse(200, { budget: describeBudget(month), grouping, breakdown: summarizeUsage(month.records, grouping) })
+  } catch (error) {
+    context.warn(`Failed to read LLM usage: ${error.message}`)
+    return jsonResponse(503, { error: 'usage_unavailable', error_description: 'LLM usage could not be read' })
+  }
+}
+
+function describeUsage(provider, usage, latencyMs) {
+  return {
+    provider: provider.name,
+    model: provider.model,
+    promptTokens: usage?.prompt_tokens ?? null,
+    completionTokens: usage?.completion_tokens ?? null,
+    totalTokens: usage?.total_tokens ?? null,
+    latencyMs,
+    estimatedCost: estimateCost(provider, usage)
+  }
+}
+
+// The parsed JSON the model returned with the completion's usage, or the error response to send instead.
+// The call is recorded against caller once the provider has answered, whether or not its content parses.
+async function completeJson(provider, chatRequest, { userToken, caller, kind }, context) {
+  const startedAt = Date.now()
+  let completion
+  try {
+    completion = await provider.complete(chatRequest, { userToken })
+  } catch (error) {
+    if (!(error instanceof ProviderError)) {
+      // Network failure, e.g. a local model server that is not running
+      context.warn(`${provider.name} request failed: ${error.message}`)
+      return { response: jsonResponse(502, { error: 'upstream_error', error_description: `${provider.name} is unreachable` }) }
+    }
+
+    context.warn(error.message)
+    // Upstream throttling is reported as ours so the client backs off the same way
+    if (error.status === 429) {
+      return {
+        response: jsonResponse(429, { error: 'rate_limited', error_description: `${provider.name} is throttling requests` },
+          { 'Retry-After': error.retryAfter || '10' })
+      }
+    }
+    return { response: jsonResponse(502, { error: 'upstream_error', error_description: `${provider.name} returned ${error.status}` }) }
+  }
+
+  const usage = describeUsage(provider, completion.usage, Date.now() - startedAt)
+  await recordUsage(usage, caller, kind, context)
+  try {
+    return { result: parseModelJson(completion.content), usage }
+  } catch {
+    context.warn(`${provider.name} returned content that is not JSON`)
+    return { response: jsonResponse(502, { error: 'invalid_model_response', error_description: `Failed to parse ${provider.name} response` }) }
+  }
+}
+
+async function explain(body, context, provider, { userToken, caller }) {
+  const kql = body.explain.trim()
+  const schema = typeof body.schema === 'string' ? body.schema : ''
+  if (!kql || kql.length > MAX_KQL_LENGTH || schema.length > MAX_SCHEMA_LENGTH) {
+    return jsonResponse(400, {
+      error: 'invalid_request',
+      error_description: `explain is required (max ${MAX_KQL_LENGTH} characters) and schema is limited to ${MAX_SCHEMA_LENGTH} characters`
+    })
+  }
+
+  const chatRequest = buildChatRequest(provider, {
+    system: buildExplainSystemPrompt(schema || 'No database schema available.'),
+    user: `Explain this KQL query:\n${kql}`,
+    temperature: getTemperature(),
+    maxTokens: 1500,
+    json: true
+  })
+
+  const { result, usage, response } = await completeJson(provider, chatRequest, { userToken, caller, kind: 'explain' }, context)
+  if (response) {
+    return response
+  }
+  if (!isExplanation(result)) {
+    return jsonResponse(502, { error: 'invalid_model_response', error_description: `Invalid response format from ${provider.name}` })
+  }
+
+  context.log(`nl2kql: explained query (${kql.length} chars) with ${provider.name}/${provider.model}, ${usage.totalTokens ?? '?'} tokens in ${usage.latencyMs}ms`)
+  return jsonResponse(200, {
+    summary: result.summary,
+    steps: result.steps.map(step => ({ kql: step.kql, description: step.description })),
+    usage,
+    budget: await readBudget(context)
+  })
+}
+
+async function convert(request, context, provider) {
+  if (!provider.configured) {
+    return jsonResponse(503, { error: 'not_configured', error_description: `The ${provider.name} provider is not configured` })
+  }
+
+  const userToken = (request.headers.get('authorization') || '').replace(/^Bearer\s+/i, '')
+  if (provider.needsUserToken && !userToken) {
+    return jsonResponse(401, { error: 'unauthorized', error_description: 'Sign in to use Azure OpenAI' })
+  }
+
+  const caller = getCallerId(request)
+  const limit = rateLimiter.check(caller)
+  if (!limit.allowed) {
+    return jsonResponse(
+      429,
+      { error: 'rate_limited', error_description: `Too many requests; try again in ${limit.retryAfterSeconds}s` },
+      { 'Retry-After': String(limit.retryAfterSeconds) }
+    )
+  }
+
+  // Without its usage records a budget cannot be enforced, so no model is called
+  const budget = await readBudget(context)
+  if (!budget && getMonthlyBudget() !== null) {
+    return jsonResponse(503, { error: 'usage_unavailable', error_description: 'LLM usage could not be checked against the monthly budget' })
+  }
+  if (budget?.state === 'exceeded') {
+    return jsonResponse(
+      429,
+      { error: 'budget_exceeded', error_description: `The monthly LLM budget of $${budget.budget.toFixed(2)} has been used up`, budget },
+      { 'Retry-After': String(secondsUntilNextMonth()) }
+    )
+  }
+
+  let body
+  try {
+    body = await request.json()
+  } catch {
+    return jsonResponse(400, { error: 'invalid_request', error_description: 'Request body is not valid JSON' })
+  }
+
+  if (typeof body?.explain === 'string') {
+    return explain(body, context, provider, { userToken, caller })
+  }
+
+  const query = typeof body?.query === 'string' ? body.query.trim() : ''
+  const schema = typeof body?.schema === 'string' ? body.schema : ''
+  if (!query || query.length > MAX_QUERY_LENGTH || schema.length > MAX_SCHEMA_LENGTH) {
+    return jsonResponse(400, {
+      error: 'invalid_request',
+      error_description: `query is required (max ${MAX_QUERY_LENGTH} characters) and schema is limited to ${MAX_SCHEMA_LENGTH} characters`
+    })
+  }
+
+  const history = sanitizeHistory(body.history)
+  const repairAttempts = sanitizeRepairAttempts(body.repair)
+  const examples = sanitizeExamples(body.examples)
+  const resolved = {
+    timeRange: typeof body.timeRange === 'string' ? body.timeRange.slice(0, MAX_TIME_RANGE_LENGTH) : '',
+    vessels: typeof body.vessels === 'string' ? body.vessels.slice(0, MAX_VESSELS_LENGTH) : ''
+  }
+  const previousTurn = history[history.length - 1]
+  const chatRequest = buildChatRequest(provider, {
+    system: buildSystemPrompt(schema || 'No database schema available.', examples),
+    history: repairAttempts.length > 0
+      ? [...buildHistoryMessages(history), ...buildRepairMessages(query, previousTurn, repairAttempts, resolved)]
+      : buildHistoryMessages(history),
+    user: repairAttempts.length > 0
+      ? buildRepairPrompt(repairAttempts[repairAttempts.length - 1].error)
+      : buildUserPrompt(query, previousTurn, resolved),
+    temperature: getTemperature(),
+    maxTokens: 1500,
+    json: true
+  })
+
+  const kind = repairAttempts.length > 0 ? 'repair' : 'convert'
+  const { result, usage, response } = await completeJson(provider, chatRequest, { userToken, caller, kind }, context)
+  if (response) {
+    return response
+  }
+
+  if (!isConversionResult(result)) {
+    return jsonResponse(502, { error: 'invalid_model_response', error_description: `Invalid response format from ${provider.name}` })
+  }
+
+  context.log(`nl2kql: ${repairAttempts.length > 0 ? `repaired query after ${repairAttempts.length} failed attempts` : 'converted query'} (${query.length} chars, ${history.length} earlier turns) with ${provider.name}/${provider.model}, ${usage.totalTokens ?? '?'} tokens in ${usage.latencyMs}ms`)
+  return jsonResponse(200, {
+    kqlQuery: result.kqlQuery,
+    explanation: result.explanation,
+    confidence: result.confidence,
+    suggestedVisualizations: result.suggestedVisualizations,
+    parameters: Array.isArray(result.parameters) ? result.parameters : [],
+    usage,
+    budget: await readBudget(context)
+  })
+}
+
+async function handleRequest(request, context) {
+  let provider
+  try {
+    provider = getProvider()
+  } catch (error) {
+    context.error(error.message)
+    return jsonResponse(503, { error: 'not_configured', error_description: error.message })
+  }
+
+  return request.method === 'GET' ? getStatus(request, context, provider) : convert(request, context, provider)
+}
+
+app.http('nl2kql', {
+  methods: ['GET', 'POST'],
+  authLevel: 'anonymous',
+  route: 'nl2kql',
+  handler: handleRequest
+})
@@ -0,0 +1,88 @@
+import { app } from '@azure/functions'
+
+/**
+ * On-behalf-of exchange for Teams SSO.
+ * The tab sends the token from authentication.getAuthToken() as a bearer token;
+ * Entra ID validates it as the OBO assertion and returns a token for the
+ * requested downstream scope (a Kusto cluster or Azure OpenAI).
+ *
+ *   POST /api/auth/token  { "scope": "https://cluster.kusto.windows.net/.default" }
+ *   -> 200 { "access_token": "...", "expires_in": 3599 }
+ *   -> 403 { "error": "consent_required" } when the user still has to consent
+ */
+
+// Only downstream APIs the app calls can be requested, so this is not a general token mint
+const ALLOWED_SCOPES = [
+  /^https:\/\/[\w.-]+\.kusto\.(windows\.net|data\.microsoft\.com|fabric\.microsoft\.com)\/\.default$/i,
+  /^https:\/\/cognitiveservices\.azure\.com\/\.default$/i
+]
+
+// AADSTS65001: consent missing, AADSTS50076/50079: MFA or other interaction needed
+const CONSENT_ERROR_CODES = [65001, 50076, 50079]
+
+function jsonResponse(status, body) {
+  return { status, jsonBody: body }
+}
+
+async function exchangeToken(request, context) {
+  const assertion = (request.headers.get('authorization') || '').replace(/^Bearer\s+/i, '')
+  if (!assertion) {
+    return jsonResponse(401, { error: 'unauthorized', error_description: 'Missing Teams SSO token' })
+  }
+
+  let body
+  try {
+    body = await request.json()
+  } catch {
+    return jsonResponse(400, { error: 'invalid_request', error_description: 'Request body is not valid JSON' })
+  }
+
+  const scope = String(body?.scope || '')
+  if (!ALLOWED_SCOPES.some(pattern => pattern.test(scope))) {
+    return jsonResponse(400, { error: 'invalid_scope', error_description: `Scope is not allowed: ${scope}` })
+  }
+
+  const { AZURE_TENANT_ID, AZURE_CLIENT_ID, AZURE_CLIENT_SECRET } = process.env
+  if (!AZURE_TENANT_ID || !AZURE_CLIENT_ID || !AZURE_CLIENT_SECRET) {
+    context.error('Token exchange is not configured: AZURE_TENANT_ID, AZURE_CLIENT_ID and AZURE_CLIENT_SECRET are required')
+    return jsonResponse(500, { error: 'server_error', error_description: 'Token exchange is not configured' })
+  }
+
+  const response = await fetch(`https://login.microsoftonline.com/${AZURE_TENANT_ID}/oauth2/v2.0/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      client_id: AZURE_CLIENT_ID,
+      client_secret: AZURE_CLIENT_SECRET,
+      assertion,
+      scope,
+      requested_token_use: 'on_behalf_of'
+    })
+  })
+  const result = await response.json()
+
+  if (!response.ok) {
+    const needsConsent = result.error === 'interaction_required' ||
+      (result.error_codes || []).some(code => CONSENT_ERROR_CODES.includes(code))
+    context.warn(`OBO exchange failed for ${scope}: ${result.error} ${result.error_codes || ''}`)
+
+    if (needsConsent) {
+      return jsonResponse(403, { error: 'consent_required', error_description: result.error_description })
+    }
+    return jsonResponse(401, { error: result.error || 'invalid_grant', error_description: result.error_description })
+  }
+
+  return jsonResponse(200, {
+    token_type: 'Bearer',
+    access_token: result.access_token,
+    expires_in: result.expires_in
+  })
+}
+
+app.http('tokenExchange', {
+  methods: ['POST'],
+  authLevel: 'anonymous',
+  route: 'auth/token',
+  handler: exchangeToken
+})
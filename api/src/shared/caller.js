@@ -0,0 +1,30 @@
+/**
+ * The signed-in user as { userId, userDetails, userRoles }, or null for anonymous callers.
+ * Static Web Apps sets x-ms-client-principal for signed-in users and strips it
+ * from client requests, so it can be trusted.
+ */
+export function getPrincipal(request) {
+  const principal = request.headers.get('x-ms-client-principal')
+  if (!principal) return null
+  try {
+    const { userId, userDetails, userRoles } = JSON.parse(Buffer.from(principal, 'base64').toString('utf8'))
+    if (!userId) return null
+    return { userId, userDetails: userDetails || null, userRoles: Array.isArray(userRoles) ? userRoles : [] }
+  } catch {
+    // Malformed principal; treat as anonymous
+    return null
+  }
+}
+
+/**
+ * Identifies the caller for per-user limits: the signed-in user, otherwise the client IP.
+ */
+export function getCallerId(request) {
+  const principal = getPrincipal(request)
+  if (principal) return `user:${principal.userId}`
+
+  const forwardedFor = request.headers.get('x-forwarded-for')
+  const ip = forwardedFor ? forwardedFor.split(',')[0].trim() : request.headers.get('x-client-ip')
+  // Azure front ends append the source port to IPv4 addresses
+  return `ip:${(ip || 'unknown').replace(/^(\d+\.\d+\.\d+\.\d+):\d+$/, '$1')}`
+}
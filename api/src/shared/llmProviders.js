@@ -0,0 +1,220 @@
+/**
+ * Chat completion providers for natural language to KQL conversion.
+ * LLM_PROVIDER selects one:
+ *
+ *   azure-openai  Azure OpenAI deployment (AZURE_OPENAI_*), the default
+ *   openai        Any OpenAI-compatible endpoint (OPENAI_BASE_URL, OPENAI_API_KEY, OPENAI_MODEL)
+ *   local         A local OpenAI-compatible server such as Ollama or llama.cpp
+ *                 (LOCAL_LLM_BASE_URL, LOCAL_LLM_MODEL, optional LOCAL_LLM_API_KEY)
+ *
+ * Every provider exposes the same shape:
+ *   { name, model, configured, needsUserToken, capabilities, pricing, complete(request, options) }
+ * where capabilities says which parts of a chat completion request the model accepts:
+ *   systemMessages  separate system role messages
+ *   temperature     a sampling temperature
+ *   jsonMode        response_format: { type: 'json_object' }
+ *   maxTokensField  name of the output token limit field
+ * and pricing is the estimated USD cost per 1000 { prompt, completion } tokens, or null when unknown.
+ */
+
+export class ProviderError extends Error {
+  constructor(status, message, retryAfter = null) {
+    super(message)
+    this.name = 'ProviderError'
+    this.status = status
+    this.retryAfter = retryAfter
+  }
+}
+
+const CHAT_CAPABILITIES = {
+  systemMessages: true,
+  temperature: true,
+  jsonMode: true,
+  maxTokensField: 'max_tokens'
+}
+
+// Reasoning models (o1, o3, o4-mini, ...) reject temperature, system messages and JSON mode
+const REASONING_CAPABILITIES = {
+  systemMessages: false,
+  temperature: false,
+  jsonMode: false,
+  maxTokensField: 'max_completion_tokens'
+}
+
+// List prices in USD per 1000 tokens, first match wins. Azure deployments often have their own
+// names; LLM_PROMPT_COST_PER_1K and LLM_COMPLETION_COST_PER_1K set the prices for those.
+const MODEL_PRICING = [
+  [/gpt-4o-mini/i, { prompt: 0.00015, completion: 0.0006 }],
+  [/gpt-4o/i, { prompt: 0.0025, completion: 0.01 }],
+  [/gpt-4\.1-mini/i, { prompt: 0.0004, completion: 0.0016 }],
+  [/gpt-4\.1/i, { prompt: 0.002, completion: 0.008 }],
+  [/gpt-4-(turbo|\d{4}-preview)/i, { prompt: 0.01, completion: 0.03 }],
+  [/gpt-4/i, { prompt: 0.03, completion: 0.06 }],
+  [/gpt-3\.?5-turbo/i, { prompt: 0.0005, completion: 0.0015 }],
+  [/o[134]-mini/i, { prompt: 0.0011, completion: 0.0044 }],
+  [/(^|[^\w])o[13](\b|-)/i, { prompt: 0.015, completion: 0.06 }]
+]
+
+function getPricing(model, env, { free = false } = {}) {
+  const prompt = env.LLM_PROMPT_COST_PER_1K
+  const completion = env.LLM_COMPLETION_COST_PER_1K
+  if (prompt && completion && Number.isFinite(Number(prompt)) && Number.isFinite(Number(completion))) {
+    return { prompt: Number(prompt), completion: Number(completion) }
+  }
+  if (free) {
+    return { prompt: 0, completion: 0 }
+  }
+  return MODEL_PRICING.find(([pattern]) => pattern.test(model))?.[1] ?? null
+}
+
+// Estimated USD cost of a completion from its usage ({ prompt_tokens, completion_tokens }), or null
+export function estimateCost(provider, usage) {
+  if (!provider.pricing || typeof usage?.prompt_tokens !== 'number' || typeof usage.completion_tokens !== 'number') {
+    return null
+  }
+  return (usage.prompt_tokens * provider.pricing.prompt + usage.completion_tokens * provider.pricing.completion) / 1000
+}
+
+function isReasoningModel(model) {
+  return /(^|[^\w])o[134](\b|-)/i.test(model)
+}
+
+function trimTrailingSlash(url) {
+  return (url || '').replace(/\/+$/, '')
+}
+
+/**
+ * Builds the request body for a provider, folding the system prompt into the
+ * first user message and dropping settings the model does not accept.
+ * history holds earlier { role, content } messages of the conversation.
+ */
+export function buildChatRequest(provider, { system, history = [], user, temperature, maxTokens, json }) {
+  const { capabilities } = provider
+  const [first, ...rest] = [...history, { role: 'user', content: user }]
+  const request = {
+    messages: capabilities.systemMessages
+      ? [{ role: 'system', content: system }, first, ...rest]
+      : [{ role: first.role, content: `${system}\n\n${first.content}` }, ...rest],
+    [capabilities.maxTokensField]: maxTokens
+  }
+
+  if (capabilities.temperature && temperature !== undefined) {
+    request.temperature = temperature
+  }
+  if (json && capabilities.jsonMode) {
+    request.response_format = { type: 'json_object' }
+  }
+  return request
+}
+
+function createChatCompletionsProvider({ name, model, configured, url, headers, includeModel, capabilities, pricing, needsUserToken = false }) {
+  return {
+    name,
+    model,
+    configured,
+    needsUserToken,
+    capabilities,
+    pricing,
+
+    async complete(request, { userToken } = {}) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...headers(userToken)
+        },
+        body: JSON.stringify(includeModel ? { model, ...request } : request)
+      })
+
+      if (!response.ok) {
+        const text = await response.text()
+        throw new ProviderError(
+          response.status,
+          `${name} returned ${response.status}: ${text.slice(0, 500)}`,
+          response.headers.get('retry-after')
+        )
+      }
+
+      const completion = await response.json()
+      return {
+        content: completion.choices?.[0]?.message?.content || '',
+        usage: completion.usage || null
+      }
+    }
+  }
+}
+
+function createAzureOpenAIProvider(env) {
+  const endpoint = trimTrailingSlash(env.AZURE_OPENAI_ENDPOINT)
+  const apiKey = env.AZURE_OPENAI_API_KEY || ''
+  const deployment = env.AZURE_OPENAI_DEPLOYMENT || 'gpt-35-turbo'
+  const apiVersion = env.AZURE_OPENAI_API_VERSION || '2024-02-01'
+
+  return createChatCompletionsProvider({
+    name: 'azure-openai',
+    model: deployment,
+    configured: Boolean(endpoint),
+    url: `${endpoint}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${apiVersion}`,
+    // Without a key the caller's Entra ID token for Azure OpenAI is forwarded
+    headers: userToken => (apiKey ? { 'api-key': apiKey } : { Authorization: `Bearer ${userToken}` }),
+    includeModel: false,
+    needsUserToken: !apiKey,
+    capabilities: isReasoningModel(deployment) ? REASONING_CAPABILITIES : CHAT_CAPABILITIES,
+    pricing: getPricing(deployment, env)
+  })
+}
+
+function createOpenAIProvider(env) {
+  const baseUrl = trimTrailingSlash(env.OPENAI_BASE_URL || 'https://api.openai.com/v1')
+  const apiKey = env.OPENAI_API_KEY || ''
+  const model = env.OPENAI_MODEL || 'gpt-4o-mini'
+
+  return createChatCompletionsProvider({
+    name: 'openai',
+    model,
+    configured: Boolean(apiKey),
+    url: `${baseUrl}/chat/completions`,
+    headers: () => ({ Authorization: `Bearer ${apiKey}` }),
+    includeModel: true,
+    capabilities: isReasoningModel(model) ? REASONING_CAPABILITIES : CHAT_CAPABILITIES,
+    pricing: getPricing(model, env)
+  })
+}
+
+function createLocalProvider(env) {
+  // Ollama serves its OpenAI-compatible API under /v1; llama.cpp's server uses http://localhost:8080/v1
+  const baseUrl = trimTrailingSlash(env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1')
+  const apiKey = env.LOCAL_LLM_API_KEY || ''
+  const model = env.LOCAL_LLM_MODEL || 'llama3.1'
+
+  return createChatCompletionsProvider({
+    name: 'local',
+    model,
+    configured: Boolean(baseUrl),
+    url: `${baseUrl}/chat/completions`,
+    headers: () => (apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    includeModel: true,
+    capabilities: {
+      ...CHAT_CAPABILITIES,
+      // Older llama.cpp builds ignore response_format; the prompt still asks for JSON
+      jsonMode: env.LOCAL_LLM_JSON_MODE !== 'false'
+    },
+    // Local models cost nothing per token unless prices are set
+    pricing: getPricing(model, env, { free: true })
+  })
+}
+
+const PROVIDER_FACTORIES = {
+  'azure-openai': createAzureOpenAIProvider,
+  openai: createOpenAIProvider,
+  local: createLocalProvider
+}
+
+export function getProvider(env = process.env) {
+  const name = (env.LLM_PROVIDER || 'azure-openai').toLowerCase()
+  const factory = PROVIDER_FACTORIES[name]
+  if (!factory) {
+    throw new Error(`Unknown LLM_PROVIDER "${name}"; expected one of ${Object.keys(PROVIDER_FACTORIES).join(', ')}`)
+  }
+  return factory(env)
+}
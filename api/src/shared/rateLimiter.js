@@ -0,0 +1,36 @@
+/**
+ * Sliding-window rate limiter kept in memory.
+ * Limits apply per function instance; a scaled-out deployment allows up to
+ * `limit` requests per instance, which is acceptable for cost protection.
+ */
+export function createRateLimiter({ limit, windowMs }) {
+  const requests = new Map()
+
+  return {
+    check(key) {
+      const now = Date.now()
+      const recent = (requests.get(key) || []).filter(time => time > now - windowMs)
+
+      if (recent.length >= limit) {
+        requests.set(key, recent)
+        return {
+          allowed: false,
+          remaining: 0,
+          retryAfterSeconds: Math.ceil((recent[0] + windowMs - now) / 1000)
+        }
+      }
+
+      recent.push(now)
+      requests.set(key, recent)
+
+      // Forget callers that have gone quiet so the map does not grow without bound
+      if (requests.size > 10000) {
+        for (const [caller, times] of requests) {
+          if (times[times.length - 1] <= now - windowMs) requests.delete(caller)
+        }
+      }
+
+      return { allowed: true, remaining: limit - recent.length, retryAfterSeconds: 0 }
+    }
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Record of every model call ({ timestamp, caller, kind, provider, model, promptTokens,
+ * completionTokens, totalTokens, latencyMs, estimatedCost }), kept by calendar month (UTC)
+ * so spend can be checked against a monthly budget and broken down by day or caller.
+ *
+ * With tableUrl (an Azure Table Storage table URL carrying a SAS token that allows read and add)
+ * every function instance reads and writes the same table. Without it records stay in this
+ * instance's memory: fine for local development, but a scaled-out deployment then tracks, and
+ * budgets, each instance on its own, and a restart starts the month from zero.
+ * Each instance re-reads the table at most every cacheMs, so instances running side by side
+ * can overshoot the budget by the calls made within that window.
+ */
+
+const NUMERIC_FIELDS = ['promptTokens', 'completionTokens', 'totalTokens', 'latencyMs', 'estimatedCost']
+
+export function monthOf(date) {
+  return date.toISOString().slice(0, 7)
+}
+
+function createMemoryTable() {
+  const months = new Map()
+  return {
+    async insert(month, record) {
+      months.set(month, [...(months.get(month) || []), record])
+    },
+    async list(month) {
+      return months.get(month) || []
+    }
+  }
+}
+
+// Azure Table Storage over its REST API: one partition per month, one entity per call
+function createAzureTable(tableUrl) {
+  const url = new URL(tableUrl)
+  const sas = url.search.slice(1)
+  const base = `${url.origin}${url.pathname.replace(/\/+$/, '')}`
+  const headers = {
+    Accept: 'application/json;odata=nometadata',
+    'Content-Type': 'application/json',
+    'x-ms-version': '2019-02-02'
+  }
+
+  return {
+    async insert(month, record) {
+      // Table Storage has no null; unknown values are left out and read back as null
+      const entity = Object.fromEntries(Object.entries(record).filter(([, value]) => value !== null && value !== undefined))
+      const response = await fetch(`${base}?${sas}`, {
+        method: 'POST',
+        headers: { ...headers, Prefer: 'return-no-content' },
+        body: JSON.stringify({
+          PartitionKey: month,
+          RowKey: `${record.timestamp}-${Math.random().toString(36).slice(2, 10)}`,
+          ...entity
+        })
+      })
+      if (!response.ok) {
+        throw new Error(`Usage table returned ${response.status} on insert`)
+      }
+    },
+
+    async list(month) {
+      const records = []
+      let continuation = ''
+      do {
+        const filter = encodeURIComponent(`PartitionKey eq '${month}'`)
+        const response = await fetch(`${base}()?${sas}&$filter=${filter}${continuation}`, { headers })
+        if (!response.ok) {
+          throw new Error(`Usage table returned ${response.status} on query`)
+        }
+        const body = await response.json()
+        for (const entity of body.value || []) {
+          const record = {
+            timestamp: entity.timestamp,
+            caller: entity.caller,
+            kind: entity.kind,
+            provider: entity.provider,
+            model: entity.model
+          }
+          for (const field of NUMERIC_FIELDS) record[field] = typeof entity[field] === 'number' ? entity[field] : null
+          records.push(record)
+        }
+
+        const nextPartition = response.headers.get('x-ms-continuation-NextPartitionKey')
+        const nextRow = response.headers.get('x-ms-continuation-NextRowKey')
+        continuation = nextPartition
+          ? `&NextPartitionKey=${encodeURIComponent(nextPartition)}${nextRow ? `&NextRowKey=${encodeURIComponent(nextRow)}` : ''}`
+          : ''
+      } while (continuation)
+      return records
+    }
+  }
+}
+
+export function createUsageStore({ tableUrl, cacheMs }) {
+  const table = tableUrl ? createAzureTable(tableUrl) : createMemoryTable()
+  const cached = { month: null, records: [], loadedAt: 0 }
+
+  return {
+    shared: Boolean(tableUrl),
+
+    async record(record) {
+      const month = monthOf(new Date(record.timestamp))
+      await table.insert(month, record)
+      if (cached.month === month) {
+        cached.records = [...cached.records, record]
+      }
+    },
+
+    // This month's records, re-read from the table once the cached copy is older than cacheMs
+    async getMonth(now = new Date()) {
+      const month = monthOf(now)
+      if (cached.month !== month || Date.now() - cached.loadedAt > cacheMs) {
+        cached.records = await table.list(month)
+        cached.month = month
+        cached.loadedAt = Date.now()
+      }
+      return { month, records: cached.records }
+    }
+  }
+}
+
+// Calls, tokens, cost and average latency per day (YYYY-MM-DD, UTC) or caller, newest day or biggest spender first
+export function summarizeUsage(records, grouping) {
+  const groups = new Map()
+  for (const record of records) {
+    const key = grouping === 'day' ? record.timestamp.slice(0, 10) : record.caller || 'unknown'
+    const group = groups.get(key) || { key, calls: 0, promptTokens: 0, completionTokens: 0, estimatedCost: 0, totalLatency: 0 }
+    group.calls++
+    group.promptTokens += record.promptTokens ?? 0
+    group.completionTokens += record.completionTokens ?? 0
+    group.estimatedCost += record.estimatedCost ?? 0
+    group.totalLatency += record.latencyMs ?? 0
+    groups.set(key, group)
+  }
+
+  const breakdown = [...groups.values()].map(({ totalLatency, ...group }) => ({
+    ...group,
+    averageLatency: group.calls > 0 ? totalLatency / group.calls : 0
+  }))
+  return grouping === 'day'
+    ? breakdown.sort((a, b) => b.key.localeCompare(a.key))
+    : breakdown.sort((a, b) => b.estimatedCost - a.estimatedCost || b.calls - a.calls)
+}
@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+/**
+ * Checks the column types the mock engine reports for computed columns.
+ * Summarize names its outputs count_, avg_voltage or by assignment, so their types come from
+ * the aggregate behind them rather than from the values; this catches that path breaking.
+ *
+ * The app's TypeScript modules are loaded through Vite, so nothing needs to be built first.
+ */
+
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { createServer } from 'vite'
+
+const __filename = fileURLToPath(import.meta.url)
+const rootDir = path.join(path.dirname(__filename), '..')
+
+// Query, then the expected type of each listed column
+const CHECKS = [
+  ['BatteryReadings | summarize count() by vesselId', { vesselId: 'string', count_: 'long' }],
+  ['BatteryReadings | summarize avg(voltage), dcount(batteryBank) by bin(timestamp, 1d)', { timestamp: 'datetime', avg_voltage: 'real', dcount_batteryBank: 'long' }],
+  ['BatteryReadings | summarize readings = count(), health = avg(batteryHealth) by vesselName', { readings: 'long', health: 'real' }],
+  ['BatteryReadings | summarize make_set(batteryBank) by vesselId', { set_batteryBank: 'dynamic' }],
+  // Averages of whole numbers look like longs from their values alone
+  ['VesselInfo | summarize avg(batteryCapacity), capacity = avg(batteryCapacity) by batteryCapacity', { avg_batteryCapacity: 'real', capacity: 'real' }]
+]
+
+globalThis.localStorage = {
+  getItem: () => null,
+  setItem: () => {},
+  removeItem: () => {}
+}
+
+async function main() {
+  const server = await createServer({
+    root: rootDir,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false },
+    ssr: { noExternal: ['@microsoft/teams-js', '@azure/msal-browser'] }
+  })
+
+  const originalLog = console.log
+  console.log = () => {}
+  const failures = []
+
+  try {
+    const { adxService } = await server.ssrLoadModule('/src/services/adxService.ts')
+    await adxService.initialize({ clusterUrl: '', database: '', authMode: 'none', useMockData: true })
+
+    for (const [query, expected] of CHECKS) {
+      const result = await adxService.executeQuery(query, { bypassCache: true })
+      const types = Object.fromEntries(result.columnDescriptors.map(column => [column.name, column.type]))
+      for (const [column, type] of Object.entries(expected)) {
+        if (types[column] !== type) {
+          failures.push(`${query}\n   ${column}: expected ${type}, got ${types[column] ?? 'no such column'}`)
+        }
+      }
+    }
+  } finally {
+    console.log = originalLog
+    await server.close()
+  }
+
+  if (failures.length > 0) {
+    failures.forEach(failure => console.error(`❌ ${failure}`))
+    process.exit(1)
+  }
+  console.log(`✅ ${CHECKS.length} mock column type checks passed`)
+}
+
+main().catch(error => {
+  console.error('❌ Mock type check failed:', error.message)
+  process.exit(1)
+})
@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+/**
+ * NL-to-KQL evaluation over src/utils/testScenarios.ts.
+ * Each scenario's question is converted through the nl2kql API (start it with `func start` in api/),
+ * then the expected and generated KQL both run on the mock engine and their results are compared.
+ * Prints a scorecard per category and difficulty.
+ *
+ *   NL2KQL_EVAL_ENDPOINT   nl2kql API to use (default http://localhost:7071/api/nl2kql)
+ *   NL2KQL_EVAL_SCENARIOS  comma-separated scenario ids to run (default: all)
+ *   NL2KQL_EVAL_TOLERANCE  relative difference allowed between numbers (default 0.01)
+ *   NL2KQL_EVAL_OUTPUT     file to write the full JSON report to
+ *   NL2KQL_EVAL_BASELINE   earlier JSON report to show score changes against, e.g. another model or prompt
+ *   NL2KQL_EVAL_VERBOSE    true keeps the services' console logging
+ *
+ * The app's TypeScript modules are loaded through Vite, so nothing needs to be built first.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { createServer } from 'vite'
+
+const __filename = fileURLToPath(import.meta.url)
+const rootDir = path.join(path.dirname(__filename), '..')
+const scenarioIds = (process.env.NL2KQL_EVAL_SCENARIOS || '').split(',').map(id => id.trim()).filter(Boolean)
+const tolerance = process.env.NL2KQL_EVAL_TOLERANCE ? Number(process.env.NL2KQL_EVAL_TOLERANCE) : undefined
+const outputFile = process.env.NL2KQL_EVAL_OUTPUT
+const baselineFile = process.env.NL2KQL_EVAL_BASELINE
+const verbose = process.env.NL2KQL_EVAL_VERBOSE === 'true'
+
+// Read by nlToKqlService through import.meta.env
+process.env.VITE_NL2KQL_ENDPOINT = process.env.NL2KQL_EVAL_ENDPOINT || 'http://localhost:7071/api/nl2kql'
+
+// Saved queries live in the browser; the evaluation runs with an empty library
+const storage = new Map()
+globalThis.localStorage = {
+  getItem: key => (storage.has(key) ? storage.get(key) : null),
+  setItem: (key, value) => storage.set(key, String(value)),
+  removeItem: key => storage.delete(key)
+}
+
+function print(line = '') {
+  process.stdout.write(`${line}\n`)
+}
+
+async function main() {
+  const baseline = baselineFile ? JSON.parse(fs.readFileSync(baselineFile, 'utf8')) : undefined
+
+  const server = await createServer({
+    root: rootDir,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false },
+    // CommonJS browser packages imported by the services need Vite's interop
+    ssr: { noExternal: ['@microsoft/teams-js', '@azure/msal-browser'] }
+  })
+
+  const originalLog = console.log
+  if (!verbose) {
+    console.log = () => {}
+  }
+
+  try {
+    const { adxService } = await server.ssrLoadModule('/src/services/adxService.ts')
+    const { vesselBatteryTestScenarios } = await server.ssrLoadModule('/src/utils/testScenarios.ts')
+    const { runEvaluation, formatScorecard } = await server.ssrLoadModule('/src/utils/nlEvaluation.ts')
+
+    const scenarios = scenarioIds.length > 0
+      ? vesselBatteryTestScenarios.filter(scenario => scenarioIds.includes(scenario.id))
+      : vesselBatteryTestScenarios
+    if (scenarios.length === 0) {
+      throw new Error(`No scenarios match ${scenarioIds.join(', ')}`)
+    }
+
+    await adxService.initialize({ clusterUrl: '', database: '', authMode: 'none', useMockData: true })
+    print(`🧪 Evaluating ${scenarios.length} scenario(s) against ${process.env.VITE_NL2KQL_ENDPOINT}`)
+
+    const report = await runEvaluation({
+      scenarios,
+      tolerance,
+      onScenario: evaluation => print(`   ${evaluation.scenarioId}: ${evaluation.status} (${evaluation.durationMs} ms)`)
+    })
+
+    print()
+    print(formatScorecard(report, baseline))
+
+    if (outputFile) {
+      fs.writeFileSync(outputFile, JSON.stringify(report, null, 2))
+      print()
+      print(`📄 Report written to ${outputFile}`)
+    }
+  } finally {
+    console.log = originalLog
+    await server.close()
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Evaluation failed:', error.message)
+  process.exit(1)
+})
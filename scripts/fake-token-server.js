@@ -0,0 +1,95 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the Entra ID token endpoint.
+ * Issues unsigned JWTs for any requested scope so the authenticated ADX and
+ * Azure OpenAI paths can be exercised offline. Point the app at it with
+ * VITE_AUTH_FAKE_TOKEN_ENDPOINT=http://localhost:8090/token.
+ *
+ *   POST /token  { "scope": "https://cluster.kusto.windows.net/.default", "username": "..." }
+ *   -> { "token_type": "Bearer", "access_token": "<jwt>", "expires_in": 3600 }
+ *
+ * FAKE_TOKEN_LIFETIME_S shortens token lifetime to exercise refresh.
+ */
+
+import http from 'http'
+
+const port = Number(process.env.FAKE_TOKEN_PORT) || 8090
+const lifetimeSeconds = Number(process.env.FAKE_TOKEN_LIFETIME_S) || 3600
+let issued = 0
+
+function base64Url(value) {
+  return Buffer.from(JSON.stringify(value)).toString('base64url')
+}
+
+function createToken(scope, username) {
+  const now = Math.floor(Date.now() / 1000)
+  const audience = scope.split(' ')[0].replace(/\/\.default$/, '')
+  const header = { alg: 'none', typ: 'JWT' }
+  const payload = {
+    aud: audience,
+    iss: `http://localhost:${port}/`,
+    iat: now,
+    nbf: now,
+    exp: now + lifetimeSeconds,
+    scp: scope,
+    upn: username,
+    name: 'Local Developer'
+  }
+  return `${base64Url(header)}.${base64Url(payload)}.`
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = ''
+    req.on('data', chunk => { data += chunk })
+    req.on('end', () => resolve(data))
+    req.on('error', reject)
+  })
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' })
+  res.end(JSON.stringify(body))
+}
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Headers', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS')
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204)
+    res.end()
+    return
+  }
+
+  if (req.method !== 'POST' || req.url !== '/token') {
+    sendJson(res, 404, { error: 'not_found', error_description: `No route for ${req.method} ${req.url}` })
+    return
+  }
+
+  let request
+  try {
+    request = JSON.parse(await readBody(req))
+  } catch {
+    sendJson(res, 400, { error: 'invalid_request', error_description: 'Request body is not valid JSON' })
+    return
+  }
+
+  if (!request.scope) {
+    sendJson(res, 400, { error: 'invalid_scope', error_description: 'scope is required' })
+    return
+  }
+
+  issued++
+  console.log(`🔑 #${issued} token for ${request.username || 'anonymous'}: ${request.scope}`)
+  sendJson(res, 200, {
+    token_type: 'Bearer',
+    access_token: createToken(request.scope, request.username || 'developer@localhost'),
+    expires_in: lifetimeSeconds
+  })
+})
+
+server.listen(port, () => {
+  console.log(`🔐 Fake token endpoint listening on http://localhost:${port}/token (lifetime ${lifetimeSeconds}s)`)
+})
@@ -0,0 +1,169 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for an Azure Data Explorer cluster.
+ * Replays recorded Kusto REST responses so the real (non-mock) ADX path can be
+ * exercised without a cluster. Point the app at http://localhost:8080.
+ *
+ * Each file in scripts/kusto-recordings is a JSON object:
+ *   { "endpoint": "query" | "mgmt", "match": "<regex tested against csl>", "status": 200, "body": ... }
+ * The first recording whose endpoint and pattern match the request is replayed.
+ *
+ * Requests with results_progressive_enabled get the recorded result tables split
+ * into TableHeader/TableFragment/TableCompletion frames, written one at a time
+ * (KUSTO_REPLAY_FRAGMENT_ROWS rows per fragment, KUSTO_REPLAY_FRAME_DELAY_MS apart).
+ *
+ * KUSTO_REPLAY_REQUIRE_AUTH=true rejects requests without a bearer token, like a real cluster.
+ */
+
+import fs from 'fs'
+import http from 'http'
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const recordingsDir = path.join(__dirname, 'kusto-recordings')
+const port = Number(process.env.KUSTO_REPLAY_PORT) || 8080
+const fragmentRows = Number(process.env.KUSTO_REPLAY_FRAGMENT_ROWS) || 2
+const frameDelayMs = Number(process.env.KUSTO_REPLAY_FRAME_DELAY_MS) || 50
+const requireAuth = process.env.KUSTO_REPLAY_REQUIRE_AUTH === 'true'
+
+function loadRecordings() {
+  return fs.readdirSync(recordingsDir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => {
+      const recording = JSON.parse(fs.readFileSync(path.join(recordingsDir, file), 'utf8'))
+      return { ...recording, file, pattern: new RegExp(recording.match, 'i') }
+    })
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' })
+  res.end(JSON.stringify(body))
+}
+
+function toProgressiveFrames(frames) {
+  return frames.flatMap(frame => {
+    if (frame.FrameType === 'DataSetHeader') {
+      return [{ ...frame, IsProgressive: true }]
+    }
+    if (frame.FrameType !== 'DataTable' || frame.TableKind !== 'PrimaryResult') {
+      return [frame]
+    }
+
+    const { TableId, TableKind, TableName, Columns, Rows } = frame
+    const fragments = []
+    for (let offset = 0; offset < Rows.length; offset += fragmentRows) {
+      fragments.push({
+        FrameType: 'TableFragment',
+        TableId,
+        TableFragmentType: 'DataAppend',
+        Rows: Rows.slice(offset, offset + fragmentRows)
+      })
+    }
+    return [
+      { FrameType: 'TableHeader', TableId, TableKind, TableName, Columns },
+      ...fragments,
+      { FrameType: 'TableCompletion', TableId, RowCount: Rows.length }
+    ]
+  })
+}
+
+async function streamFrames(req, res, frames) {
+  let closed = false
+  req.on('close', () => { closed = true })
+
+  res.writeHead(200, { 'Content-Type': 'application/json; charset=utf-8' })
+  res.write('[')
+  for (let i = 0; i < frames.length && !closed; i++) {
+    res.write(`${i > 0 ? ',' : ''}${JSON.stringify(frames[i])}\n`)
+    await new Promise(resolve => setTimeout(resolve, frameDelayMs))
+  }
+  res.end(']')
+}
+
+function isProgressive(request) {
+  try {
+    return JSON.parse(request.properties || '{}').Options?.results_progressive_enabled === true
+  } catch {
+    return false
+  }
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = ''
+    req.on('data', chunk => { data += chunk })
+    req.on('end', () => resolve(data))
+    req.on('error', reject)
+  })
+}
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Headers', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS')
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204)
+    res.end()
+    return
+  }
+
+  const endpoint = req.url === '/v2/rest/query' ? 'query' : req.url === '/v1/rest/mgmt' ? 'mgmt' : null
+  if (req.method !== 'POST' || !endpoint) {
+    sendJson(res, 404, { error: { code: 'NotFound', message: `No route for ${req.method} ${req.url}` } })
+    return
+  }
+
+  if (requireAuth && !/^Bearer\s+\S+/i.test(req.headers.authorization || '')) {
+    console.log(`🔒 ${endpoint} rejected: missing bearer token`)
+    sendJson(res, 401, {
+      error: {
+        code: 'Unauthorized',
+        message: 'The request is missing a valid bearer token.',
+        '@message': 'Unauthorized: the request is missing a valid bearer token.'
+      }
+    })
+    return
+  }
+
+  let request
+  try {
+    request = JSON.parse(await readBody(req))
+  } catch {
+    sendJson(res, 400, { error: { code: 'General_BadRequest', message: 'Request body is not valid JSON' } })
+    return
+  }
+
+  // Reload on every request so recordings can be edited while the server runs
+  const recording = loadRecordings().find(r => r.endpoint === endpoint && r.pattern.test(request.csl || ''))
+  if (!recording) {
+    console.log(`❌ ${endpoint} [${request.db}] no recording for: ${request.csl}`)
+    sendJson(res, 400, {
+      error: {
+        code: 'General_BadRequest',
+        message: 'Request is invalid and cannot be executed.',
+        '@type': 'Kusto.Data.Exceptions.SyntaxException',
+        '@message': `No recorded response matches the query: ${request.csl}`
+      }
+    })
+    return
+  }
+
+  const status = recording.status || 200
+  if (endpoint === 'query' && status === 200 && Array.isArray(recording.body) && isProgressive(request)) {
+    console.log(`✅ ${endpoint} [${request.db}] streaming ${recording.file}`)
+    await streamFrames(req, res, toProgressiveFrames(recording.body))
+    return
+  }
+
+  console.log(`✅ ${endpoint} [${request.db}] replaying ${recording.file}`)
+  sendJson(res, status, recording.body)
+})
+
+server.listen(port, () => {
+  console.log(`🛰️  Kusto replay server listening on http://localhost:${port}`)
+  console.log(`📼 Recordings: ${recordingsDir}`)
+})
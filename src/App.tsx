@@ -2,20 +2,21 @@ import { useEffect, useState } from 'react'
 import { app, pages } from '@microsoft/teams-js'
 import QueryInterface from './components/QueryInterface'
 import ErrorBoundary from './components/ErrorBoundary'
+import { connectionProfileService, ConnectionProfile } from './services/connectionProfiles'
+import { authService } from './services/authService'
 import { handleError, logError } from './utils/errorHandler'
 import './App.css'
 
 interface TeamsContext {
   theme: string
   isInTeams: boolean
-  user?: {
-    displayName?: string
-    userPrincipalName?: string
-  }
 }
 
 function App() {
   const [teamsInitialized, setTeamsInitialized] = useState(false)
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>(() => connectionProfileService.getProfiles())
+  const [activeProfile, setActiveProfile] = useState<ConnectionProfile | null>(() => connectionProfileService.getActiveProfile())
+  const [account, setAccount] = useState<any | null>(() => authService.getAccount())
   const [teamsContext, setTeamsContext] = useState<TeamsContext>({
     theme: 'default',
     isInTeams: false
@@ -31,8 +32,7 @@ function App() {
         
         setTeamsContext({
           theme: context.app.theme || 'default',
-          isInTeams: true,
-          user: context.user
+          isInTeams: true
         })
 
         // Listen for theme changes
@@ -57,6 +57,15 @@ function App() {
     initializeTeams()
   }, [])
 
+  useEffect(() => authService.subscribe(setAccount), [])
+
+  useEffect(() => {
+    return connectionProfileService.subscribe((profile) => {
+      setProfiles(connectionProfileService.getProfiles())
+      setActiveProfile(profile)
+    })
+  }, [])
+
   // Apply Teams theme to document
   useEffect(() => {
     document.body.className = `teams-theme-${teamsContext.theme} ${teamsContext.isInTeams ? 'in-teams' : 'browser-mode'}`
@@ -87,17 +96,31 @@ function App() {
               </div>
             </div>
             <div className="app-header-actions">
-              <div className="status-indicator">
+              <div className={`status-indicator ${activeProfile?.useMockData ? 'mock' : ''}`}>
                 <div className="status-dot"></div>
-                <span>Mock Mode Active</span>
+                <select
+                  className="profile-switcher"
+                  value={activeProfile?.id ?? ''}
+                  onChange={(e) => connectionProfileService.setActiveProfile(e.target.value)}
+                  aria-label="Connection profile"
+                >
+                  {profiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name}{profile.useMockData ? ' (mock)' : ''}
+                    </option>
+                  ))}
+                </select>
               </div>
               {teamsContext.isInTeams && (
                 <div className="teams-indicator">
                   <div className="teams-icon">🎯</div>
                   <span>Teams Tab</span>
-                  {teamsContext.user?.displayName && (
-                    <span className="user-name">• {teamsContext.user.displayName}</span>
-                  )}
+                </div>
+              )}
+              {account && (
+                <div className="teams-indicator" title={account.username}>
+                  <div className="teams-icon">👤</div>
+                  <span className="user-name">{account.name || account.username}</span>
                 </div>
               )}
             </div>
@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect } from 'react'
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -13,8 +13,10 @@ import {
   TimeScale,
 } from 'chart.js'
 import { Bar, Line, Pie, Doughnut } from 'react-chartjs-2'
-import { transformDataForVisualization, detectChartType } from '../utils/dataTransformer'
+import { transformDataForVisualization, detectChartType, formatValue } from '../utils/dataTransformer'
 import { exportData, getExportSummary, validateExportData, ExportFormat } from '../utils/dataExporter'
+import { ColumnDescriptor } from '../types/kusto'
+import { ResultTable } from '../services/adxService'
 import './ChartRenderer.css'
 
 ChartJS.register(
@@ -33,17 +35,36 @@ ChartJS.register(
 interface ChartRendererProps {
   data: any[]
   columns: string[]
+  columnDescriptors?: ColumnDescriptor[]
+  tables?: ResultTable[]
   suggestedTypes?: string[]
 }
 
 type ChartType = 'table' | 'bar' | 'line' | 'pie' | 'doughnut'
 
-const ChartRenderer = ({ data, columns, suggestedTypes = [] }: ChartRendererProps) => {
+const ChartRenderer = ({
+  data: primaryData,
+  columns: primaryColumns,
+  columnDescriptors: primaryColumnDescriptors,
+  tables = [],
+  suggestedTypes = []
+}: ChartRendererProps) => {
   const [selectedChartType, setSelectedChartType] = useState<ChartType>('table')
   const [showExportMenu, setShowExportMenu] = useState(false)
+  const [activeTableIndex, setActiveTableIndex] = useState(0)
+
+  useEffect(() => {
+    setActiveTableIndex(0)
+  }, [tables])
+
+  // With several result tables the tabs pick which one is shown; a single table uses the props as-is
+  const activeTable = tables.length > 1 ? tables[Math.min(activeTableIndex, tables.length - 1)] : null
+  const data = activeTable ? activeTable.data : primaryData
+  const columns = activeTable ? activeTable.columns : primaryColumns
+  const columnDescriptors = activeTable ? activeTable.columnDescriptors : primaryColumnDescriptors
 
   const availableChartTypes = useMemo(() => {
-    const detectedType = detectChartType(data, columns)
+    const detectedType = detectChartType(data, columns, columnDescriptors)
     const types: ChartType[] = ['table']
     
     if (data.length > 0) {
@@ -55,15 +76,15 @@ const ChartRenderer = ({ data, columns, suggestedTypes = [] }: ChartRendererProp
     }
     
     return { types, recommended: detectedType }
-  }, [data, columns])
+  }, [data, columns, columnDescriptors])
 
   const chartData = useMemo(() => {
     if (selectedChartType === 'table') {
       return null
     }
     
-    return transformDataForVisualization(data, columns, selectedChartType)
-  }, [data, columns, selectedChartType])
+    return transformDataForVisualization(data, columns, selectedChartType, columnDescriptors)
+  }, [data, columns, selectedChartType, columnDescriptors])
 
   const chartOptions = {
     responsive: true,
@@ -93,7 +114,9 @@ const ChartRenderer = ({ data, columns, suggestedTypes = [] }: ChartRendererProp
 
     try {
       const timestamp = new Date().toISOString().split('T')[0]
-      const filename = `adx-query-results-${timestamp}`
+      const filename = activeTable
+        ? `adx-query-results-${activeTable.name}-${timestamp}`
+        : `adx-query-results-${timestamp}`
       
       exportData(data, columns, {
         format,
@@ -130,13 +153,15 @@ const ChartRenderer = ({ data, columns, suggestedTypes = [] }: ChartRendererProp
       return <div className="no-data">No data to display</div>
     }
 
+    const columnTypes = new Map((columnDescriptors || []).map(column => [column.name, column.type]))
+
     return (
       <div className="table-container">
         <table className="data-table">
           <thead>
             <tr>
               {columns.map((column) => (
-                <th key={column}>{column}</th>
+                <th key={column} title={columnTypes.get(column)}>{column}</th>
               ))}
             </tr>
           </thead>
@@ -145,9 +170,7 @@ const ChartRenderer = ({ data, columns, suggestedTypes = [] }: ChartRendererProp
               <tr key={index}>
                 {columns.map((column) => (
                   <td key={column}>
-                    {row[column] !== null && row[column] !== undefined
-                      ? String(row[column])
-                      : '—'}
+                    {formatValue(row[column], columnTypes.get(column))}
                   </td>
                 ))}
               </tr>
@@ -165,6 +188,23 @@ const ChartRenderer = ({ data, columns, suggestedTypes = [] }: ChartRendererProp
 
   return (
     <div className="chart-renderer">
+      {activeTable && (
+        <div className="result-table-tabs" role="tablist">
+          {tables.map((table, index) => (
+            <button
+              key={table.name}
+              role="tab"
+              aria-selected={table === activeTable}
+              className={`result-table-tab ${table === activeTable ? 'active' : ''}`}
+              onClick={() => setActiveTableIndex(index)}
+            >
+              {table.name}
+              <span className="result-table-count">{table.rowCount}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
       <div className="chart-controls">
         <div className="chart-controls-row">
           <div className="chart-type-selector">
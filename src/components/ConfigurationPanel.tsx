@@ -1,128 +1,188 @@
 import { useState, useEffect } from 'react'
-import { adxService, ADXConnection } from '../services/adxService'
+import { adxService, ADXAuthMode, TableDetails } from '../services/adxService'
+import {
+  connectionProfileService,
+  ConnectionProfile,
+  createProfileId,
+  toConnection
+} from '../services/connectionProfiles'
 import { handleError, logError } from '../utils/errorHandler'
 import './ConfigurationPanel.css'
 
 interface ConfigurationPanelProps {
   isOpen: boolean
   onClose: () => void
-  onConnectionChange: (connected: boolean) => void
 }
 
-interface ConnectionSettings {
-  clusterUrl: string
-  database: string
-  customEndpoint: boolean
+const AUTH_MODE_LABELS: Record<ADXAuthMode, string> = {
+  'msal': 'Azure AD sign-in (MSAL)',
+  'teams-sso': 'Microsoft Teams SSO',
+  'none': 'No authentication (local cluster)'
 }
 
-const ConfigurationPanel = ({ isOpen, onClose, onConnectionChange }: ConfigurationPanelProps) => {
-  const [settings, setSettings] = useState<ConnectionSettings>({
-    clusterUrl: import.meta.env.VITE_ADX_CLUSTER_URL || '',
-    database: import.meta.env.VITE_ADX_DATABASE_NAME || '',
-    customEndpoint: false
-  })
+const createBlankProfile = (): ConnectionProfile => ({
+  id: createProfileId(),
+  name: 'New profile',
+  clusterUrl: '',
+  database: '',
+  authMode: 'msal',
+  useMockData: false
+})
+
+const ConfigurationPanel = ({ isOpen, onClose }: ConfigurationPanelProps) => {
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>([])
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<ConnectionProfile>(createBlankProfile)
   const [isConnecting, setIsConnecting] = useState(false)
   const [connectionStatus, setConnectionStatus] = useState<'idle' | 'connected' | 'failed'>('idle')
   const [errorMessage, setErrorMessage] = useState<string | null>(null)
   const [availableDatabases, setAvailableDatabases] = useState<string[]>([])
+  const [tableDetails, setTableDetails] = useState<TableDetails[]>([])
+  const [isLoadingTables, setIsLoadingTables] = useState(false)
 
   useEffect(() => {
     if (isOpen) {
-      loadCurrentSettings()
+      loadProfiles()
     }
   }, [isOpen])
 
-  const loadCurrentSettings = () => {
-    const current = adxService.getConnection()
-    if (current) {
-      setSettings({
-        clusterUrl: current.clusterUrl,
-        database: current.database,
-        customEndpoint: true
-      })
-      setConnectionStatus('connected')
+  const loadProfiles = (selectedId?: string) => {
+    const saved = connectionProfileService.getProfiles()
+    const active = connectionProfileService.getActiveProfile()
+    setProfiles(saved)
+    setActiveProfileId(active?.id ?? null)
+
+    const selected = saved.find(profile => profile.id === selectedId) || active || saved[0]
+    if (selected) {
+      selectProfile(selected)
+    }
+  }
+
+  const selectProfile = (profile: ConnectionProfile) => {
+    setDraft({ ...profile })
+    setErrorMessage(null)
+    setAvailableDatabases([])
+    setTableDetails([])
+
+    const isActive = profile.id === connectionProfileService.getActiveProfile()?.id
+    const isConnected = isActive && adxService.isConnected()
+    setConnectionStatus(isConnected ? 'connected' : 'idle')
+    if (isConnected) {
+      loadTableDetails()
+    }
+  }
+
+  const updateDraft = (changes: Partial<ConnectionProfile>) => {
+    setDraft({ ...draft, ...changes })
+    setConnectionStatus('idle')
+
+    // The database list belongs to the cluster it was read from
+    if (changes.clusterUrl !== undefined || changes.useMockData !== undefined || changes.authMode !== undefined) {
+      setAvailableDatabases([])
+    }
+  }
+
+  // The browser describes the connected database, so it is only shown for the active profile
+  const loadTableDetails = async () => {
+    setIsLoadingTables(true)
+    try {
+      setTableDetails(await adxService.getTableDetails())
+    } catch (error) {
+      console.warn('Failed to load table details:', error)
+      setTableDetails([])
+    } finally {
+      setIsLoadingTables(false)
     }
   }
 
-  const testConnection = async () => {
+  // Resolves to the tested profile, which may have had a database filled in, or null on failure
+  const testConnection = async (): Promise<ConnectionProfile | null> => {
     setIsConnecting(true)
     setErrorMessage(null)
-    
+
     try {
-      const connection: ADXConnection = {
-        clusterUrl: settings.clusterUrl,
-        database: settings.database
+      const databases = await adxService.getDatabases(toConnection(draft))
+      setAvailableDatabases(databases)
+
+      // Pick a database for the user when they only knew the cluster
+      const tested = draft.database || !databases.length ? draft : { ...draft, database: databases[0] }
+      setDraft(tested)
+      if (!tested.database) {
+        throw new Error('No databases found on this cluster')
       }
-      
-      await adxService.initialize(connection)
-      const isConnected = await adxService.testConnection()
-      
-      if (isConnected) {
-        setConnectionStatus('connected')
-        onConnectionChange(true)
-        
-        try {
-          const tables = await adxService.getTables()
-          setAvailableDatabases(tables)
-        } catch (error) {
-          console.warn('Failed to load database tables:', error)
-        }
-      } else {
+
+      // Probing leaves the active connection untouched until the profile is used
+      const isConnected = await adxService.probeConnection(toConnection(tested))
+      if (!isConnected) {
         throw new Error('Connection test failed')
       }
+      setConnectionStatus('connected')
+      return tested
     } catch (error) {
       const appError = handleError(error, 'ConfigurationPanel')
       logError(appError)
       setConnectionStatus('failed')
       setErrorMessage(appError.message)
-      onConnectionChange(false)
+      return null
+    } finally {
+      setIsConnecting(false)
     }
-    
-    setIsConnecting(false)
   }
 
-  const saveSettings = async () => {
-    const savedSettings = {
-      clusterUrl: settings.clusterUrl,
-      database: settings.database,
-      customEndpoint: settings.customEndpoint
-    }
-    
-    localStorage.setItem('corvus-adx-settings', JSON.stringify(savedSettings))
-    
-    if (connectionStatus === 'connected') {
-      onClose()
-    } else {
-      await testConnection()
+  const saveProfile = () => {
+    connectionProfileService.saveProfile({ ...draft, name: draft.name.trim() || 'Untitled profile' })
+    loadProfiles(draft.id)
+  }
+
+  const saveAndUse = async () => {
+    const profile = connectionStatus === 'connected' ? draft : await testConnection()
+    if (!profile) {
+      return
     }
+
+    connectionProfileService.saveProfile({ ...profile, name: profile.name.trim() || 'Untitled profile' })
+    connectionProfileService.setActiveProfile(profile.id)
+    onClose()
   }
 
-  const resetToDefaults = () => {
-    setSettings({
-      clusterUrl: import.meta.env.VITE_ADX_CLUSTER_URL || '',
-      database: import.meta.env.VITE_ADX_DATABASE_NAME || '',
-      customEndpoint: false
-    })
-    setConnectionStatus('idle')
-    setErrorMessage(null)
-    setAvailableDatabases([])
+  const deleteProfile = () => {
+    try {
+      connectionProfileService.deleteProfile(draft.id)
+      loadProfiles()
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : String(error))
+    }
   }
 
   const validateUrl = (url: string): boolean => {
     try {
       const urlObj = new URL(url)
+      // Plain http is only accepted for a local stand-in cluster (scripts/kusto-replay-server.js)
+      if (urlObj.hostname === 'localhost' || urlObj.hostname === '127.0.0.1') {
+        return true
+      }
       return urlObj.protocol === 'https:' && urlObj.hostname.includes('kusto')
     } catch {
       return false
     }
   }
 
+  // Mock profiles never reach a cluster, so any URL will do
+  const isValidCluster = () => {
+    return draft.clusterUrl.trim() !== '' &&
+           (draft.useMockData || validateUrl(draft.clusterUrl))
+  }
+
   const isValidConfiguration = () => {
-    return settings.clusterUrl.trim() !== '' && 
-           settings.database.trim() !== '' &&
-           validateUrl(settings.clusterUrl)
+    return isValidCluster() && draft.database.trim() !== ''
   }
 
+  const databaseOptions = availableDatabases.includes(draft.database) || !draft.database
+    ? availableDatabases
+    : [draft.database, ...availableDatabases]
+
+  const isSaved = profiles.some(profile => profile.id === draft.id)
+
   if (!isOpen) return null
 
   return (
@@ -136,62 +196,140 @@ const ConfigurationPanel = ({ isOpen, onClose, onConnectionChange }: Configurati
         </div>
 
         <div className="config-content">
+          <div className="config-section">
+            <h3>Connection Profiles</h3>
+
+            <div className="profile-list">
+              {profiles.map((profile) => (
+                <button
+                  key={profile.id}
+                  className={`profile-tag ${profile.id === draft.id ? 'selected' : ''}`}
+                  onClick={() => selectProfile(profile)}
+                  disabled={isConnecting}
+                >
+                  {profile.name}
+                  {profile.id === activeProfileId && <span className="profile-active">active</span>}
+                  {profile.useMockData && <span className="profile-mock">mock</span>}
+                </button>
+              ))}
+              <button
+                className="profile-tag new"
+                onClick={() => selectProfile(createBlankProfile())}
+                disabled={isConnecting}
+              >
+                + New profile
+              </button>
+            </div>
+          </div>
+
           <div className="config-section">
             <h3>Connection Settings</h3>
-            
+
+            <div className="form-group">
+              <label htmlFor="profile-name">Profile Name</label>
+              <input
+                id="profile-name"
+                type="text"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="Production fleet"
+              />
+            </div>
+
             <div className="form-group">
               <label htmlFor="cluster-url">Cluster URL</label>
               <input
                 id="cluster-url"
                 type="text"
-                value={settings.clusterUrl}
-                onChange={(e) => setSettings({ ...settings, clusterUrl: e.target.value })}
+                value={draft.clusterUrl}
+                onChange={(e) => updateDraft({ clusterUrl: e.target.value })}
                 placeholder="https://your-cluster.kusto.windows.net"
-                className={!validateUrl(settings.clusterUrl) && settings.clusterUrl ? 'invalid' : ''}
+                className={!draft.useMockData && draft.clusterUrl && !validateUrl(draft.clusterUrl) ? 'invalid' : ''}
               />
-              {settings.clusterUrl && !validateUrl(settings.clusterUrl) && (
+              {!draft.useMockData && draft.clusterUrl && !validateUrl(draft.clusterUrl) && (
                 <span className="field-error">Please enter a valid ADX cluster URL</span>
               )}
             </div>
 
             <div className="form-group">
               <label htmlFor="database">Database Name</label>
-              <input
-                id="database"
-                type="text"
-                value={settings.database}
-                onChange={(e) => setSettings({ ...settings, database: e.target.value })}
-                placeholder="your-database-name"
-              />
+              {databaseOptions.length > 0 ? (
+                <select
+                  id="database"
+                  value={draft.database}
+                  onChange={(e) => updateDraft({ database: e.target.value })}
+                >
+                  {databaseOptions.map((database) => (
+                    <option key={database} value={database}>{database}</option>
+                  ))}
+                </select>
+              ) : (
+                <>
+                  <input
+                    id="database"
+                    type="text"
+                    value={draft.database}
+                    onChange={(e) => updateDraft({ database: e.target.value })}
+                    placeholder="your-database-name"
+                  />
+                  <span className="field-hint">Test the connection to list the databases on this cluster</span>
+                </>
+              )}
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="auth-mode">Authentication</label>
+              <select
+                id="auth-mode"
+                value={draft.authMode}
+                onChange={(e) => updateDraft({ authMode: e.target.value as ADXAuthMode })}
+              >
+                {(Object.keys(AUTH_MODE_LABELS) as ADXAuthMode[]).map((mode) => (
+                  <option key={mode} value={mode}>{AUTH_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
             </div>
 
             <div className="checkbox-group">
               <label>
                 <input
                   type="checkbox"
-                  checked={settings.customEndpoint}
-                  onChange={(e) => setSettings({ ...settings, customEndpoint: e.target.checked })}
+                  checked={draft.useMockData}
+                  onChange={(e) => updateDraft({ useMockData: e.target.checked })}
                 />
-                <span>Use custom endpoint (override environment variables)</span>
+                <span>Use mock data (no cluster connection)</span>
               </label>
             </div>
           </div>
 
-          {connectionStatus === 'connected' && availableDatabases.length > 0 && (
+          {(isLoadingTables || tableDetails.length > 0) && (
             <div className="config-section">
-              <h3>Available Tables</h3>
-              <div className="tables-list">
-                {availableDatabases.slice(0, 10).map((table) => (
-                  <span key={table} className="table-tag">
-                    {table}
-                  </span>
-                ))}
-                {availableDatabases.length > 10 && (
-                  <span className="table-tag more">
-                    +{availableDatabases.length - 10} more
-                  </span>
-                )}
-              </div>
+              <h3>Tables in {draft.database}</h3>
+              {isLoadingTables ? (
+                <p className="field-hint">Loading tables...</p>
+              ) : (
+                <div className="table-browser">
+                  {tableDetails.map((table) => (
+                    <details key={table.name} className="table-details">
+                      <summary>
+                        <span className="table-name">{table.name}</span>
+                        <span className="table-stats">
+                          {table.rowCount !== null ? `${table.rowCount.toLocaleString()} rows • ` : ''}
+                          {table.columns.length} columns
+                        </span>
+                      </summary>
+                      <ul className="table-columns">
+                        {table.columns.map((column) => (
+                          <li key={column.name}>
+                            <span className="column-name">{column.name}</span>
+                            <span className="column-type">{column.type}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  ))}
+                </div>
+              )}
             </div>
           )}
 
@@ -205,7 +343,7 @@ const ConfigurationPanel = ({ isOpen, onClose, onConnectionChange }: Configurati
                 {connectionStatus === 'failed' && 'Connection failed'}
               </span>
             </div>
-            
+
             {errorMessage && (
               <div className="error-message">
                 {errorMessage}
@@ -219,35 +357,35 @@ const ConfigurationPanel = ({ isOpen, onClose, onConnectionChange }: Configurati
             <button
               className="test-button"
               onClick={testConnection}
-              disabled={isConnecting || !isValidConfiguration()}
+              disabled={isConnecting || !isValidCluster()}
             >
               {isConnecting ? 'Testing...' : 'Test Connection'}
             </button>
-            
+
             <button
-              className="reset-button"
-              onClick={resetToDefaults}
-              disabled={isConnecting}
+              className="delete-profile-button"
+              onClick={deleteProfile}
+              disabled={isConnecting || !isSaved || profiles.length <= 1}
             >
-              Reset to Defaults
+              Delete
             </button>
           </div>
-          
+
           <div className="button-group">
             <button
-              className="cancel-button"
-              onClick={onClose}
-              disabled={isConnecting}
+              className="save-profile-button"
+              onClick={saveProfile}
+              disabled={isConnecting || !isValidConfiguration()}
             >
-              Cancel
+              Save
             </button>
-            
+
             <button
               className="save-button"
-              onClick={saveSettings}
+              onClick={saveAndUse}
               disabled={isConnecting || !isValidConfiguration()}
             >
-              {connectionStatus === 'connected' ? 'Save & Close' : 'Save & Test'}
+              {draft.id === activeProfileId ? 'Save & Reconnect' : 'Save & Use'}
             </button>
           </div>
         </div>
@@ -256,4 +394,4 @@ const ConfigurationPanel = ({ isOpen, onClose, onConnectionChange }: Configurati
   )
 }
 
-export default ConfigurationPanel
\ No newline at end of file
+export default ConfigurationPanel
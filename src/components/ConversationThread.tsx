@@ -0,0 +1,75 @@
+import { QueryResult } from '../services/adxService'
+import { QueryParameterDefinition } from '../utils/queryParameters'
+import ChartRenderer from './ChartRenderer'
+import './ConversationThread.css'
+
+export interface ConversationThreadTurn {
+  id: string
+  question: string
+  kqlQuery: string
+  explanation?: string
+  parameters: QueryParameterDefinition[]
+  parameterValues: Record<string, string>
+  result?: QueryResult
+  error?: string
+}
+
+interface ConversationThreadProps {
+  turns: ConversationThreadTurn[]
+  onSelectTurn: (turn: ConversationThreadTurn) => void
+}
+
+// Turns of the conversation other than the one QueryInterface shows in full
+const ConversationThread = ({ turns, onSelectTurn }: ConversationThreadProps) => {
+  if (turns.length === 0) return null
+
+  const renderOutcome = (turn: ConversationThreadTurn) => {
+    if (turn.error) {
+      return <div className="turn-error">⚠️ {turn.error}</div>
+    }
+    if (!turn.result) {
+      return <div className="turn-status">Not run</div>
+    }
+
+    return (
+      <details className="turn-result">
+        <summary>
+          {turn.result.rowCount} rows
+          {turn.result.columns.length > 0 && ` • ${turn.result.columns.join(', ')}`}
+          {turn.result.truncated && ' • partial'}
+        </summary>
+        <ChartRenderer
+          data={turn.result.data}
+          columns={turn.result.columns}
+          columnDescriptors={turn.result.columnDescriptors}
+          tables={turn.result.tables}
+        />
+      </details>
+    )
+  }
+
+  return (
+    <div className="conversation-thread">
+      <h3>Conversation</h3>
+      {turns.map(turn => (
+        <div key={turn.id} className="conversation-turn">
+          <div className="turn-question">{turn.question}</div>
+          <div className="turn-answer">
+            {turn.explanation && <p className="turn-explanation">{turn.explanation}</p>}
+            <pre className="turn-kql">{turn.kqlQuery}</pre>
+            {renderOutcome(turn)}
+            <button
+              className="turn-reuse-button"
+              onClick={() => onSelectTurn(turn)}
+              title="Load this query and its result again"
+            >
+              ↩ Show again
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default ConversationThread
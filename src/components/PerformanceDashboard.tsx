@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react'
 import { performanceMonitor, QueryPerformanceMetrics, PerformanceStats } from '../utils/performanceMonitor'
+import { UsageGrouping, UsageReport } from '../services/llmBudget'
+import { nlToKqlService } from '../services/nlToKqlService'
 import './PerformanceDashboard.css'
 
 interface PerformanceDashboardProps {
@@ -10,7 +12,10 @@ interface PerformanceDashboardProps {
 const PerformanceDashboard = ({ isOpen, onClose }: PerformanceDashboardProps) => {
   const [stats, setStats] = useState<PerformanceStats | null>(null)
   const [selectedQuery, setSelectedQuery] = useState<QueryPerformanceMetrics | null>(null)
-  const [viewMode, setViewMode] = useState<'overview' | 'details' | 'export'>('overview')
+  const [viewMode, setViewMode] = useState<'overview' | 'details' | 'usage' | 'export'>('overview')
+  const [usageGrouping, setUsageGrouping] = useState<UsageGrouping>('day')
+  const [usageReport, setUsageReport] = useState<UsageReport | null>(null)
+  const [usageError, setUsageError] = useState<string | null>(null)
 
   useEffect(() => {
     if (isOpen) {
@@ -18,16 +23,37 @@ const PerformanceDashboard = ({ isOpen, onClose }: PerformanceDashboardProps) =>
     }
   }, [isOpen])
 
+  useEffect(() => {
+    if (isOpen && viewMode === 'usage') {
+      loadUsage(usageGrouping)
+    }
+  }, [isOpen, viewMode, usageGrouping])
+
   const loadStats = () => {
     const currentStats = performanceMonitor.getStats()
     setStats(currentStats)
   }
 
+  // Spend is counted by the API across every user, so it is fetched rather than taken from this browser's metrics
+  const loadUsage = async (grouping: UsageGrouping) => {
+    try {
+      setUsageReport(await nlToKqlService.getUsageReport(grouping))
+      setUsageError(null)
+    } catch (error) {
+      console.warn('Failed to load LLM usage:', error)
+      setUsageError(error instanceof Error ? error.message : 'LLM usage could not be loaded')
+    }
+  }
+
   const formatDuration = (ms: number): string => {
     if (ms < 1000) return `${Math.round(ms)}ms`
     return `${(ms / 1000).toFixed(2)}s`
   }
 
+  const formatCost = (usd: number): string => {
+    return usd < 0.01 && usd > 0 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`
+  }
+
   // const formatBytes = (bytes: number): string => {
   //   if (bytes === 0) return '0 B'
   //   const sizes = ['B', 'KB', 'MB', 'GB']
@@ -90,6 +116,12 @@ const PerformanceDashboard = ({ isOpen, onClose }: PerformanceDashboardProps) =>
               >
                 Query Details
               </button>
+              <button 
+                className={`tab-button ${viewMode === 'usage' ? 'active' : ''}`}
+                onClick={() => setViewMode('usage')}
+              >
+                LLM Usage
+              </button>
               <button 
                 className={`tab-button ${viewMode === 'export' ? 'active' : ''}`}
                 onClick={() => setViewMode('export')}
@@ -117,6 +149,19 @@ const PerformanceDashboard = ({ isOpen, onClose }: PerformanceDashboardProps) =>
                   <div className="stat-value">{stats.failedQueries}</div>
                   <div className="stat-label">Failed</div>
                 </div>
+                <div className="stat-card">
+                  <div className="stat-value">{stats.cancelledQueries}</div>
+                  <div className="stat-label">Cancelled</div>
+                </div>
+                <div className="stat-card">
+                  <div className="stat-value">
+                    {stats.cacheHits + stats.cacheMisses > 0 ?
+                      `${Math.round((stats.cacheHits / (stats.cacheHits + stats.cacheMisses)) * 100)}%` :
+                      'N/A'
+                    }
+                  </div>
+                  <div className="stat-label">Cache Hit Rate</div>
+                </div>
                 <div className="stat-card">
                   <div className="stat-value">{formatDuration(stats.averageDuration)}</div>
                   <div className="stat-label">Avg Duration</div>
@@ -125,6 +170,10 @@ const PerformanceDashboard = ({ isOpen, onClose }: PerformanceDashboardProps) =>
                   <div className="stat-value">{Math.round(stats.averageRowCount)}</div>
                   <div className="stat-label">Avg Rows</div>
                 </div>
+                <div className="stat-card" title={`${stats.totalRepairAttempts} repair attempts, ${stats.unrepairedQueries} queries still failed`}>
+                  <div className="stat-value">{stats.repairedQueries}</div>
+                  <div className="stat-label">Auto-repaired</div>
+                </div>
                 <div className="stat-card success-rate">
                   <div className="stat-value">
                     {stats.totalQueries > 0 ? 
@@ -174,8 +223,8 @@ const PerformanceDashboard = ({ isOpen, onClose }: PerformanceDashboardProps) =>
                             {formatDuration(query.duration)}
                           </span>
                           <span className="query-rows">{query.rowCount} rows</span>
-                          <span className={`query-status ${query.success ? 'success' : 'error'}`}>
-                            {query.success ? '✓' : '✗'}
+                          <span className={`query-status ${query.success ? 'success' : query.cancelled ? 'cancelled' : 'error'}`}>
+                            {query.success ? '✓' : query.cancelled ? '⊘' : '✗'}
                           </span>
                         </div>
                       </div>
@@ -224,7 +273,12 @@ const PerformanceDashboard = ({ isOpen, onClose }: PerformanceDashboardProps) =>
                           <span className="timing-value">{formatDuration(selectedQuery.nlProcessingTime)}</span>
                         </div>
                       )}
-                      {selectedQuery.adxExecutionTime && (
+                      {selectedQuery.cacheHit ? (
+                        <div className="timing-bar">
+                          <span className="timing-label">ADX Execution</span>
+                          <span className="timing-value">cached</span>
+                        </div>
+                      ) : selectedQuery.adxExecutionTime && (
                         <div className="timing-bar">
                           <span className="timing-label">ADX Execution</span>
                           <span className="timing-value">{formatDuration(selectedQuery.adxExecutionTime)}</span>
@@ -242,6 +296,28 @@ const PerformanceDashboard = ({ isOpen, onClose }: PerformanceDashboardProps) =>
                           <span className="timing-value">{formatDuration(selectedQuery.renderTime)}</span>
                         </div>
                       )}
+                      {selectedQuery.llmCalls ? (
+                        <>
+                          <div className="timing-bar">
+                            <span className="timing-label">LLM ({selectedQuery.llmModel}, {selectedQuery.llmCalls} {selectedQuery.llmCalls === 1 ? 'call' : 'calls'})</span>
+                            <span className="timing-value">{formatDuration(selectedQuery.llmLatency || 0)}</span>
+                          </div>
+                          <div className="timing-bar">
+                            <span className="timing-label">Tokens (prompt / completion)</span>
+                            <span className="timing-value">{selectedQuery.promptTokens || 0} / {selectedQuery.completionTokens || 0}</span>
+                          </div>
+                          <div className="timing-bar">
+                            <span className="timing-label">Estimated Cost</span>
+                            <span className="timing-value">{selectedQuery.estimatedCost !== undefined ? formatCost(selectedQuery.estimatedCost) : 'unknown'}</span>
+                          </div>
+                        </>
+                      ) : null}
+                      {selectedQuery.repairAttempts ? (
+                        <div className="timing-bar">
+                          <span className="timing-label">KQL Repairs</span>
+                          <span className="timing-value">{selectedQuery.repairAttempts}</span>
+                        </div>
+                      ) : null}
                       <div className="timing-bar total">
                         <span className="timing-label">Total Duration</span>
                         <span className="timing-value">{formatDuration(selectedQuery.duration)}</span>
@@ -267,7 +343,14 @@ const PerformanceDashboard = ({ isOpen, onClose }: PerformanceDashboardProps) =>
                     </div>
                   )}
 
-                  {!selectedQuery.success && selectedQuery.errorMessage && (
+                  {selectedQuery.cancelled && (
+                    <div className="error-details">
+                      <h4>Cancelled</h4>
+                      <div className="error-message">{selectedQuery.errorMessage || 'Cancelled by user'}</div>
+                    </div>
+                  )}
+
+                  {!selectedQuery.success && !selectedQuery.cancelled && selectedQuery.errorMessage && (
                     <div className="error-details">
                       <h4>Error Details</h4>
                       <div className="error-message">{selectedQuery.errorMessage}</div>
@@ -283,6 +366,108 @@ const PerformanceDashboard = ({ isOpen, onClose }: PerformanceDashboardProps) =>
             </div>
           )}
 
+          {viewMode === 'usage' && (
+            <div className="usage-section">
+              {usageError && !usageReport && (
+                <div className="no-selection">
+                  <p>LLM usage could not be loaded from the API: {usageError}</p>
+                  <button onClick={() => loadUsage(usageGrouping)}>Retry</button>
+                </div>
+              )}
+
+              {usageReport && usageReport.budget.budget !== null && (
+                <div className={`budget-status ${usageReport.budget.state}`}>
+                  <div className="budget-summary">
+                    <span>Budget for {usageReport.budget.month}</span>
+                    <strong>{formatCost(usageReport.budget.spent)} of {formatCost(usageReport.budget.budget)}</strong>
+                  </div>
+                  <div className="budget-bar">
+                    <div className="budget-bar-fill" style={{ width: `${Math.min(100, (usageReport.budget.spent / usageReport.budget.budget) * 100)}%` }} />
+                  </div>
+                  {usageReport.budget.state === 'exceeded' && (
+                    <div className="budget-note">Budget used up: the API refuses model calls and queries are generated by the offline parser until next month.</div>
+                  )}
+                </div>
+              )}
+
+              <div className="stats-grid">
+                {usageReport && (
+                  <>
+                    <div className="stat-card">
+                      <div className="stat-value">{formatCost(usageReport.budget.spent)}</div>
+                      <div className="stat-label">Spent in {usageReport.budget.month}</div>
+                    </div>
+                    <div className="stat-card">
+                      <div className="stat-value">{usageReport.budget.tokens.toLocaleString()}</div>
+                      <div className="stat-label">Tokens in {usageReport.budget.month}</div>
+                    </div>
+                    <div className="stat-card">
+                      <div className="stat-value">{usageReport.budget.calls}</div>
+                      <div className="stat-label">LLM Calls in {usageReport.budget.month}</div>
+                    </div>
+                  </>
+                )}
+                <div className="stat-card">
+                  <div className="stat-value">{formatCost(stats.totalEstimatedCost)}</div>
+                  <div className="stat-label">Cost in This Browser</div>
+                </div>
+              </div>
+
+              {usageReport && (
+                <div className="usage-breakdown">
+                  <div className="usage-breakdown-header">
+                    <h3>Usage by {usageGrouping === 'day' ? 'Day' : 'User'}</h3>
+                    <div className="view-tabs">
+                      <button
+                        className={`tab-button ${usageGrouping === 'day' ? 'active' : ''}`}
+                        onClick={() => setUsageGrouping('day')}
+                      >
+                        Day
+                      </button>
+                      <button
+                        className={`tab-button ${usageGrouping === 'user' ? 'active' : ''}`}
+                        onClick={() => setUsageGrouping('user')}
+                      >
+                        User
+                      </button>
+                    </div>
+                  </div>
+                  {usageError ? (
+                    <p className="usage-note">{usageError}</p>
+                  ) : (
+                    <>
+                      <table className="usage-table">
+                        <thead>
+                          <tr>
+                            <th>{usageGrouping === 'day' ? 'Day' : 'User'}</th>
+                            <th>LLM Calls</th>
+                            <th>Prompt Tokens</th>
+                            <th>Completion Tokens</th>
+                            <th>Avg Latency</th>
+                            <th>Est. Cost</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {usageReport.breakdown.map(row => (
+                            <tr key={row.key}>
+                              <td>{row.key}</td>
+                              <td>{row.calls}</td>
+                              <td>{row.promptTokens.toLocaleString()}</td>
+                              <td>{row.completionTokens.toLocaleString()}</td>
+                              <td>{formatDuration(row.averageLatency)}</td>
+                              <td>{formatCost(row.estimatedCost)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      <p className="usage-note">Every model call in {usageReport.budget.month}, including explanations, as recorded by the API; days are in UTC.</p>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           {viewMode === 'export' && (
             <div className="export-section">
               <h3>Export Performance Data</h3>
@@ -303,6 +488,7 @@ const PerformanceDashboard = ({ isOpen, onClose }: PerformanceDashboardProps) =>
                   <li>Query execution times and breakdowns</li>
                   <li>Success/failure rates</li>
                   <li>Row counts and data sizes</li>
+                  <li>LLM model, tokens, latency and estimated cost</li>
                   <li>Performance suggestions</li>
                   <li>Timestamps and query details</li>
                 </ul>
@@ -0,0 +1,42 @@
+import { KQLExplanation } from '../utils/kqlExplainer'
+import './QueryExplanation.css'
+
+interface QueryExplanationProps {
+  explanation: KQLExplanation | null
+  isExplaining: boolean
+  onExplain: () => void
+}
+
+// Step-by-step walk-through of the KQL shown above it, for queries that did not come with an explanation
+const QueryExplanation = ({ explanation, isExplaining, onExplain }: QueryExplanationProps) => {
+  if (isExplaining) {
+    return <div className="query-walkthrough explaining">📖 Explaining the query…</div>
+  }
+
+  if (!explanation) {
+    return (
+      <button className="explain-kql-button" onClick={onExplain}>
+        📖 Explain step by step
+      </button>
+    )
+  }
+
+  return (
+    <details className="query-walkthrough" open>
+      <summary>📖 {explanation.summary}</summary>
+      <ol className="walkthrough-steps">
+        {explanation.steps.map((step, index) => (
+          <li key={index} className="walkthrough-step">
+            <code className="walkthrough-kql">{step.kql}</code>
+            <span className="walkthrough-description">{step.description}</span>
+          </li>
+        ))}
+      </ol>
+      <div className="walkthrough-source">
+        {explanation.source === 'model' ? '🤖 Explained by the AI model' : '⚙️ Described from the query operators'}
+      </div>
+    </details>
+  )
+}
+
+export default QueryExplanation
@@ -1,12 +1,43 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { authService } from '../services/authService'
 import { adxService } from '../services/adxService'
-import { nlToKqlService, KQLConversionResult } from '../services/nlToKqlService'
-import { QueryResult } from '../services/adxService'
+import {
+  nlToKqlService,
+  KQLConversionResult,
+  MAX_REPAIR_ATTEMPTS,
+  ModelInfo
+} from '../services/nlToKqlService'
+import { QueryResult, QueryProgress, isCompleteResult } from '../services/adxService'
+import {
+  connectionProfileService,
+  ConnectionProfile,
+  isSameConnection,
+  toConnection
+} from '../services/connectionProfiles'
 import ChartRenderer from './ChartRenderer'
 import ConfigurationPanel from './ConfigurationPanel'
+import ConversationThread, { ConversationThreadTurn } from './ConversationThread'
+import RepairHistory, { KQLAttempt } from './RepairHistory'
 import SavedQueries, { SavedQuery } from './SavedQueries'
+import QueryParametersForm, { VesselOption } from './QueryParametersForm'
+import QueryExplanation from './QueryExplanation'
+import VesselChoice from './VesselChoice'
+import PerformanceDashboard from './PerformanceDashboard'
+import { llmBudget, LLMBudgetStatus } from '../services/llmBudget'
 import { getScenariosByCategory } from '../utils/testScenarios'
+import { performanceMonitor } from '../utils/performanceMonitor'
+import { isCancellationError } from '../utils/cancellation'
+import { KQLValidationError, QueryCancelledError, VesselAmbiguityError, isRepairableQueryError } from '../utils/errorHandler'
+import { KQLValidationIssue, KQLValidationResult } from '../utils/kqlValidator'
+import { KQLExplanation } from '../utils/kqlExplainer'
+import { VesselMention } from '../utils/vesselResolver'
+import {
+  QueryParameterDefinition,
+  deriveParameterDefinitions,
+  getMissingParameters,
+  resolveParameterValues,
+  toInputValues
+} from '../utils/queryParameters'
 import './QueryInterface.css'
 
 interface QueryHistory {
@@ -15,6 +46,8 @@ interface QueryHistory {
   kqlQuery: string
   timestamp: Date
   result?: QueryResult
+  parameters: QueryParameterDefinition[]
+  parameterValues: Record<string, string>
 }
 
 const QueryInterface = () => {
@@ -24,27 +57,59 @@ const QueryInterface = () => {
   const [isLoading, setIsLoading] = useState(false)
   const [currentKQL, setCurrentKQL] = useState('')
   const [queryResult, setQueryResult] = useState<QueryResult | null>(null)
+  const [queryProgress, setQueryProgress] = useState<QueryProgress | null>(null)
   const [kqlConversion, setKQLConversion] = useState<KQLConversionResult | null>(null)
+  const [repairAttempts, setRepairAttempts] = useState<KQLAttempt[]>([])
+  const [validationIssues, setValidationIssues] = useState<KQLValidationIssue[]>([])
+  // Kept with the KQL it explains, so it disappears as soon as the query changes
+  const [kqlExplanation, setKQLExplanation] = useState<{ kqlQuery: string; explanation: KQLExplanation } | null>(null)
+  const [explainingKQL, setExplainingKQL] = useState<string | null>(null)
+  // The KQL being edited by hand; null when not editing
+  const [kqlDraft, setKQLDraft] = useState<string | null>(null)
+  const [queryParameters, setQueryParameters] = useState<QueryParameterDefinition[]>([])
+  const [parameterValues, setParameterValues] = useState<Record<string, string>>({})
+  const [vesselOptions, setVesselOptions] = useState<VesselOption[]>([])
+  // Vessel references the last question left open, with the picks made so far
+  const [vesselQuestion, setVesselQuestion] = useState<{ mentions: VesselMention[]; choices: Record<string, string> } | null>(null)
+  const [bypassCache, setBypassCache] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [queryHistory, setQueryHistory] = useState<QueryHistory[]>([])
+  const [conversationTurns, setConversationTurns] = useState<ConversationThreadTurn[]>([])
+  // The turn shown in full below the thread, which the thread therefore leaves out
+  const [displayedTurnId, setDisplayedTurnId] = useState<string | null>(null)
   const [suggestedQueries, setSuggestedQueries] = useState<string[]>([])
   const [showConfig, setShowConfig] = useState(false)
   const [showSavedQueries, setShowSavedQueries] = useState(false)
-  const [modelInfo, setModelInfo] = useState<{ model: string | null; usingFallback: boolean }>({ model: null, usingFallback: true })
+  const [showPerformance, setShowPerformance] = useState(false)
+  const [budgetStatus, setBudgetStatus] = useState<LLMBudgetStatus | null>(() => llmBudget.getStatus())
+  const [modelInfo, setModelInfo] = useState<ModelInfo>({ provider: null, model: null, usingFallback: true })
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const connectedProfileRef = useRef<ConnectionProfile | null>(null)
 
   useEffect(() => {
     initializeApp()
     loadModelInfo()
+    const unsubscribe = connectionProfileService.subscribe(handleProfileChange)
+
+    return () => {
+      unsubscribe()
+      abortControllerRef.current?.abort()
+    }
   }, [])
 
-  const loadModelInfo = () => {
-    const info = nlToKqlService.getModelInfo()
+  const loadModelInfo = async () => {
+    const info = await nlToKqlService.getModelInfo()
     setModelInfo(info)
+    setBudgetStatus(llmBudget.getStatus())
   }
 
   const initializeApp = async () => {
     try {
       await authService.initialize()
+      if (authService.isInTeams()) {
+        // Teams SSO is silent once the user has consented; otherwise the sign-in button stays
+        await authService.loginWithTeams().catch(error => console.warn('Teams SSO failed:', error))
+      }
       setIsAuthenticated(authService.isAuthenticated())
 
       if (authService.isAuthenticated()) {
@@ -56,21 +121,50 @@ const QueryInterface = () => {
     }
   }
 
-  const connectToADX = async () => {
-    try {
-      const clusterUrl = import.meta.env.VITE_ADX_CLUSTER_URL
-      const database = import.meta.env.VITE_ADX_DATABASE_NAME
+  // Results, KQL and suggestions all belong to the previous cluster/database
+  const handleProfileChange = (profile: ConnectionProfile | null) => {
+    if (isSameConnection(profile, connectedProfileRef.current)) {
+      return
+    }
 
-      if (!clusterUrl || !database) {
+    abortControllerRef.current?.abort()
+    setIsConnected(false)
+    setQueryResult(null)
+    setQueryProgress(null)
+    setCurrentKQL('')
+    setKQLConversion(null)
+    setRepairAttempts([])
+    setValidationIssues([])
+    setKQLDraft(null)
+    setQueryParameters([])
+    setParameterValues({})
+    setVesselOptions([])
+    setSuggestedQueries([])
+    setError(null)
+    nlToKqlService.startNewConversation()
+    setConversationTurns([])
+    setDisplayedTurnId(null)
+
+    connectedProfileRef.current = profile
+    if (profile && authService.isAuthenticated()) {
+      connectToADX(profile)
+    }
+  }
+
+  const connectToADX = async (profile = connectionProfileService.getActiveProfile()) => {
+    connectedProfileRef.current = profile
+    try {
+      if (!profile || !profile.clusterUrl || !profile.database) {
         throw new Error('ADX configuration missing')
       }
 
-      await adxService.initialize({ clusterUrl, database })
+      await adxService.initialize(toConnection(profile))
       const connected = await adxService.testConnection()
       
       if (connected) {
         setIsConnected(true)
         await nlToKqlService.loadSchemaContext()
+        loadVesselOptions()
         
         // Use test scenario suggestions if in mock mode, otherwise use AI suggestions
         if (adxService.isMockMode()) {
@@ -86,16 +180,33 @@ const QueryInterface = () => {
       }
     } catch (error) {
       console.error('ADX connection failed:', error)
-      setError('Failed to connect to Azure Data Explorer')
+      setIsConnected(false)
+      setError(`Failed to connect to Azure Data Explorer (${profile?.name ?? 'no profile'})`)
+    }
+  }
+
+  const loadVesselOptions = async () => {
+    try {
+      const result = await adxService.executeQuery('VesselInfo\n| project vesselId, vesselName\n| order by vesselName asc')
+      setVesselOptions(result.data.map(row => ({
+        vesselId: String(row.vesselId),
+        vesselName: String(row.vesselName)
+      })))
+    } catch (error) {
+      // The vessel picker falls back to free text
+      console.warn('Failed to load vessel list:', error)
     }
   }
 
   const handleLogin = async () => {
     setIsLoading(true)
     try {
-      await authService.loginWithTeams()
-      setIsAuthenticated(true)
-      await connectToADX()
+      await (authService.isInTeams() ? authService.loginWithTeams() : authService.login())
+      setIsAuthenticated(authService.isAuthenticated())
+      // After loginRedirect the page navigates away and there is no account yet
+      if (authService.isAuthenticated()) {
+        await connectToADX()
+      }
     } catch (error) {
       console.error('Login failed:', error)
       setError('Login failed')
@@ -103,38 +214,284 @@ const QueryInterface = () => {
     setIsLoading(false)
   }
 
-  const handleQuery = async () => {
+  // Re-running with other parameter values updates the turn instead of adding one
+  const updateTurn = (kqlQuery: string, changes: Partial<ConversationThreadTurn>) => {
+    setConversationTurns(prev => {
+      const index = prev.map(turn => turn.kqlQuery).lastIndexOf(kqlQuery)
+      if (index < 0) return prev
+      return prev.map((turn, i) => (i === index ? { ...turn, ...changes } : turn))
+    })
+  }
+
+  const executeKQL = async (
+    kqlQuery: string,
+    parameters: QueryParameterDefinition[],
+    values: Record<string, string>,
+    signal: AbortSignal
+  ): Promise<QueryResult> => {
+    const resolvedValues = resolveParameterValues(parameters, values)
+    const missing = getMissingParameters(parameters, resolvedValues)
+    if (missing.length > 0) {
+      throw new Error(`Missing value for ${missing.map(p => p.label).join(', ')}`)
+    }
+
+    const result = await adxService.executeQuery(kqlQuery, {
+      signal,
+      parameters: resolvedValues,
+      onProgress: setQueryProgress,
+      bypassCache
+    })
+    performanceMonitor.recordCacheHit(result.fromCache)
+    if (!result.fromCache) {
+      performanceMonitor.recordADXExecutionTime(result.executionTime)
+    }
+    setQueryResult(result)
+    performanceMonitor.completeQuery(result.rowCount, result.columns.length)
+    nlToKqlService.recordResultColumns(kqlQuery, result.columns)
+    updateTurn(kqlQuery, { result, parameterValues: values, error: undefined })
+
+    const historyItem: QueryHistory = {
+      id: Date.now().toString(),
+      naturalQuery,
+      kqlQuery,
+      timestamp: new Date(),
+      result,
+      parameters,
+      parameterValues: values
+    }
+    setQueryHistory(prev => [historyItem, ...prev.slice(0, 9)])
+
+    return result
+  }
+
+  // Nothing reaches the cluster until the query passes the static checks
+  const assertValidKQL = (validation: KQLValidationResult) => {
+    setValidationIssues(validation.issues)
+    if (!validation.valid) {
+      throw new KQLValidationError(validation.issues)
+    }
+  }
+
+  const handleQueryError = (error: unknown, kqlQuery: string) => {
+    if (isCancellationError(error)) {
+      // Stopping a streaming query keeps the rows that already arrived
+      if (error instanceof QueryCancelledError && error.partialResult) {
+        setQueryResult(error.partialResult)
+        updateTurn(kqlQuery, { result: error.partialResult })
+        performanceMonitor.abortCurrentQuery('Stopped by user', true)
+      } else {
+        performanceMonitor.abortCurrentQuery('Cancelled by user', true)
+      }
+    } else {
+      console.error('Query failed:', error)
+      const message = error instanceof Error ? error.message : 'Query failed'
+      performanceMonitor.abortCurrentQuery(message)
+      // Validation issues are already listed under the query
+      if (!(error instanceof KQLValidationError)) {
+        setError(message)
+      }
+      updateTurn(kqlQuery, { error: message })
+    }
+  }
+
+  const handleQuery = async (vesselChoices: Record<string, string> = {}) => {
     if (!naturalQuery.trim()) return
 
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+
     setIsLoading(true)
     setError(null)
     setQueryResult(null)
     setKQLConversion(null)
+    setRepairAttempts([])
+    setValidationIssues([])
+    setKQLDraft(null)
+    setVesselQuestion(null)
+
+    performanceMonitor.startQuery(Date.now().toString(), naturalQuery, '', authService.getAccount()?.username)
+
+    let kqlQuery = ''
+    let attempts: KQLAttempt[] = []
+    // Replaces the latest version's status; state gets a new array each time
+    const markLatestAttempt = (status: KQLAttempt['status'], error?: string) => {
+      attempts = [...attempts.slice(0, -1), { ...attempts[attempts.length - 1], status, error }]
+      setRepairAttempts(attempts)
+    }
 
     try {
-      const conversion = await nlToKqlService.convertToKQL(naturalQuery)
+      const nlStartTime = performance.now()
+      const conversion = await nlToKqlService.convertToKQL(naturalQuery, { signal: abortController.signal, vesselChoices })
+      performanceMonitor.recordNLProcessingTime(nlStartTime)
+      performanceMonitor.recordKQLQuery(conversion.kqlQuery)
+      if (conversion.usage) {
+        performanceMonitor.recordLLMUsage(conversion.usage)
+      }
+      setBudgetStatus(llmBudget.getStatus())
+
+      let parameters = conversion.parameters || []
+      let values = toInputValues(parameters)
+      let validation = conversion.validation ?? nlToKqlService.validateKQL(conversion.kqlQuery)
+      kqlQuery = conversion.kqlQuery
+      const turnId = Date.now().toString()
+      setConversationTurns(prev => [...prev, {
+        id: turnId,
+        question: naturalQuery,
+        kqlQuery,
+        explanation: conversion.explanation,
+        parameters,
+        parameterValues: values
+      }])
+      setDisplayedTurnId(turnId)
       setKQLConversion(conversion)
       setCurrentKQL(conversion.kqlQuery)
+      setQueryParameters(parameters)
+      setParameterValues(values)
+
+      attempts = [{ kqlQuery, status: 'running' }]
+      // KQL that fails validation or that the cluster rejects goes back to the model with the error,
+      // up to MAX_REPAIR_ATTEMPTS times
+      for (;;) {
+        try {
+          assertValidKQL(validation)
+          await executeKQL(kqlQuery, parameters, values, abortController.signal)
+          markLatestAttempt('succeeded')
+          break
+        } catch (error) {
+          const canRepair = !modelInfo.usingFallback && attempts.length <= MAX_REPAIR_ATTEMPTS && isRepairableQueryError(error)
+          if (!canRepair) {
+            if (attempts.length > 1 && !isCancellationError(error)) {
+              markLatestAttempt('failed', error instanceof Error ? error.message : String(error))
+            }
+            throw error
+          }
 
-      const result = await adxService.executeQuery(conversion.kqlQuery)
-      setQueryResult(result)
+          markLatestAttempt('failed', error instanceof Error ? error.message : String(error))
+          performanceMonitor.recordRepairAttempt()
+          let repaired: KQLConversionResult
+          try {
+            repaired = await nlToKqlService.repairKQL(
+              naturalQuery,
+              attempts.map(attempt => ({ kqlQuery: attempt.kqlQuery, error: attempt.error || '' })),
+              { signal: abortController.signal, vesselChoices }
+            )
+          } catch (repairError) {
+            if (isCancellationError(repairError)) throw repairError
+            // The model could not help; the query's own error is the useful one
+            console.warn('KQL repair failed:', repairError)
+            throw error
+          }
+          if (repaired.usage) {
+            performanceMonitor.recordLLMUsage(repaired.usage)
+          }
+          setBudgetStatus(llmBudget.getStatus())
 
-      const historyItem: QueryHistory = {
-        id: Date.now().toString(),
-        naturalQuery,
-        kqlQuery: conversion.kqlQuery,
-        timestamp: new Date(),
-        result
+          parameters = repaired.parameters || []
+          values = toInputValues(parameters)
+          validation = repaired.validation ?? nlToKqlService.validateKQL(repaired.kqlQuery)
+          updateTurn(kqlQuery, {
+            kqlQuery: repaired.kqlQuery,
+            explanation: repaired.explanation,
+            parameters,
+            parameterValues: values
+          })
+          kqlQuery = repaired.kqlQuery
+          attempts = [...attempts, { kqlQuery, status: 'running' }]
+          setRepairAttempts(attempts)
+          performanceMonitor.recordKQLQuery(kqlQuery)
+          setKQLConversion(repaired)
+          setCurrentKQL(kqlQuery)
+          setQueryParameters(parameters)
+          setParameterValues(values)
+        }
       }
-      setQueryHistory(prev => [historyItem, ...prev.slice(0, 9)])
+    } catch (error) {
+      if (error instanceof VesselAmbiguityError) {
+        // Nothing ran, so nothing is recorded; the question is asked again once the user picks a vessel
+        performanceMonitor.discardCurrentQuery()
+        setVesselQuestion({ mentions: error.mentions, choices: vesselChoices })
+      } else {
+        handleQueryError(error, kqlQuery)
+      }
+    }
 
+    abortControllerRef.current = null
+    setQueryProgress(null)
+    setIsLoading(false)
+  }
+
+  // Re-runs the current KQL as-is, e.g. after editing parameter values or selecting a saved query
+  const handleRunKQL = async () => {
+    if (!currentKQL.trim()) return
+
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+
+    setIsLoading(true)
+    setError(null)
+    setQueryResult(null)
+
+    performanceMonitor.startQuery(Date.now().toString(), naturalQuery, currentKQL, authService.getAccount()?.username)
+
+    try {
+      assertValidKQL(nlToKqlService.validateKQL(currentKQL))
+      await executeKQL(currentKQL, queryParameters, parameterValues, abortController.signal)
     } catch (error) {
-      console.error('Query failed:', error)
-      setError(error instanceof Error ? error.message : 'Query failed')
+      handleQueryError(error, currentKQL)
     }
+
+    abortControllerRef.current = null
+    setQueryProgress(null)
     setIsLoading(false)
   }
 
+  const explainKQL = async (kqlQuery: string) => {
+    setExplainingKQL(kqlQuery)
+    try {
+      const explanation = await nlToKqlService.explainKQL(kqlQuery)
+      if (explanation.usage) {
+        performanceMonitor.recordExplanationUsage(explanation.usage)
+      }
+      setBudgetStatus(llmBudget.getStatus())
+      setKQLExplanation({ kqlQuery, explanation })
+    } catch (error) {
+      console.warn('Failed to explain KQL:', error)
+    }
+    setExplainingKQL(prev => (prev === kqlQuery ? null : prev))
+  }
+
+  // Hand-edited KQL is no longer what the model generated, so its explanation and repairs no longer apply
+  const handleApplyKQLEdit = () => {
+    const kqlQuery = kqlDraft?.trim()
+    setKQLDraft(null)
+    if (!kqlQuery || kqlQuery === currentKQL) return
+
+    // Parameters still declared keep the values already entered
+    const parameters = deriveParameterDefinitions(kqlQuery, queryParameters)
+    const defaults = toInputValues(parameters)
+    setCurrentKQL(kqlQuery)
+    setQueryParameters(parameters)
+    setParameterValues(Object.fromEntries(parameters.map(p => [p.name, parameterValues[p.name] ?? defaults[p.name]])))
+    setQueryResult(null)
+    setKQLConversion(null)
+    setRepairAttempts([])
+    setValidationIssues(nlToKqlService.validateKQL(kqlQuery).issues)
+    setDisplayedTurnId(null)
+    explainKQL(kqlQuery)
+  }
+
+  const handleParameterChange = (name: string, value: string) => {
+    setParameterValues(prev => ({ ...prev, [name]: value }))
+  }
+
+  const handleVesselChoice = (mention: VesselMention, vesselId: string) => {
+    handleQuery({ ...vesselQuestion?.choices, [mention.text.toLowerCase()]: vesselId })
+  }
+
+  const handleCancelQuery = () => {
+    abortControllerRef.current?.abort()
+  }
+
   const handleSuggestedQuery = (query: string) => {
     setNaturalQuery(query)
   }
@@ -142,14 +499,55 @@ const QueryInterface = () => {
   const handleHistoryQuery = (historyItem: QueryHistory) => {
     setNaturalQuery(historyItem.naturalQuery)
     setCurrentKQL(historyItem.kqlQuery)
+    setQueryParameters(historyItem.parameters)
+    setParameterValues(historyItem.parameterValues)
     setQueryResult(historyItem.result || null)
+    setKQLDraft(null)
+  }
+
+  const handleNewConversation = () => {
+    nlToKqlService.startNewConversation()
+    setConversationTurns([])
+    setDisplayedTurnId(null)
+    setNaturalQuery('')
+    setCurrentKQL('')
+    setKQLConversion(null)
+    setRepairAttempts([])
+    setValidationIssues([])
+    setKQLDraft(null)
+    setQueryParameters([])
+    setParameterValues({})
+    setQueryResult(null)
+    setError(null)
+    setVesselQuestion(null)
+  }
+
+  const handleConversationTurnSelect = (turn: ConversationThreadTurn) => {
+    setDisplayedTurnId(turn.id)
+    setNaturalQuery(turn.question)
+    setCurrentKQL(turn.kqlQuery)
+    setQueryParameters(turn.parameters)
+    setParameterValues(turn.parameterValues)
+    setQueryResult(turn.result || null)
+    setKQLConversion(null)
+    setRepairAttempts([])
+    setValidationIssues([])
+    setKQLDraft(null)
   }
 
   const handleSavedQuerySelect = (savedQuery: SavedQuery) => {
+    const parameters = deriveParameterDefinitions(savedQuery.kqlQuery, savedQuery.parameters)
     setNaturalQuery(savedQuery.naturalQuery)
     setCurrentKQL(savedQuery.kqlQuery)
+    setQueryParameters(parameters)
+    setParameterValues(toInputValues(parameters))
     setQueryResult(null)
     setKQLConversion(null)
+    setRepairAttempts([])
+    setValidationIssues([])
+    setKQLDraft(null)
+    setDisplayedTurnId(null)
+    explainKQL(savedQuery.kqlQuery)
   }
 
   if (!isAuthenticated) {
@@ -191,7 +589,6 @@ const QueryInterface = () => {
         <ConfigurationPanel
           isOpen={showConfig}
           onClose={() => setShowConfig(false)}
-          onConnectionChange={setIsConnected}
         />
       </div>
     )
@@ -207,14 +604,24 @@ const QueryInterface = () => {
       )}
       
       {/* AI Model Indicator */}
-      <div className={`ai-model-indicator ${modelInfo.usingFallback ? 'fallback' : 'ai-powered'}`}>
+      <div className={`ai-model-indicator ${modelInfo.usingFallback || budgetStatus?.state === 'exceeded' ? 'fallback' : 'ai-powered'}`}>
         <div className="model-status">
           {modelInfo.usingFallback ? (
             <>
               <span className="model-icon">⚠️</span>
               <span className="model-info">
-                <strong>Pattern-Based Generator</strong>
-                <span className="model-detail">Using fallback KQL generation</span>
+                <strong>Offline Parser</strong>
+                <span className="model-detail">No LLM provider configured; questions are parsed locally</span>
+              </span>
+            </>
+          ) : budgetStatus?.state === 'exceeded' ? (
+            <>
+              <span className="model-icon">💸</span>
+              <span className="model-info">
+                <strong>Budget Exceeded</strong>
+                <span className="model-detail">
+                  ${budgetStatus.spent.toFixed(2)} of the ${budgetStatus.budget?.toFixed(2)} monthly LLM budget used; questions are parsed locally until next month
+                </span>
               </span>
             </>
           ) : (
@@ -222,7 +629,12 @@ const QueryInterface = () => {
               <span className="model-icon">🤖</span>
               <span className="model-info">
                 <strong>AI-Powered</strong>
-                <span className="model-detail">Using {modelInfo.model}</span>
+                <span className="model-detail">Using {modelInfo.model} ({modelInfo.provider})</span>
+                {budgetStatus?.state === 'warning' && (
+                  <span className="model-detail budget-warning">
+                    💸 ${budgetStatus.spent.toFixed(2)} of the ${budgetStatus.budget?.toFixed(2)} monthly LLM budget used
+                  </span>
+                )}
               </span>
             </>
           )}
@@ -249,6 +661,13 @@ const QueryInterface = () => {
             >
               📚
             </button>
+            <button 
+              className="header-button" 
+              onClick={() => setShowPerformance(true)}
+              title="Performance and LLM Usage"
+            >
+              📈
+            </button>
             <button 
               className="header-button" 
               onClick={() => setShowConfig(true)}
@@ -262,18 +681,53 @@ const QueryInterface = () => {
           <textarea
             id="natural-query"
             value={naturalQuery}
-            onChange={(e) => setNaturalQuery(e.target.value)}
-            placeholder="e.g., Show me the top 10 users by activity in the last 7 days"
+            onChange={(e) => {
+              setNaturalQuery(e.target.value)
+              // Picks made for the old wording may not apply to the new one
+              setVesselQuestion(null)
+            }}
+            placeholder={conversationTurns.length > 0
+              ? 'Ask a follow-up, e.g., now only the tankers, or break that down by battery bank'
+              : 'e.g., Show me the top 10 users by activity in the last 7 days'}
             rows={3}
             className="query-input"
           />
-          <button 
-            onClick={handleQuery}
-            disabled={isLoading || !naturalQuery.trim()}
-            className="query-button"
-          >
-            {isLoading ? 'Processing...' : 'Run Query'}
-          </button>
+          <div className="query-actions">
+            <button 
+              onClick={() => handleQuery()}
+              disabled={isLoading || !naturalQuery.trim()}
+              className="query-button"
+            >
+              {isLoading ? 'Processing...' : 'Run Query'}
+            </button>
+            <label className="bypass-cache-toggle" title="Always run against the cluster instead of reusing a recent result">
+              <input
+                type="checkbox"
+                checked={bypassCache}
+                onChange={(e) => setBypassCache(e.target.checked)}
+              />
+              Bypass cache
+            </label>
+            {conversationTurns.length > 0 && (
+              <button
+                onClick={handleNewConversation}
+                disabled={isLoading}
+                className="new-conversation-button"
+                title="Start over; the next question will not refer to earlier ones"
+              >
+                New conversation
+              </button>
+            )}
+            {isLoading && (
+              <button
+                onClick={handleCancelQuery}
+                className="cancel-query-button"
+                title={queryProgress?.rowCount ? 'Stop and keep the rows received so far' : 'Stop this query'}
+              >
+                {queryProgress?.rowCount ? 'Stop' : 'Cancel'}
+              </button>
+            )}
+          </div>
         </div>
 
         {suggestedQueries.length > 0 && (
@@ -300,17 +754,112 @@ const QueryInterface = () => {
         </div>
       )}
 
-      {kqlConversion && (
+      {vesselQuestion && (
+        <VesselChoice mentions={vesselQuestion.mentions} disabled={isLoading} onChoose={handleVesselChoice} />
+      )}
+
+      <ConversationThread
+        turns={conversationTurns.filter(turn => turn.id !== displayedTurnId)}
+        onSelectTurn={handleConversationTurnSelect}
+      />
+
+      {currentKQL && (
         <div className="kql-conversion">
-          <h3>Generated KQL Query:</h3>
-          <pre className="kql-query">{currentKQL}</pre>
-          <p className="query-explanation">{kqlConversion.explanation}</p>
-          <div className="confidence-indicator">
-            <span>Confidence: {Math.round(kqlConversion.confidence * 100)}%</span>
-            <span className="generation-method">
-              {modelInfo.usingFallback ? '⚠️ Pattern-based' : '🤖 AI-generated'}
-            </span>
+          <div className="kql-header">
+            <h3>{kqlConversion ? 'Generated KQL Query:' : 'KQL Query:'}</h3>
+            {kqlDraft === null && (
+              <button className="edit-kql-button" onClick={() => setKQLDraft(currentKQL)} disabled={isLoading}>
+                ✏️ Edit
+              </button>
+            )}
+          </div>
+          {kqlDraft !== null ? (
+            <div className="kql-editor">
+              <textarea
+                value={kqlDraft}
+                onChange={(e) => setKQLDraft(e.target.value)}
+                rows={Math.max(4, kqlDraft.split('\n').length + 1)}
+                className="kql-query kql-query-input"
+                spellCheck={false}
+              />
+              <div className="kql-editor-actions">
+                <button className="run-kql-button" onClick={handleApplyKQLEdit} disabled={!kqlDraft.trim()}>
+                  Apply
+                </button>
+                <button className="cancel-edit-button" onClick={() => setKQLDraft(null)}>
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <pre className="kql-query">{currentKQL}</pre>
+          )}
+          {validationIssues.length > 0 && (
+            <ul className="kql-validation">
+              {validationIssues.map((issue, index) => (
+                <li key={index} className={`validation-issue validation-${issue.severity}`}>
+                  {issue.severity === 'error' ? '⛔' : '⚠️'}
+                  {issue.line !== undefined && <span className="validation-line">Line {issue.line}</span>}
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+          {kqlDraft === null && (
+            <QueryExplanation
+              explanation={kqlExplanation?.kqlQuery === currentKQL ? kqlExplanation.explanation : null}
+              isExplaining={explainingKQL === currentKQL}
+              onExplain={() => explainKQL(currentKQL)}
+            />
+          )}
+          <RepairHistory attempts={repairAttempts} />
+          {kqlDraft !== null ? null : queryParameters.length > 0 ? (
+            <QueryParametersForm
+              parameters={queryParameters}
+              values={parameterValues}
+              vesselOptions={vesselOptions}
+              disabled={isLoading}
+              onChange={handleParameterChange}
+              onRun={handleRunKQL}
+            />
+          ) : !kqlConversion && (
+            <button className="run-kql-button" onClick={handleRunKQL} disabled={isLoading}>
+              ▶ Run KQL
+            </button>
+          )}
+          {kqlConversion && (
+            <>
+              <p className="query-explanation">{kqlConversion.explanation}</p>
+              <div className="confidence-indicator">
+                <span>Confidence: {Math.round(kqlConversion.confidence * 100)}%</span>
+                <span className="generation-method">
+                  {kqlConversion.usage
+                    ? `🤖 AI-generated · ${kqlConversion.usage.totalTokens ?? '?'} tokens${kqlConversion.usage.estimatedCost !== null ? ` · $${kqlConversion.usage.estimatedCost.toFixed(4)}` : ''}`
+                    : '⚠️ Offline parser'}
+                </span>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {isLoading && queryProgress && (
+        <div className="results-section results-streaming">
+          <div className="results-header">
+            <h3>Receiving results…</h3>
+            <div className="results-meta">
+              {queryProgress.rowCount} rows so far
+              {queryProgress.progress !== null && ` • ${queryProgress.progress}%`}
+            </div>
           </div>
+
+          {queryProgress.preview && (
+            <ChartRenderer
+              data={queryProgress.preview.data}
+              columns={queryProgress.preview.columns}
+              columnDescriptors={queryProgress.preview.columnDescriptors}
+            />
+          )}
         </div>
       )}
 
@@ -319,13 +868,28 @@ const QueryInterface = () => {
           <div className="results-header">
             <h3>Results</h3>
             <div className="results-meta">
+              {queryResult.tables.length > 1 && `${queryResult.tables.length} tables • `}
               {queryResult.rowCount} rows • {queryResult.executionTime}ms
+              {queryResult.truncated && ' • partial'}
+              {queryResult.fromCache && ' • cached'}
             </div>
           </div>
+
+          {queryResult.warnings.length > 0 && (
+            <div className="results-warnings">
+              {queryResult.warnings.map((warning, index) => (
+                <div key={index} className="results-warning">
+                  <strong>⚠️ {warning.code === 'RESULT_TRUNCATED' || warning.code === 'STOPPED_EARLY' ? 'Partial results' : 'Warning'}:</strong> {warning.message}
+                </div>
+              ))}
+            </div>
+          )}
           
           <ChartRenderer 
             data={queryResult.data} 
             columns={queryResult.columns}
+            columnDescriptors={queryResult.columnDescriptors}
+            tables={queryResult.tables}
             suggestedTypes={kqlConversion?.suggestedVisualizations || ['table']}
           />
         </div>
@@ -352,16 +916,30 @@ const QueryInterface = () => {
       <ConfigurationPanel
         isOpen={showConfig}
         onClose={() => setShowConfig(false)}
-        onConnectionChange={setIsConnected}
+      />
+
+      <PerformanceDashboard
+        isOpen={showPerformance}
+        onClose={() => setShowPerformance(false)}
       />
 
       <SavedQueries
         isOpen={showSavedQueries}
         onClose={() => setShowSavedQueries(false)}
         onQuerySelect={handleSavedQuerySelect}
-        currentQuery={kqlConversion ? {
+        currentQuery={currentKQL ? {
           naturalQuery,
-          kqlQuery: kqlConversion.kqlQuery
+          kqlQuery: currentKQL,
+          // Saved queries remember the values last used as their defaults
+          parameters: queryParameters.map(parameter => ({
+            ...parameter,
+            defaultValue: parameter.type === 'datetime' && parameterValues[parameter.name]
+              ? new Date(parameterValues[parameter.name]).toISOString()
+              : parameterValues[parameter.name] || parameter.defaultValue
+          })),
+          // queryResult is cleared whenever another query starts, so a result here belongs to currentKQL;
+          // rows streamed before the query was stopped don't show that it runs to completion
+          executed: queryResult !== null && isCompleteResult(queryResult)
         } : undefined}
       />
     </div>
@@ -0,0 +1,125 @@
+import { QueryParameterDefinition } from '../utils/queryParameters'
+import './QueryParametersForm.css'
+
+export interface VesselOption {
+  vesselId: string
+  vesselName: string
+}
+
+interface QueryParametersFormProps {
+  parameters: QueryParameterDefinition[]
+  values: Record<string, string>
+  vesselOptions: VesselOption[]
+  disabled?: boolean
+  onChange: (name: string, value: string) => void
+  onRun: () => void
+}
+
+const QueryParametersForm = ({ parameters, values, vesselOptions, disabled, onChange, onRun }: QueryParametersFormProps) => {
+  if (parameters.length === 0) return null
+
+  const renderInput = (parameter: QueryParameterDefinition) => {
+    const id = `query-parameter-${parameter.name}`
+    const value = values[parameter.name] ?? ''
+
+    switch (parameter.input) {
+      case 'vessel': {
+        // Parameters named after the id column take vessel ids, everything else vessel names
+        const useId = /id$/i.test(parameter.name)
+        return (
+          <>
+            <input
+              id={id}
+              type="text"
+              list={`${id}-options`}
+              value={value}
+              onChange={(e) => onChange(parameter.name, e.target.value)}
+              placeholder={useId ? 'Vessel id' : 'Vessel name'}
+              disabled={disabled}
+            />
+            <datalist id={`${id}-options`}>
+              {vesselOptions.map(vessel => (
+                <option
+                  key={vessel.vesselId}
+                  value={useId ? vessel.vesselId : vessel.vesselName}
+                  label={useId ? vessel.vesselName : vessel.vesselId}
+                />
+              ))}
+            </datalist>
+          </>
+        )
+      }
+
+      case 'datetime':
+        return (
+          <input
+            id={id}
+            type="datetime-local"
+            value={value}
+            onChange={(e) => onChange(parameter.name, e.target.value)}
+            disabled={disabled}
+          />
+        )
+
+      case 'number':
+        return (
+          <input
+            id={id}
+            type="number"
+            step={parameter.type === 'real' ? 'any' : 1}
+            value={value}
+            onChange={(e) => onChange(parameter.name, e.target.value)}
+            disabled={disabled}
+          />
+        )
+
+      default:
+        return parameter.type === 'bool' ? (
+          <select
+            id={id}
+            value={value}
+            onChange={(e) => onChange(parameter.name, e.target.value)}
+            disabled={disabled}
+          >
+            <option value="true">true</option>
+            <option value="false">false</option>
+          </select>
+        ) : (
+          <input
+            id={id}
+            type="text"
+            value={value}
+            onChange={(e) => onChange(parameter.name, e.target.value)}
+            disabled={disabled}
+          />
+        )
+    }
+  }
+
+  return (
+    <form
+      className="query-parameters"
+      onSubmit={(e) => {
+        e.preventDefault()
+        onRun()
+      }}
+    >
+      <div className="query-parameters-fields">
+        {parameters.map(parameter => (
+          <div key={parameter.name} className={`query-parameter query-parameter-${parameter.input}`}>
+            <label htmlFor={`query-parameter-${parameter.name}`}>
+              {parameter.label}
+              <span className="query-parameter-type">{parameter.type}</span>
+            </label>
+            {renderInput(parameter)}
+          </div>
+        ))}
+      </div>
+      <button type="submit" className="run-kql-button" disabled={disabled}>
+        ▶ Run with parameters
+      </button>
+    </form>
+  )
+}
+
+export default QueryParametersForm
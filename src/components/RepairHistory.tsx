@@ -0,0 +1,58 @@
+import { diffLines } from '../utils/kqlDiff'
+import './RepairHistory.css'
+
+export interface KQLAttempt {
+  kqlQuery: string
+  status: 'running' | 'failed' | 'succeeded'
+  error?: string
+}
+
+interface RepairHistoryProps {
+  attempts: KQLAttempt[]
+}
+
+const STATUS_LABELS: Record<KQLAttempt['status'], string> = {
+  running: '⏳ Running',
+  failed: '❌ Failed',
+  succeeded: '✅ Succeeded'
+}
+
+// Versions of a generated query that was sent back to the model after failing, each diffed against the one before
+const RepairHistory = ({ attempts }: RepairHistoryProps) => {
+  if (attempts.length < 2) return null
+
+  const repairs = attempts.length - 1
+  const latest = attempts[attempts.length - 1]
+
+  return (
+    <details className="repair-history" open={latest.status !== 'succeeded'}>
+      <summary>
+        🔧 {latest.status === 'succeeded'
+          ? `Fixed automatically after ${repairs} ${repairs === 1 ? 'repair' : 'repairs'}`
+          : `${repairs} automatic ${repairs === 1 ? 'repair' : 'repairs'}`}
+      </summary>
+      <ol className="repair-attempts">
+        {attempts.map((attempt, index) => (
+          <li key={index} className={`repair-attempt ${attempt.status}`}>
+            <div className="repair-attempt-header">
+              <span>Version {index + 1}</span>
+              <span className="repair-attempt-status">{STATUS_LABELS[attempt.status]}</span>
+            </div>
+            <pre className="repair-diff">
+              {index === 0
+                ? attempt.kqlQuery
+                : diffLines(attempts[index - 1].kqlQuery, attempt.kqlQuery).map((line, lineIndex) => (
+                    <div key={lineIndex} className={`diff-line diff-${line.type}`}>
+                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                    </div>
+                  ))}
+            </pre>
+            {attempt.error && <div className="repair-error">{attempt.error}</div>}
+          </li>
+        ))}
+      </ol>
+    </details>
+  )
+}
+
+export default RepairHistory
@@ -1,17 +1,9 @@
 import { useState, useEffect } from 'react'
+import { QueryParameterDefinition } from '../utils/queryParameters'
+import { SavedQuery, savedQueryStore } from '../services/savedQueryStore'
 import './SavedQueries.css'
 
-export interface SavedQuery {
-  id: string
-  name: string
-  naturalQuery: string
-  kqlQuery: string
-  description?: string
-  tags: string[]
-  createdAt: Date
-  lastUsed?: Date
-  useCount: number
-}
+export type { SavedQuery }
 
 interface SavedQueriesProps {
   isOpen: boolean
@@ -20,6 +12,8 @@ interface SavedQueriesProps {
   currentQuery?: {
     naturalQuery: string
     kqlQuery: string
+    parameters: QueryParameterDefinition[]
+    executed: boolean
   }
 }
 
@@ -39,24 +33,13 @@ const SavedQueries = ({ isOpen, onClose, onQuerySelect, currentQuery }: SavedQue
   }, [isOpen])
 
   const loadSavedQueries = () => {
-    try {
-      const saved = localStorage.getItem('corvus-saved-queries')
-      if (saved) {
-        const queries = JSON.parse(saved).map((q: any) => ({
-          ...q,
-          createdAt: new Date(q.createdAt),
-          lastUsed: q.lastUsed ? new Date(q.lastUsed) : undefined
-        }))
-        setSavedQueries(queries.sort((a: SavedQuery, b: SavedQuery) => b.createdAt.getTime() - a.createdAt.getTime()))
-      }
-    } catch (error) {
-      console.error('Failed to load saved queries:', error)
-    }
+    const queries = savedQueryStore.load()
+    setSavedQueries(queries.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()))
   }
 
   const saveSavedQueries = (queries: SavedQuery[]) => {
     try {
-      localStorage.setItem('corvus-saved-queries', JSON.stringify(queries))
+      savedQueryStore.save(queries)
       setSavedQueries(queries)
     } catch (error) {
       console.error('Failed to save queries:', error)
@@ -71,10 +54,12 @@ const SavedQueries = ({ isOpen, onClose, onQuerySelect, currentQuery }: SavedQue
       name: newQueryName.trim(),
       naturalQuery: currentQuery.naturalQuery,
       kqlQuery: currentQuery.kqlQuery,
+      parameters: currentQuery.parameters.length > 0 ? currentQuery.parameters : undefined,
       description: newQueryDescription.trim() || undefined,
       tags: newQueryTags.split(',').map(tag => tag.trim()).filter(Boolean),
       createdAt: new Date(),
-      useCount: 0
+      useCount: 0,
+      executed: currentQuery.executed
     }
 
     const updatedQueries = [newQuery, ...savedQueries]
@@ -203,6 +188,9 @@ const SavedQueries = ({ isOpen, onClose, onQuerySelect, currentQuery }: SavedQue
                     <div className="query-meta">
                       <span>Created: {query.createdAt.toLocaleDateString()}</span>
                       <span>Used: {query.useCount} times</span>
+                      {query.parameters && query.parameters.length > 0 && (
+                        <span>Parameters: {query.parameters.map(p => p.label).join(', ')}</span>
+                      )}
                       {query.lastUsed && (
                         <span>Last: {query.lastUsed.toLocaleDateString()}</span>
                       )}
@@ -0,0 +1,40 @@
+import { VesselMention } from '../utils/vesselResolver'
+import './VesselChoice.css'
+
+interface VesselChoiceProps {
+  mentions: VesselMention[]
+  disabled?: boolean
+  onChoose: (mention: VesselMention, vesselId: string) => void
+}
+
+// Asks which vessel an ambiguous reference in the question means; picking one asks the question again
+const VesselChoice = ({ mentions, disabled, onChoose }: VesselChoiceProps) => {
+  if (mentions.length === 0) return null
+
+  return (
+    <div className="vessel-choice">
+      {mentions.map(mention => (
+        <div key={mention.index} className="vessel-choice-mention">
+          <p>🚢 Which vessel did you mean by <strong>"{mention.text}"</strong>?</p>
+          <div className="vessel-choice-options">
+            {mention.candidates.map(vessel => (
+              <button
+                key={vessel.vesselId}
+                className="vessel-choice-button"
+                disabled={disabled}
+                onClick={() => onChoose(mention, vessel.vesselId)}
+              >
+                {vessel.vesselName}
+                <span className="vessel-choice-details">
+                  {vessel.vesselId}{vessel.vesselType ? ` · ${vessel.vesselType}` : ''}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default VesselChoice
@@ -1,128 +1,458 @@
-import { mockDataService, BatteryReading } from './mockDataService'
+import { mockDataService, BatteryReading, MockResultTable } from './mockDataService'
+import {
+  KustoClient,
+  ClientRequestProperties,
+  getPrimaryResult,
+  getPrimaryResults,
+  getCompletionWarnings,
+  tableToObjects,
+  formatKustoError,
+  isTruncationError,
+  isManagementCommand,
+  normalizeColumnType
+} from './kustoClient'
+import { queryCache } from './queryCache'
+import { authService, getKustoScope } from './authService'
+import { ADXQueryError, QueryCancelledError } from '../utils/errorHandler'
+import { cancellableDelay, throwIfCancelled } from '../utils/cancellation'
+import { ColumnDescriptor, KustoDataSet, KustoTable } from '../types/kusto'
+
+export interface QueryWarning {
+  code: string
+  message: string
+}
+
+export interface ResultTable {
+  name: string
+  data: any[]
+  columns: string[]
+  columnDescriptors: ColumnDescriptor[]
+  rowCount: number
+}
 
 export interface QueryResult {
+  // The first result table is mirrored at the top level for single-table consumers
   data: any[]
   columns: string[]
+  columnDescriptors: ColumnDescriptor[]
   rowCount: number
   executionTime: number
+  truncated: boolean
+  warnings: QueryWarning[]
+  tables: ResultTable[]
+  fromCache: boolean
+}
+
+export interface QueryProgress {
+  // Rows received so far across all result tables
+  rowCount: number
+  // First page of the first result table, for rendering while the rest streams
+  preview: ResultTable | null
+  // Percentage reported by the cluster, when it reports one
+  progress: number | null
+}
+
+export type QueryParameterValue = string | number | boolean | Date
+
+// Mirrors the Kusto ClientRequestProperties that are useful from the app
+export interface QueryExecutionOptions {
+  signal?: AbortSignal
+  serverTimeoutMs?: number
+  truncationMaxRecords?: number
+  truncationMaxSize?: number
+  noTruncation?: boolean
+  clientRequestId?: string
+  application?: string
+  user?: string
+  requestDescription?: string
+  parameters?: Record<string, QueryParameterValue>
+  // Streams results; aborting then rejects with the rows received so far as partialResult
+  onProgress?: (progress: QueryProgress) => void
+  // Skips the cache lookup; the fresh result still replaces the cached one
+  bypassCache?: boolean
 }
 
+// How requests to the cluster are authenticated
+export type ADXAuthMode = 'none' | 'msal' | 'teams-sso'
+
 export interface ADXConnection {
   clusterUrl: string
   database: string
+  authMode?: ADXAuthMode
+  // When omitted, mock mode follows VITE_USE_MOCK_DATA and "mock" cluster/database names
+  useMockData?: boolean
+}
+
+export interface TableDetails {
+  name: string
+  // null when the cluster does not report extent statistics for the table
+  rowCount: number | null
+  columns: ColumnDescriptor[]
+}
+
+// Same default as a real cluster's query result set limit
+const MOCK_TRUNCATION_MAX_RECORDS = 500000
+const MOCK_STREAM_CHUNKS = 10
+const MOCK_STREAM_CHUNK_DELAY_MS = 40
+const PREVIEW_PAGE_SIZE = 100
+
+function formatTimespan(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  return [hours, minutes, seconds].map(part => String(part).padStart(2, '0')).join(':')
+}
+
+// Query parameters travel as strings; the cluster parses them against the declared parameter type
+function toParameterLiteral(value: QueryParameterValue): string {
+  if (value instanceof Date) {
+    return `datetime(${value.toISOString()})`
+  }
+  return String(value)
+}
+
+function buildClientRequestProperties(options: QueryExecutionOptions): ClientRequestProperties | undefined {
+  const properties: ClientRequestProperties = { Options: {}, Parameters: {} }
+
+  if (options.serverTimeoutMs !== undefined) {
+    properties.Options.servertimeout = formatTimespan(options.serverTimeoutMs)
+  }
+  if (options.truncationMaxRecords !== undefined) {
+    properties.Options.truncationmaxrecords = options.truncationMaxRecords
+  }
+  if (options.truncationMaxSize !== undefined) {
+    properties.Options.truncationmaxsize = options.truncationMaxSize
+  }
+  if (options.noTruncation) {
+    properties.Options.notruncation = true
+  }
+  if (options.requestDescription) {
+    properties.Options.request_description = options.requestDescription
+  }
+  Object.entries(options.parameters || {}).forEach(([name, value]) => {
+    properties.Parameters[name] = toParameterLiteral(value)
+  })
+
+  const isEmpty = Object.keys(properties.Options).length === 0 && Object.keys(properties.Parameters).length === 0
+  return isEmpty ? undefined : properties
+}
+
+function toResultTable(table: KustoTable, maxRows?: number): ResultTable {
+  const rows = maxRows === undefined ? table.rows : table.rows.slice(0, maxRows)
+  return {
+    name: table.name,
+    data: tableToObjects({ ...table, rows }),
+    columns: table.columns.map(column => column.ColumnName),
+    columnDescriptors: table.columns.map(column => ({
+      name: column.ColumnName,
+      type: normalizeColumnType(column.ColumnType)
+    })),
+    rowCount: table.rows.length
+  }
+}
+
+function toPartialResult(tables: ResultTable[], executionTime: number): QueryResult {
+  const rowCount = tables.reduce((total, table) => total + table.rowCount, 0)
+  return toQueryResult(tables, executionTime, true, [{
+    code: 'STOPPED_EARLY',
+    message: `Stopped after ${rowCount} rows; the result is incomplete`
+  }])
+}
+
+// False for the rows a stopped query had streamed before it was cancelled
+export function isCompleteResult(result: QueryResult): boolean {
+  return !result.warnings.some(warning => warning.code === 'STOPPED_EARLY')
+}
+
+function toQueryResult(
+  tables: ResultTable[],
+  executionTime: number,
+  truncated: boolean,
+  warnings: QueryWarning[]
+): QueryResult {
+  // Unnamed results of a batch all arrive as "PrimaryResult" on the v2 endpoint
+  const seen = new Set<string>()
+  const namedTables = tables.map((table, index) => {
+    const name = seen.has(table.name) ? `${table.name}_${index}` : table.name
+    seen.add(name)
+    return { ...table, name }
+  })
+
+  const primary = namedTables[0]
+  return {
+    data: primary?.data || [],
+    columns: primary?.columns || [],
+    columnDescriptors: primary?.columnDescriptors || [],
+    rowCount: primary?.rowCount || 0,
+    executionTime,
+    truncated,
+    warnings,
+    tables: namedTables,
+    fromCache: false
+  }
+}
+
+function shouldUseMockData(connection: ADXConnection): boolean {
+  return connection.useMockData ?? (
+    import.meta.env.VITE_USE_MOCK_DATA === 'true' ||
+    connection.clusterUrl.includes('mock') ||
+    connection.database.includes('mock')
+  )
 }
 
 class ADXService {
-  private client: any = null
+  private client: KustoClient | null = null
   private connection: ADXConnection | null = null
   private useMockData: boolean = false
 
   async initialize(connection: ADXConnection): Promise<void> {
     this.connection = connection
+    this.client = null
+    // Reconnecting is the explicit way to ask for fresh data
+    queryCache.invalidate(connection)
     
-    // Check if we should use mock data
-    this.useMockData = import.meta.env.VITE_USE_MOCK_DATA === 'true' || 
-                      connection.clusterUrl.includes('mock') ||
-                      connection.database.includes('mock')
+    this.useMockData = shouldUseMockData(connection)
     
     if (this.useMockData) {
       console.log('🔧 ADX Service initialized in MOCK MODE')
       return
     }
     
-    // In mock mode, we don't need real Azure clients
-    throw new Error('Real ADX mode requires Azure packages. Use mock mode for testing.')
+    this.client = this.createClient(connection)
+    console.log('🔌 ADX Service initialized for', connection.clusterUrl)
   }
 
-  async executeQuery(kqlQuery: string): Promise<QueryResult> {
+  async executeQuery(kqlQuery: string, options: QueryExecutionOptions = {}): Promise<QueryResult> {
     if (!this.connection) {
       throw new Error('ADX service not initialized')
     }
 
-    if (this.useMockData) {
-      return this.executeMockQuery(kqlQuery)
+    throwIfCancelled(options.signal)
+
+    const cacheKey = isManagementCommand(kqlQuery)
+      ? null
+      : queryCache.createKey(this.connection, kqlQuery, options)
+    if (cacheKey && !options.bypassCache) {
+      const cached = queryCache.get(cacheKey)
+      if (cached) {
+        console.log('⚡ Serving query result from cache')
+        return { ...cached, fromCache: true }
+      }
     }
 
-    if (!this.client) {
+    const result = this.useMockData
+      ? await this.executeMockQuery(kqlQuery, options)
+      : await this.executeRemoteQuery(kqlQuery, options)
+
+    // A truncated or stopped result is not the query's answer, so it is never served from the cache
+    if (cacheKey && !result.truncated && isCompleteResult(result)) {
+      queryCache.set(cacheKey, kqlQuery, result)
+    }
+    return result
+  }
+
+  private async executeRemoteQuery(kqlQuery: string, options: QueryExecutionOptions): Promise<QueryResult> {
+    if (!this.client || !this.connection) {
       throw new Error('ADX client not initialized')
     }
 
+    const startTime = Date.now()
+    let streamed: KustoDataSet | null = null
+    const onProgress = options.onProgress
+
     try {
-      // For now, we'll simulate Azure SDK calls since packages aren't installed
-      // In production, you would use:
-      // const clientRequestProps = new ClientRequestProperties()
-      // clientRequestProps.setOption('servertimeout', '00:10:00')
-      // const response = await this.client.execute(this.connection.database, kqlQuery, clientRequestProps)
-      
-      throw new Error('Real ADX mode not implemented. Use mock mode for testing.')
+      const dataSet = await this.client.execute(this.connection.database, kqlQuery, {
+        signal: options.signal,
+        clientRequestId: options.clientRequestId,
+        application: options.application,
+        user: options.user,
+        properties: buildClientRequestProperties(options),
+        onProgress: onProgress && ((partial, progress) => {
+          streamed = partial
+          const primaryResults = getPrimaryResults(partial)
+          onProgress({
+            rowCount: primaryResults.reduce((total, table) => total + table.rows.length, 0),
+            preview: primaryResults.length > 0 ? toResultTable(primaryResults[0], PREVIEW_PAGE_SIZE) : null,
+            progress
+          })
+        })
+      })
+
+      // Cancelled on the cluster, e.g. with .cancel query from another session: what arrived is incomplete
+      if (dataSet.cancelled) {
+        const partialTables = getPrimaryResults(dataSet).filter(table => table.rows.length > 0)
+        throw new QueryCancelledError(
+          'Query was cancelled on the cluster',
+          partialTables.length > 0 ? toPartialResult(partialTables.map(table => toResultTable(table)), Date.now() - startTime) : undefined
+        )
+      }
+
+      // Truncation still returns the rows that fit, so it is a warning rather than a failure
+      const warnings: QueryWarning[] = getCompletionWarnings(dataSet)
+      const fatalErrors = dataSet.errors.filter(error => !isTruncationError(error))
+      const truncated = dataSet.errors.length > fatalErrors.length
+
+      if (fatalErrors.length > 0) {
+        throw new ADXQueryError('QUERY_EXECUTION_FAILED', formatKustoError(fatalErrors[0]))
+      }
+
+      dataSet.errors.filter(isTruncationError).forEach(error => {
+        warnings.push({ code: 'RESULT_TRUNCATED', message: formatKustoError(error) })
+      })
+
+      const primaryResults = getPrimaryResults(dataSet)
+      if (primaryResults.length === 0) {
+        throw new ADXQueryError('INVALID_RESPONSE', 'ADX response did not contain a primary result')
+      }
+
+      return toQueryResult(primaryResults.map(table => toResultTable(table)), Date.now() - startTime, truncated, warnings)
     } catch (error) {
+      if (error instanceof QueryCancelledError) {
+        if (error.partialResult) {
+          throw error
+        }
+        const partialTables = streamed ? getPrimaryResults(streamed).filter(table => table.rows.length > 0) : []
+        if (partialTables.length > 0) {
+          throw new QueryCancelledError('Query stopped', toPartialResult(partialTables.map(table => toResultTable(table)), Date.now() - startTime))
+        }
+        throw error
+      }
       console.error('ADX query execution failed:', error)
+      if (error instanceof ADXQueryError) {
+        throw error
+      }
       throw new Error(`Query execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
   }
 
-  private async executeMockQuery(kqlQuery: string): Promise<QueryResult> {
+  private async executeMockQuery(kqlQuery: string, options: QueryExecutionOptions): Promise<QueryResult> {
     const startTime = Date.now()
     
     // Add artificial delay to simulate network latency
-    await new Promise(resolve => setTimeout(resolve, 200 + Math.random() * 800))
+    const latency = 200 + Math.random() * 800
+    if (options.serverTimeoutMs !== undefined && latency > options.serverTimeoutMs) {
+      await cancellableDelay(options.serverTimeoutMs, options.signal)
+      throw new ADXQueryError('QUERY_TIMEOUT', `Query exceeded the server timeout of ${formatTimespan(options.serverTimeoutMs)}`)
+    }
+    await cancellableDelay(latency, options.signal)
 
     try {
-      const mockData = await this.parseMockQuery(kqlQuery)
+      const mockTables = await this.parseMockQuery(kqlQuery, options.parameters || {})
+      throwIfCancelled(options.signal)
       const executionTime = Date.now() - startTime
 
-      if (mockData.length === 0) {
-        return {
-          data: [],
-          columns: [],
-          rowCount: 0,
-          executionTime
+      const warnings: QueryWarning[] = []
+      const maxRecords = options.truncationMaxRecords ?? MOCK_TRUNCATION_MAX_RECORDS
+      let truncated = false
+
+      const tables: ResultTable[] = []
+      for (const mockTable of mockTables) {
+        let rows = mockTable.rows
+        if (!options.noTruncation && rows.length > maxRecords) {
+          truncated = true
+          warnings.push({
+            code: 'RESULT_TRUNCATED',
+            message: `Query result set has exceeded the record count limit ${maxRecords} (E_QUERY_RESULT_SET_TOO_LARGE)`
+          })
+          rows = rows.slice(0, maxRecords)
         }
-      }
 
-      // Extract columns from the first data item
-      const columns = Object.keys(mockData[0])
+        // Declared types come from the mock schema, falling back to inference for computed columns
+        const columnDescriptors = await mockDataService.describeResultColumns({ ...mockTable, rows })
+        tables.push({
+          name: mockTable.name,
+          data: rows,
+          columns: columnDescriptors.map(column => column.name),
+          columnDescriptors,
+          rowCount: rows.length
+        })
+      }
 
-      return {
-        data: mockData,
-        columns,
-        rowCount: mockData.length,
-        executionTime
+      if (options.onProgress) {
+        await this.streamMockTables(tables, options.onProgress, options.signal, startTime)
       }
+
+      return toQueryResult(tables, executionTime, truncated, warnings)
     } catch (error) {
+      if (error instanceof QueryCancelledError || error instanceof ADXQueryError) {
+        throw error
+      }
       console.error('Mock query execution failed:', error)
       throw new Error(`Mock query execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
   }
 
-  private async parseMockQuery(kqlQuery: string): Promise<any[]> {
+  // Replays a computed result in chunks so progressive rendering and early stop can be exercised
+  private async streamMockTables(
+    tables: ResultTable[],
+    onProgress: (progress: QueryProgress) => void,
+    signal: AbortSignal | undefined,
+    startTime: number
+  ): Promise<void> {
+    const totalRows = tables.reduce((total, table) => total + table.rowCount, 0)
+    const chunkRows = Math.max(100, Math.ceil(totalRows / MOCK_STREAM_CHUNKS))
+    const delivered: ResultTable[] = []
+    let rowCount = 0
+
+    for (const table of tables) {
+      const current: ResultTable = { ...table, data: [], rowCount: 0 }
+      delivered.push(current)
+
+      for (let offset = 0; offset === 0 || offset < table.data.length; offset += chunkRows) {
+        const chunk = table.data.slice(offset, offset + chunkRows)
+        current.data = current.data.concat(chunk)
+        current.rowCount = current.data.length
+        rowCount += chunk.length
+
+        const first = delivered[0]
+        onProgress({
+          rowCount,
+          preview: { ...first, data: first.data.slice(0, PREVIEW_PAGE_SIZE) },
+          progress: totalRows > 0 ? Math.round((rowCount / totalRows) * 100) : 100
+        })
+
+        try {
+          await cancellableDelay(MOCK_STREAM_CHUNK_DELAY_MS, signal)
+        } catch (error) {
+          const partialTables = delivered.filter(t => t.rowCount > 0)
+          if (error instanceof QueryCancelledError && partialTables.length > 0) {
+            throw new QueryCancelledError('Query stopped', toPartialResult(partialTables, Date.now() - startTime))
+          }
+          throw error
+        }
+      }
+    }
+  }
+
+  private async parseMockQuery(kqlQuery: string, parameters: Record<string, QueryParameterValue>): Promise<MockResultTable[]> {
     const query = kqlQuery.trim()
     
     // Handle simple print statements for connection testing
     if (query.toLowerCase().includes('print')) {
-      return [{ Result: 'Connection test successful' }]
+      return [{ name: 'PrimaryResult', rows: [{ Result: 'Connection test successful' }], sourceTables: [] }]
     }
 
     // Use the enhanced mock data service for KQL query processing
     try {
-      return await mockDataService.executeKQLQuery(kqlQuery)
+      return await mockDataService.executeKQLQuery(kqlQuery, parameters)
     } catch (error) {
+      if (error instanceof ADXQueryError) {
+        throw error
+      }
       console.error('Enhanced KQL parsing error:', error)
       // Fallback to simple parsing
-      return await this.executeSimpleQuery(query)
+      return [await this.executeSimpleQuery(query)]
     }
   }
 
-  private async executeSimpleQuery(kqlQuery: string): Promise<any[]> {
+  private async executeSimpleQuery(kqlQuery: string): Promise<MockResultTable> {
     const query = kqlQuery.toLowerCase().trim()
     
-    if (query.includes('batteryreadings')) {
-      return await this.generateBatteryData(kqlQuery)
-    } else if (query.includes('vesselinfo')) {
-      return this.generateVesselData()
-    } else {
-      return await this.generateBatteryData(kqlQuery)
+    if (query.includes('vesselinfo') && !query.includes('batteryreadings')) {
+      return { name: 'PrimaryResult', rows: await this.generateVesselData(), sourceTables: ['VesselInfo'] }
     }
+    return { name: 'PrimaryResult', rows: await this.generateBatteryData(kqlQuery), sourceTables: ['BatteryReadings'] }
   }
 
   private async generateBatteryData(kqlQuery: string): Promise<BatteryReading[]> {
@@ -181,7 +511,7 @@ class ADXService {
 
     try {
       const testQuery = 'print "Connection test successful"'
-      const result = await this.executeQuery(testQuery)
+      const result = await this.executeQuery(testQuery, { bypassCache: true })
       return result.rowCount > 0
     } catch (error) {
       console.error('ADX connection test failed:', error)
@@ -191,7 +521,7 @@ class ADXService {
 
   async getDatabaseSchema(): Promise<any[]> {
     if (this.useMockData) {
-      const mockSchema = await mockDataService.getMockSchema()
+      const mockSchema = await mockDataService.getMockSchema(this.connection?.database)
       const schemaRows: any[] = []
       
       mockSchema.forEach(table => {
@@ -200,7 +530,9 @@ class ADXService {
             TableName: table.tableName,
             ColumnName: column.name,
             ColumnType: column.type,
-            DataType: column.type
+            DataType: column.type,
+            Description: column.description,
+            TableDescription: table.description
           })
         })
       })
@@ -213,15 +545,31 @@ class ADXService {
     }
 
     try {
-      const schemaQuery = `
-        .show database schema 
-        | where TableName != "" 
-        | project TableName, ColumnName, ColumnType, DataType
-        | order by TableName, ColumnName
-      `
+      // Rows without a ColumnName describe the table itself and carry its docstring
+      const schemaQuery = `.show database schema 
+        | where TableName != ""
+        | project TableName, ColumnName, ColumnType, DocString
+        | order by TableName, ColumnName`
       
       const result = await this.executeQuery(schemaQuery)
+      const tableDescriptions = new Map<string, string>(
+        result.data
+          .filter(row => !row.ColumnName && row.DocString)
+          .map(row => [row.TableName, row.DocString])
+      )
       return result.data
+        .filter(row => row.ColumnName)
+        .map(row => {
+          const columnType = normalizeColumnType(row.ColumnType)
+          return {
+            TableName: row.TableName,
+            ColumnName: row.ColumnName,
+            ColumnType: columnType,
+            DataType: columnType,
+            Description: row.DocString || undefined,
+            TableDescription: tableDescriptions.get(row.TableName)
+          }
+        })
     } catch (error) {
       console.error('Failed to retrieve database schema:', error)
       throw new Error('Failed to retrieve database schema')
@@ -230,7 +578,7 @@ class ADXService {
 
   async getTables(): Promise<string[]> {
     if (this.useMockData) {
-      return mockDataService.getMockTables()
+      return mockDataService.getMockTables(this.connection?.database)
     }
 
     if (!this.client || !this.connection) {
@@ -247,6 +595,106 @@ class ADXService {
     }
   }
 
+  // A few distinct values per column from a slice of the table, to show the model what the data looks like
+  async getSampleValues(tableName: string, columns: string[], limit: number = 5): Promise<Record<string, string[]>> {
+    if (columns.length === 0) {
+      return {}
+    }
+    if (this.useMockData) {
+      return mockDataService.getMockSampleValues(tableName, columns, limit)
+    }
+
+    const quote = (name: string) => `['${name.replace(/'/g, "\\'")}']`
+    const aggregates = columns.map(column => `${quote(column)} = make_set(${quote(column)}, ${limit})`)
+    const result = await this.executeQuery(`${quote(tableName)} | take 1000 | summarize ${aggregates.join(', ')}`)
+    const row = result.data[0] ?? {}
+
+    return Object.fromEntries(columns.map(column => {
+      const values = typeof row[column] === 'string' ? JSON.parse(row[column]) : row[column]
+      return [column, Array.isArray(values) ? values.filter(value => value !== null && value !== '').map(String) : []]
+    }))
+  }
+
+  // Lists the databases on a cluster; accepts an unsaved connection so a database can be picked before connecting
+  async getDatabases(connection: ADXConnection | null = this.connection): Promise<string[]> {
+    if (!connection) {
+      throw new Error('ADX service not initialized')
+    }
+
+    if (shouldUseMockData(connection)) {
+      return mockDataService.getMockDatabases()
+    }
+
+    try {
+      const client = connection === this.connection && this.client ? this.client : this.createClient(connection)
+      // Management commands need a database context; NetDefaultDB exists on every cluster
+      const dataSet = await client.executeMgmt(connection.database || 'NetDefaultDB', '.show databases | project DatabaseName')
+      const table = getPrimaryResult(dataSet)
+      return table ? tableToObjects(table).map(row => row.DatabaseName).sort() : []
+    } catch (error) {
+      console.error('Failed to retrieve databases:', error)
+      throw new Error('Failed to retrieve databases')
+    }
+  }
+
+  // Tables of the connected database with their columns and approximate row counts
+  async getTableDetails(): Promise<TableDetails[]> {
+    const [schema, rowCounts] = await Promise.all([
+      this.getDatabaseSchema(),
+      this.getTableRowCounts()
+    ])
+
+    const tables = new Map<string, TableDetails>()
+    schema.forEach(row => {
+      const table: TableDetails = tables.get(row.TableName) || { name: row.TableName, rowCount: rowCounts[row.TableName] ?? null, columns: [] }
+      table.columns.push({ name: row.ColumnName, type: row.ColumnType })
+      tables.set(row.TableName, table)
+    })
+
+    return Array.from(tables.values()).sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  private async getTableRowCounts(): Promise<Record<string, number>> {
+    if (this.useMockData) {
+      return mockDataService.getMockTableRowCounts(this.connection?.database)
+    }
+
+    try {
+      // Row counts come from extent metadata, so this stays cheap on large tables
+      const result = await this.executeQuery('.show tables details | project TableName, TotalRowCount')
+      return Object.fromEntries(result.data.map(row => [row.TableName, Number(row.TotalRowCount)]))
+    } catch (error) {
+      // Counts are informational; the table browser still works without them
+      console.warn('Failed to retrieve table row counts:', error)
+      return {}
+    }
+  }
+
+  // Checks a connection without switching the active one, e.g. for an unsaved profile
+  async probeConnection(connection: ADXConnection): Promise<boolean> {
+    if (shouldUseMockData(connection)) {
+      return true
+    }
+
+    try {
+      const client = this.createClient(connection)
+      const dataSet = await client.executeQuery(connection.database, 'print "Connection test successful"')
+      return getPrimaryResults(dataSet).some(table => table.rows.length > 0)
+    } catch (error) {
+      console.error('ADX connection probe failed:', error)
+      throw error
+    }
+  }
+
+  private createClient(connection: ADXConnection): KustoClient {
+    if (connection.authMode === 'none') {
+      return new KustoClient(connection.clusterUrl)
+    }
+
+    const scope = getKustoScope(connection.clusterUrl)
+    return new KustoClient(connection.clusterUrl, () => authService.getAccessToken([scope]))
+  }
+
   getConnection(): ADXConnection | null {
     return this.connection
   }
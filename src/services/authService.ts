@@ -1,3 +1,11 @@
+import {
+  AccountInfo,
+  InteractionRequiredAuthError,
+  PublicClientApplication
+} from '@azure/msal-browser'
+import { app, authentication } from '@microsoft/teams-js'
+import { AuthenticationError } from '../utils/errorHandler'
+
 export interface AuthContextType {
   isAuthenticated: boolean
   account: any | null
@@ -7,65 +15,177 @@ export interface AuthContextType {
   getAccessToken: (scopes: string[]) => Promise<string | null>
 }
 
+type AuthMode = 'mock' | 'fake' | 'msal' | 'teams'
+
+type AccountListener = (account: any | null) => void
+
+interface CachedToken {
+  token: string
+  expiresOn: number
+}
+
+export const AZURE_OPENAI_SCOPE = 'https://cognitiveservices.azure.com/.default'
+
+// Tokens are refreshed this long before they expire so requests never carry a stale one
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000
+const LOGIN_SCOPES = ['openid', 'profile', 'offline_access']
+// On-behalf-of exchange for Teams SSO tokens (api/src/functions/tokenExchange.js)
+const TOKEN_EXCHANGE_ENDPOINT = '/api/auth/token'
+
+// Kusto accepts tokens issued for the cluster URL itself
+export function getKustoScope(clusterUrl: string): string {
+  return `${new URL(clusterUrl).origin}/.default`
+}
+
+function decodeTokenClaims(token: string): Record<string, any> {
+  const payload = token.split('.')[1] || ''
+  const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'))
+  // atob yields Latin-1; re-decode so non-ASCII display names survive
+  return JSON.parse(decodeURIComponent(Array.from(json, char => '%' + char.charCodeAt(0).toString(16).padStart(2, '0')).join('')))
+}
+
 class AuthService {
   private account: any | null = null
   private accessToken: string | null = null
-  private isMockMode: boolean = false
+  private mode: AuthMode = 'mock'
+  private msalClient: PublicClientApplication | null = null
+  private fakeTokenEndpoint: string | null = null
+  private tokenCache = new Map<string, CachedToken>()
+  private pendingTokens = new Map<string, Promise<string | null>>()
+  private listeners = new Set<AccountListener>()
 
   async initialize(): Promise<void> {
+    // A fake token endpoint (scripts/fake-token-server.js) stands in for Entra ID offline
+    if (import.meta.env.VITE_AUTH_FAKE_TOKEN_ENDPOINT) {
+      this.mode = 'fake'
+      this.fakeTokenEndpoint = import.meta.env.VITE_AUTH_FAKE_TOKEN_ENDPOINT
+      this.setAccount({
+        username: 'developer@localhost',
+        name: 'Local Developer',
+        localAccountId: 'fake-account-id'
+      })
+      console.log('🔧 Auth Service using fake token endpoint:', this.fakeTokenEndpoint)
+      return
+    }
+
     // Check if we're in mock mode
-    this.isMockMode = import.meta.env.VITE_USE_MOCK_DATA === 'true'
-    
-    if (this.isMockMode) {
-      // Mock authentication for testing
-      this.account = {
-        username: 'test@corvus.com',
-        name: 'Test User',
-        localAccountId: 'mock-account-id'
-      }
+    if (import.meta.env.VITE_USE_MOCK_DATA === 'true') {
+      this.mode = 'mock'
+      // Mock authentication for testing; inside Teams the tab already knows who the user is
+      const teamsUser = app.isInitialized() ? (await app.getContext()).user : undefined
+      this.setAccount({
+        username: teamsUser?.userPrincipalName || 'test@corvus.com',
+        name: teamsUser?.displayName || 'Test User',
+        localAccountId: teamsUser?.id || 'mock-account-id'
+      })
       this.accessToken = 'mock-access-token'
       console.log('🔧 Auth Service initialized in MOCK MODE')
       return
     }
-    
-    throw new Error('Real authentication requires Azure MSAL packages. Use mock mode for testing.')
+
+    if (app.isInitialized()) {
+      // Teams SSO signs in through loginWithTeams(); MSAL is only the consent fallback
+      this.mode = 'teams'
+      this.msalClient = import.meta.env.VITE_AZURE_CLIENT_ID ? await this.createMsalClient() : null
+      console.log('🎯 Auth Service initialized for Teams SSO')
+      return
+    }
+
+    this.mode = 'msal'
+    this.msalClient = await this.createMsalClient()
+
+    // Completes a loginRedirect started before the page navigated away
+    const redirectResult = await this.msalClient.handleRedirectPromise()
+    const account = redirectResult?.account || this.msalClient.getActiveAccount() || this.msalClient.getAllAccounts()[0]
+    if (account) {
+      this.setAccount(account)
+    }
+    console.log('🔐 Auth Service initialized with MSAL', account ? `(signed in as ${account.username})` : '')
   }
 
   async loginWithTeams(): Promise<void> {
-    if (this.isMockMode) {
-      // Already authenticated in mock mode
-      return
+    if (this.mode !== 'teams') {
+      // Already authenticated in mock and fake modes; outside Teams use login()
+      return this.mode === 'msal' ? this.login() : undefined
+    }
+
+    try {
+      // Silent when the user has already consented to the app in Teams
+      const ssoToken = await authentication.getAuthToken()
+      const claims = decodeTokenClaims(ssoToken)
+      this.setAccount({
+        username: claims.preferred_username || claims.upn,
+        name: claims.name,
+        localAccountId: claims.oid,
+        tenantId: claims.tid
+      })
+      console.log('🎯 Signed in with Teams SSO as', this.account.username)
+    } catch (error) {
+      throw new AuthenticationError('AUTH_FAILED', `Teams sign-in failed: ${error instanceof Error ? error.message : String(error)}`)
     }
-    
-    throw new Error('Real Teams authentication requires Azure packages. Use mock mode for testing.')
   }
 
   async login(): Promise<void> {
-    if (this.isMockMode) {
-      // Already authenticated in mock mode
+    if (this.mode !== 'msal') {
+      // Already authenticated in mock and fake modes
       return
     }
-    
-    throw new Error('Real login requires Azure MSAL packages. Use mock mode for testing.')
+
+    const msalClient = this.getMsalClient()
+    try {
+      if (import.meta.env.VITE_AUTH_LOGIN_MODE === 'redirect') {
+        // The page navigates away; initialize() picks up the result when it returns
+        await msalClient.loginRedirect({ scopes: LOGIN_SCOPES })
+        return
+      }
+
+      const result = await msalClient.loginPopup({ scopes: LOGIN_SCOPES })
+      this.setAccount(result.account)
+    } catch (error) {
+      throw new AuthenticationError('AUTH_FAILED', `Sign-in failed: ${error instanceof Error ? error.message : String(error)}`)
+    }
   }
 
   logout(): void {
-    if (this.isMockMode) {
-      this.account = null
-      this.accessToken = null
-      return
-    }
-    
-    this.account = null
+    const account = this.account
+    this.setAccount(null)
     this.accessToken = null
+    this.tokenCache.clear()
+
+    if (this.mode === 'msal' && this.msalClient && account) {
+      this.msalClient.logoutPopup({ account }).catch(error => {
+        console.warn('MSAL logout failed:', error)
+      })
+    }
   }
 
-  async getAccessToken(_scopes: string[] = []): Promise<string | null> {
-    if (this.isMockMode) {
+  async getAccessToken(scopes: string[] = []): Promise<string | null> {
+    if (this.mode === 'mock') {
       return this.accessToken
     }
-    
-    return null
+    if (!this.account) {
+      return null
+    }
+
+    const key = [...scopes].sort().join(' ')
+    const cached = this.tokenCache.get(key)
+    if (cached && cached.expiresOn - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return cached.token
+    }
+
+    // Concurrent requests for the same scopes share one token acquisition
+    let pending = this.pendingTokens.get(key)
+    if (!pending) {
+      pending = this.acquireToken(scopes)
+        .then(({ token, expiresOn }) => {
+          this.tokenCache.set(key, { token, expiresOn })
+          this.accessToken = token
+          return token
+        })
+        .finally(() => this.pendingTokens.delete(key))
+      this.pendingTokens.set(key, pending)
+    }
+    return pending
   }
 
   isAuthenticated(): boolean {
@@ -79,6 +199,129 @@ class AuthService {
   getCurrentAccessToken(): string | null {
     return this.accessToken
   }
+
+  isInTeams(): boolean {
+    return this.mode === 'teams'
+  }
+
+  subscribe(listener: AccountListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private async acquireToken(scopes: string[]): Promise<CachedToken> {
+    if (this.mode === 'fake') {
+      return this.acquireFakeToken(scopes)
+    }
+    if (this.mode === 'teams') {
+      return this.acquireTeamsToken(scopes)
+    }
+
+    const msalClient = this.getMsalClient()
+    const request = { scopes, account: this.account as AccountInfo }
+    try {
+      // MSAL serves from its own cache and uses the refresh token when the access token has expired
+      const result = await msalClient.acquireTokenSilent(request)
+      return { token: result.accessToken, expiresOn: result.expiresOn?.getTime() ?? Date.now() }
+    } catch (error) {
+      if (!(error instanceof InteractionRequiredAuthError)) {
+        throw new AuthenticationError('AUTH_FAILED', `Could not acquire a token for ${scopes.join(' ')}`)
+      }
+
+      // Consent or MFA is needed; a popup keeps the current page state
+      console.log('🔐 Interactive sign-in required for', scopes.join(' '))
+      const result = await msalClient.acquireTokenPopup(request)
+      return { token: result.accessToken, expiresOn: result.expiresOn?.getTime() ?? Date.now() }
+    }
+  }
+
+  private async acquireTeamsToken(scopes: string[]): Promise<CachedToken> {
+    const ssoToken = await authentication.getAuthToken()
+    const response = await fetch(TOKEN_EXCHANGE_ENDPOINT, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${ssoToken}`
+      },
+      body: JSON.stringify({ scope: scopes.join(' ') })
+    })
+    const body = await response.json().catch(() => ({}))
+
+    if (response.ok) {
+      return { token: body.access_token, expiresOn: Date.now() + body.expires_in * 1000 }
+    }
+
+    if (body.error === 'consent_required') {
+      return this.acquireConsentedToken(scopes)
+    }
+    throw new AuthenticationError('AUTH_FAILED', `Token exchange failed: ${body.error_description || body.error || response.status}`)
+  }
+
+  // The SSO token cannot grant consent for downstream APIs; the user has to do that once in a popup
+  private async acquireConsentedToken(scopes: string[]): Promise<CachedToken> {
+    if (!this.msalClient) {
+      throw new AuthenticationError('CONSENT_REQUIRED', `Consent is required for ${scopes.join(' ')}; ask an administrator to grant it`)
+    }
+
+    console.log('🔐 Consent required, opening sign-in popup for', scopes.join(' '))
+    const result = await this.msalClient.acquireTokenPopup({
+      scopes,
+      loginHint: this.account?.username,
+      prompt: 'consent'
+    })
+    return { token: result.accessToken, expiresOn: result.expiresOn?.getTime() ?? Date.now() }
+  }
+
+  private async acquireFakeToken(scopes: string[]): Promise<CachedToken> {
+    const response = await fetch(this.fakeTokenEndpoint!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ scope: scopes.join(' '), username: this.account.username })
+    })
+    if (!response.ok) {
+      throw new AuthenticationError('AUTH_FAILED', `Fake token endpoint returned ${response.status}`)
+    }
+
+    const body = await response.json()
+    return { token: body.access_token, expiresOn: Date.now() + body.expires_in * 1000 }
+  }
+
+  private async createMsalClient(): Promise<PublicClientApplication> {
+    const clientId = import.meta.env.VITE_AZURE_CLIENT_ID
+    if (!clientId) {
+      throw new AuthenticationError('INVALID_CONFIGURATION', 'VITE_AZURE_CLIENT_ID is required for Azure AD sign-in')
+    }
+
+    const msalClient = new PublicClientApplication({
+      auth: {
+        clientId,
+        authority: `https://login.microsoftonline.com/${import.meta.env.VITE_AZURE_TENANT_ID || 'organizations'}`,
+        redirectUri: import.meta.env.VITE_AZURE_REDIRECT_URI || window.location.origin
+      },
+      cache: {
+        cacheLocation: 'sessionStorage'
+      }
+    })
+    await msalClient.initialize()
+    return msalClient
+  }
+
+  private getMsalClient(): PublicClientApplication {
+    if (!this.msalClient) {
+      throw new AuthenticationError('AUTH_FAILED', 'Auth service not initialized')
+    }
+    return this.msalClient
+  }
+
+  private setAccount(account: any | null): void {
+    this.account = account
+    if (account && this.mode === 'msal') {
+      this.msalClient?.setActiveAccount(account)
+    }
+    this.listeners.forEach(listener => listener(account))
+  }
 }
 
-export const authService = new AuthService()
\ No newline at end of file
+export const authService = new AuthService()
@@ -0,0 +1,176 @@
+import { ADXAuthMode, ADXConnection } from './adxService'
+
+export interface ConnectionProfile {
+  id: string
+  name: string
+  clusterUrl: string
+  database: string
+  authMode: ADXAuthMode
+  useMockData: boolean
+}
+
+// Called after any change to the saved profiles, with the profile that is now active
+type ProfileListener = (activeProfile: ConnectionProfile | null) => void
+
+const STORAGE_KEY = 'corvus-adx-profiles'
+// Single-connection settings written by earlier versions of ConfigurationPanel
+const LEGACY_STORAGE_KEY = 'corvus-adx-settings'
+
+export function createProfileId(): string {
+  return `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function toConnection(profile: ConnectionProfile): ADXConnection {
+  return {
+    clusterUrl: profile.clusterUrl,
+    database: profile.database,
+    authMode: profile.authMode,
+    useMockData: profile.useMockData
+  }
+}
+
+// Whether two profiles point at the same data with the same credentials; renames do not count
+export function isSameConnection(a: ConnectionProfile | null, b: ConnectionProfile | null): boolean {
+  if (!a || !b) {
+    return a === b
+  }
+  return a.clusterUrl === b.clusterUrl &&
+    a.database === b.database &&
+    a.authMode === b.authMode &&
+    a.useMockData === b.useMockData
+}
+
+function createEnvironmentProfile(): ConnectionProfile {
+  return {
+    id: createProfileId(),
+    name: 'Default',
+    clusterUrl: import.meta.env.VITE_ADX_CLUSTER_URL || '',
+    database: import.meta.env.VITE_ADX_DATABASE_NAME || '',
+    authMode: 'msal',
+    useMockData: import.meta.env.VITE_USE_MOCK_DATA === 'true'
+  }
+}
+
+class ConnectionProfileService {
+  private profiles: ConnectionProfile[] = []
+  private activeProfileId: string | null = null
+  private listeners = new Set<ProfileListener>()
+
+  constructor() {
+    this.load()
+  }
+
+  getProfiles(): ConnectionProfile[] {
+    return [...this.profiles]
+  }
+
+  getProfile(id: string): ConnectionProfile | null {
+    return this.profiles.find(profile => profile.id === id) || null
+  }
+
+  getActiveProfile(): ConnectionProfile | null {
+    return this.activeProfileId ? this.getProfile(this.activeProfileId) : null
+  }
+
+  saveProfile(profile: ConnectionProfile): void {
+    const index = this.profiles.findIndex(p => p.id === profile.id)
+    if (index >= 0) {
+      this.profiles[index] = profile
+    } else {
+      this.profiles.push(profile)
+    }
+    this.persist()
+    this.notify()
+  }
+
+  deleteProfile(id: string): void {
+    if (this.profiles.length <= 1) {
+      throw new Error('At least one connection profile is required')
+    }
+
+    this.profiles = this.profiles.filter(profile => profile.id !== id)
+    if (this.activeProfileId === id) {
+      this.activeProfileId = this.profiles[0].id
+    }
+    this.persist()
+    this.notify()
+  }
+
+  setActiveProfile(id: string): void {
+    if (!this.getProfile(id)) {
+      throw new Error(`Unknown connection profile: ${id}`)
+    }
+    if (id === this.activeProfileId) {
+      return
+    }
+
+    this.activeProfileId = id
+    this.persist()
+    this.notify()
+  }
+
+  subscribe(listener: ProfileListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private notify(): void {
+    const activeProfile = this.getActiveProfile()
+    this.listeners.forEach(listener => listener(activeProfile))
+  }
+
+  private load(): void {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY)
+      if (saved) {
+        const parsed = JSON.parse(saved)
+        this.profiles = Array.isArray(parsed.profiles) ? parsed.profiles : []
+        this.activeProfileId = parsed.activeProfileId ?? null
+      } else {
+        this.migrateLegacySettings()
+      }
+    } catch (error) {
+      console.warn('Failed to load connection profiles:', error)
+      this.profiles = []
+    }
+
+    if (this.profiles.length === 0) {
+      this.profiles = [createEnvironmentProfile()]
+    }
+    if (!this.getActiveProfile()) {
+      this.activeProfileId = this.profiles[0].id
+    }
+    this.persist()
+  }
+
+  private migrateLegacySettings(): void {
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY)
+    if (!legacy) return
+
+    const settings = JSON.parse(legacy)
+    const profile: ConnectionProfile = {
+      ...createEnvironmentProfile(),
+      clusterUrl: settings.clusterUrl || '',
+      database: settings.database || ''
+    }
+    this.profiles = [profile]
+    this.activeProfileId = profile.id
+    localStorage.removeItem(LEGACY_STORAGE_KEY)
+    console.log('📦 Migrated saved ADX settings to a connection profile')
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({
+        profiles: this.profiles,
+        activeProfileId: this.activeProfileId
+      }))
+    } catch (error) {
+      console.warn('Failed to save connection profiles:', error)
+    }
+  }
+}
+
+export const connectionProfileService = new ConnectionProfileService()
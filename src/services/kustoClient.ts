@@ -0,0 +1,322 @@
+import { ADXQueryError, QueryCancelledError } from '../utils/errorHandler'
+import {
+  KustoColumnType,
+  KustoDataSet,
+  KustoOneApiError,
+  KustoTable,
+  KustoV1Response,
+  KustoV2Frame
+} from '../types/kusto'
+import { KustoDataSetBuilder, KustoFrameScanner } from './kustoStream'
+
+export type AccessTokenProvider = () => Promise<string | null>
+
+// The JSON shape Kusto expects in the request body's "properties" field
+export interface ClientRequestProperties {
+  Options: Record<string, string | number | boolean>
+  Parameters: Record<string, string>
+}
+
+export interface KustoRequestOptions {
+  signal?: AbortSignal
+  clientRequestId?: string
+  properties?: ClientRequestProperties
+  application?: string
+  user?: string
+  // Requests a progressive response and reports the data set after every frame
+  onProgress?: (dataSet: KustoDataSet, progress: number | null) => void
+}
+
+const CLIENT_VERSION = 'corvus-adx-teams-app;1.0.0'
+
+// Management commands report CLR type names rather than Kusto scalar types
+const CLR_TYPE_MAP: Record<string, KustoColumnType> = {
+  'System.Boolean': 'bool',
+  'System.SByte': 'bool',
+  'System.DateTime': 'datetime',
+  'System.Data.SqlTypes.SqlDecimal': 'decimal',
+  'System.Object': 'dynamic',
+  'System.Guid': 'guid',
+  'System.Int32': 'int',
+  'System.Int64': 'long',
+  'System.Double': 'real',
+  'System.String': 'string',
+  'System.TimeSpan': 'timespan'
+}
+
+export class KustoClient {
+  private clusterUrl: string
+  private getAccessToken: AccessTokenProvider
+
+  constructor(clusterUrl: string, getAccessToken: AccessTokenProvider = async () => null) {
+    this.clusterUrl = clusterUrl.replace(/\/+$/, '')
+    this.getAccessToken = getAccessToken
+  }
+
+  // Management commands (".show ...") go to the v1 endpoint, everything else to v2
+  async execute(database: string, csl: string, options: KustoRequestOptions = {}): Promise<KustoDataSet> {
+    if (isManagementCommand(csl)) {
+      return this.executeMgmt(database, csl, options)
+    }
+    return this.executeQuery(database, csl, options)
+  }
+
+  async executeQuery(database: string, csl: string, options: KustoRequestOptions = {}): Promise<KustoDataSet> {
+    const clientRequestId = options.clientRequestId || createClientRequestId()
+
+    try {
+      if (options.onProgress) {
+        return await this.streamQuery(database, csl, { ...options, clientRequestId }, options.onProgress)
+      }
+
+      const body = await this.post('/v2/rest/query', database, csl, { ...options, clientRequestId })
+      if (!Array.isArray(body)) {
+        throw new ADXQueryError('INVALID_RESPONSE', 'Unexpected response from ADX query endpoint')
+      }
+      return parseV2Response(body as KustoV2Frame[])
+    } catch (error) {
+      if (error instanceof QueryCancelledError) {
+        // Aborting the HTTP request does not stop the query on the cluster
+        this.cancelQuery(database, clientRequestId).catch(cancelError => {
+          console.warn('Failed to cancel query on the cluster:', cancelError)
+        })
+      }
+      throw error
+    }
+  }
+
+  async executeMgmt(database: string, csl: string, options: KustoRequestOptions = {}): Promise<KustoDataSet> {
+    const body = await this.post('/v1/rest/mgmt', database, csl, options)
+    if (!body || !Array.isArray(body.Tables)) {
+      throw new ADXQueryError('INVALID_RESPONSE', 'Unexpected response from ADX management endpoint')
+    }
+    return parseV1Response(body as KustoV1Response)
+  }
+
+  async cancelQuery(database: string, clientRequestId: string): Promise<void> {
+    const escapedId = clientRequestId.replace(/\\/g, '\\\\').replace(/"/g, '\\"')
+    await this.executeMgmt(database, `.cancel query "${escapedId}"`)
+  }
+
+  private async streamQuery(
+    database: string,
+    csl: string,
+    options: KustoRequestOptions,
+    onProgress: (dataSet: KustoDataSet, progress: number | null) => void
+  ): Promise<KustoDataSet> {
+    const properties: ClientRequestProperties = {
+      Options: { ...options.properties?.Options, results_progressive_enabled: true },
+      Parameters: { ...options.properties?.Parameters }
+    }
+    const response = await this.send('/v2/rest/query', database, csl, { ...options, properties })
+    if (!response.ok) {
+      // Errors before the first frame arrive as a regular JSON error body
+      await this.readBody(response, options.signal)
+    }
+    if (!response.body) {
+      throw new ADXQueryError('INVALID_RESPONSE', 'ADX returned an empty response')
+    }
+
+    const scanner = new KustoFrameScanner()
+    const builder = new KustoDataSetBuilder()
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        const frames = scanner.push(decoder.decode(value, { stream: true }))
+        frames.forEach(frame => builder.add(frame))
+        if (frames.length > 0) {
+          onProgress(builder.dataSet, builder.progress)
+        }
+      }
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new QueryCancelledError()
+      }
+      throw new ADXQueryError(
+        'NETWORK_ERROR',
+        'Connection to the cluster was lost while receiving results',
+        error instanceof Error ? error.message : String(error)
+      )
+    }
+
+    if (!scanner.isComplete) {
+      throw new ADXQueryError('INVALID_RESPONSE', 'ADX response ended before the result was complete')
+    }
+    return builder.dataSet
+  }
+
+  private async post(path: string, database: string, csl: string, options: KustoRequestOptions): Promise<any> {
+    const response = await this.send(path, database, csl, options)
+    return this.readBody(response, options.signal)
+  }
+
+  private async send(path: string, database: string, csl: string, options: KustoRequestOptions): Promise<Response> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Accept': 'application/json',
+      'x-ms-client-version': CLIENT_VERSION,
+      'x-ms-client-request-id': options.clientRequestId || createClientRequestId(),
+      'x-ms-app': options.application || 'corvus-adx-teams-app'
+    }
+
+    if (options.user) {
+      headers['x-ms-user'] = options.user
+    }
+
+    const token = await this.getAccessToken()
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`
+    }
+
+    try {
+      return await fetch(`${this.clusterUrl}${path}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          db: database,
+          csl,
+          ...(options.properties && { properties: JSON.stringify(options.properties) })
+        }),
+        signal: options.signal
+      })
+    } catch (error) {
+      throw this.toRequestError(error, options.signal)
+    }
+  }
+
+  private async readBody(response: Response, signal?: AbortSignal): Promise<any> {
+    let text: string
+    try {
+      text = await response.text()
+    } catch (error) {
+      throw this.toRequestError(error, signal)
+    }
+
+    let body: any = null
+    try {
+      body = text ? JSON.parse(text) : null
+    } catch {
+      if (!response.ok) {
+        throw new ADXQueryError(`HTTP_${response.status}`, text || response.statusText)
+      }
+      throw new ADXQueryError('INVALID_RESPONSE', 'ADX returned a response that is not valid JSON')
+    }
+
+    if (!response.ok) {
+      const error = body?.error
+      throw new ADXQueryError(
+        error?.code || `HTTP_${response.status}`,
+        error?.['@message'] || error?.message || response.statusText,
+        error?.['@type']
+      )
+    }
+
+    return body
+  }
+
+  private toRequestError(error: unknown, signal?: AbortSignal): Error {
+    if (signal?.aborted) {
+      return new QueryCancelledError()
+    }
+    return new ADXQueryError(
+      'NETWORK_ERROR',
+      `Could not reach ${this.clusterUrl}`,
+      error instanceof Error ? error.message : String(error)
+    )
+  }
+}
+
+export function createClientRequestId(): string {
+  return `corvus;${crypto.randomUUID()}`
+}
+
+export function isManagementCommand(csl: string): boolean {
+  return csl.trim().startsWith('.')
+}
+
+export function parseV2Response(frames: KustoV2Frame[]): KustoDataSet {
+  const builder = new KustoDataSetBuilder()
+  frames.forEach(frame => builder.add(frame))
+  return builder.dataSet
+}
+
+export function parseV1Response(response: KustoV1Response): KustoDataSet {
+  return {
+    tables: response.Tables.map((table, index) => ({
+      id: index,
+      name: table.TableName,
+      // The first v1 table of a management command is its result
+      kind: index === 0 ? 'PrimaryResult' : 'Unknown',
+      columns: table.Columns,
+      rows: table.Rows
+    })),
+    hasErrors: false,
+    cancelled: false,
+    errors: []
+  }
+}
+
+export function getPrimaryResult(dataSet: KustoDataSet): KustoTable | null {
+  return getPrimaryResults(dataSet)[0] || null
+}
+
+// A batch (';' separated statements, fork, or 'as'-named results) yields one PrimaryResult table per result
+export function getPrimaryResults(dataSet: KustoDataSet): KustoTable[] {
+  return dataSet.tables.filter(table => table.kind === 'PrimaryResult')
+}
+
+export function tableToObjects(table: KustoTable): any[] {
+  return table.rows.map(row => {
+    const record: any = {}
+    table.columns.forEach((column, index) => {
+      const value = row[index]
+      record[column.ColumnName] = column.ColumnType === 'datetime' && typeof value === 'string'
+        ? new Date(value)
+        : value
+    })
+    return record
+  })
+}
+
+// Result set truncation (default 500,000 records / 64 MB) is reported as a partial-query failure
+export function isTruncationError(error: KustoOneApiError): boolean {
+  const text = `${error.error.code} ${error.error['@message'] || error.error.message}`
+  return /E_QUERY_RESULT_SET_TOO_LARGE|result set has exceeded/i.test(text)
+}
+
+export function getCompletionWarnings(dataSet: KustoDataSet): { code: string; message: string }[] {
+  const completion = dataSet.tables.find(table => table.kind === 'QueryCompletionInformation')
+  if (!completion) {
+    return []
+  }
+
+  const column = (name: string) => completion.columns.findIndex(c => c.ColumnName === name)
+  const levelName = column('LevelName')
+  const statusCodeName = column('StatusCodeName')
+  const payload = column('Payload')
+
+  return completion.rows
+    .filter(row => row[levelName] === 'Warning')
+    .map(row => {
+      let message = String(row[payload] ?? '')
+      try {
+        message = JSON.parse(message).Text || message
+      } catch {
+        // Payload is not always JSON
+      }
+      return { code: String(row[statusCodeName] ?? 'Warning'), message }
+    })
+}
+
+export function normalizeColumnType(type: string): KustoColumnType {
+  return CLR_TYPE_MAP[type] || (type.toLowerCase() as KustoColumnType)
+}
+
+export function formatKustoError(error: KustoOneApiError): string {
+  return error.error['@message'] || error.error.message || error.error.code
+}
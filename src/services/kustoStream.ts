@@ -0,0 +1,142 @@
+import { KustoDataSet, KustoV2Frame } from '../types/kusto'
+
+// Pulls complete frames out of a v2 response body as it arrives. The body is a
+// single JSON array, so each top-level object inside it is one frame.
+export class KustoFrameScanner {
+  private buffer = ''
+  private depth = 0
+  private inString = false
+  private escaped = false
+  private frameStart = -1
+  private position = 0
+
+  push(chunk: string): KustoV2Frame[] {
+    const frames: KustoV2Frame[] = []
+    this.buffer += chunk
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position]
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false
+        else if (char === '\\') this.escaped = true
+        else if (char === '"') this.inString = false
+        continue
+      }
+
+      if (char === '"') {
+        this.inString = true
+      } else if (char === '{' || char === '[') {
+        // Depth 1 is the outer array; frames are the objects directly inside it
+        if (char === '{' && this.depth === 1) {
+          this.frameStart = this.position
+        }
+        this.depth++
+      } else if (char === '}' || char === ']') {
+        this.depth--
+        if (char === '}' && this.depth === 1 && this.frameStart >= 0) {
+          frames.push(JSON.parse(this.buffer.substring(this.frameStart, this.position + 1)))
+          this.frameStart = -1
+        }
+      }
+    }
+
+    // Keep only the unfinished frame so the buffer does not grow with the response
+    const keepFrom = this.frameStart >= 0 ? this.frameStart : this.buffer.length
+    this.buffer = this.buffer.substring(keepFrom)
+    this.position -= keepFrom
+    if (this.frameStart >= 0) {
+      this.frameStart = 0
+    }
+
+    return frames
+  }
+
+  get isComplete(): boolean {
+    return this.depth === 0 && this.frameStart < 0
+  }
+}
+
+// Accumulates frames into a data set; works for both progressive and non-progressive responses
+export class KustoDataSetBuilder {
+  readonly dataSet: KustoDataSet = {
+    tables: [],
+    hasErrors: false,
+    cancelled: false,
+    errors: []
+  }
+  progress: number | null = null
+
+  add(frame: KustoV2Frame): void {
+    switch (frame.FrameType) {
+      case 'DataSetHeader':
+        if (!frame.Version?.startsWith('v2')) {
+          console.warn(`Unexpected Kusto data set version: ${frame.Version}`)
+        }
+        break
+
+      case 'DataTable':
+        this.dataSet.tables.push({
+          id: frame.TableId,
+          name: frame.TableName,
+          kind: frame.TableKind,
+          columns: frame.Columns,
+          rows: this.collectRows(frame.Rows)
+        })
+        break
+
+      case 'TableHeader':
+        this.dataSet.tables.push({
+          id: frame.TableId,
+          name: frame.TableName,
+          kind: frame.TableKind,
+          columns: frame.Columns,
+          rows: []
+        })
+        break
+
+      case 'TableFragment': {
+        const table = this.dataSet.tables.find(t => t.id === frame.TableId)
+        if (!table) break
+        const rows = this.collectRows(frame.Rows)
+        if (frame.TableFragmentType === 'DataReplace') {
+          table.rows = rows
+        } else {
+          table.rows.push(...rows)
+        }
+        break
+      }
+
+      case 'TableProgress':
+        this.progress = frame.TableProgress
+        break
+
+      case 'TableCompletion':
+        if (frame.OneApiErrors) {
+          this.dataSet.errors.push(...frame.OneApiErrors)
+        }
+        break
+
+      case 'DataSetCompletion':
+        this.dataSet.hasErrors = frame.HasErrors
+        this.dataSet.cancelled = frame.Cancelled
+        if (frame.OneApiErrors) {
+          this.dataSet.errors.push(...frame.OneApiErrors)
+        }
+        break
+    }
+  }
+
+  private collectRows(rows: (any[] | { OneApiErrors: any[] })[]): any[][] {
+    const collected: any[][] = []
+    for (const row of rows) {
+      // A row can be replaced by an error object when the query fails mid-stream
+      if (Array.isArray(row)) {
+        collected.push(row)
+      } else if (row && Array.isArray(row.OneApiErrors)) {
+        this.dataSet.errors.push(...row.OneApiErrors)
+      }
+    }
+    return collected
+  }
+}
@@ -0,0 +1,72 @@
+// Tokens, latency and estimated cost of one model call, as reported by the API (api/src/functions/nl2kql.js)
+export interface LLMUsage {
+  provider: string
+  model: string
+  promptTokens: number | null
+  completionTokens: number | null
+  totalTokens: number | null
+  latencyMs: number
+  // USD; null when the API does not know the model's price
+  estimatedCost: number | null
+}
+
+export type LLMBudgetState = 'ok' | 'warning' | 'exceeded'
+
+// This month's spend as the API counts it from its usage records
+export interface LLMBudgetStatus {
+  // Calendar month (UTC) the spend is for, e.g. "2026-10"
+  month: string
+  spent: number
+  tokens: number
+  calls: number
+  // USD, or null when no LLM_MONTHLY_BUDGET is set
+  budget: number | null
+  state: LLMBudgetState
+}
+
+export type UsageGrouping = 'day' | 'user'
+
+// Model calls this month grouped by day (YYYY-MM-DD, UTC) or caller, from the API's usage records
+export interface UsageBreakdown {
+  key: string
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  estimatedCost: number
+  averageLatency: number
+}
+
+export interface UsageReport {
+  budget: LLMBudgetStatus
+  breakdown: UsageBreakdown[]
+}
+
+function isBudgetStatus(status: any): status is LLMBudgetStatus {
+  return (
+    typeof status === 'object' &&
+    status !== null &&
+    typeof status.month === 'string' &&
+    typeof status.spent === 'number' &&
+    ['ok', 'warning', 'exceeded'].includes(status.state)
+  )
+}
+
+// The budget status the API last reported; the API records every model call and refuses them past LLM_MONTHLY_BUDGET
+class LLMBudget {
+  private status: LLMBudgetStatus | null = null
+
+  update(status: unknown): void {
+    if (!isBudgetStatus(status)) return
+
+    this.status = status
+    if (status.state !== 'ok' && status.budget !== null) {
+      console.warn(`💸 LLM spend this month: $${status.spent.toFixed(2)} of $${status.budget.toFixed(2)}`)
+    }
+  }
+
+  getStatus(): LLMBudgetStatus | null {
+    return this.status
+  }
+}
+
+export const llmBudget = new LLMBudget()
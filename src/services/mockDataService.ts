@@ -1,3 +1,9 @@
+import { ColumnDescriptor, KustoColumnType } from '../types/kusto'
+import { QueryParameterValue } from './adxService'
+import { ADXQueryError } from '../utils/errorHandler'
+import { bindParameters } from '../utils/queryParameters'
+import { readBracketed, replaceIdentifiers, splitTopLevel, stripComments } from '../utils/kqlText'
+
 export interface VesselInfo {
   vesselId: string
   vesselName: string
@@ -27,6 +33,7 @@ export interface BatteryReading {
 
 export interface MockSchema {
   tableName: string
+  description?: string
   columns: {
     name: string
     type: string
@@ -107,10 +114,31 @@ export interface KQLQuery {
 }
 
 export interface KQLOperation {
-  type: 'where' | 'summarize' | 'project' | 'extend' | 'join' | 'union' | 'distinct' | 'top' | 'sort' | 'bin'
+  type: 'where' | 'summarize' | 'project' | 'extend' | 'join' | 'union' | 'distinct' | 'top' | 'sort' | 'bin' | 'as' | 'fork'
   parameters: any
 }
 
+export interface MockResultTable {
+  name: string
+  rows: any[]
+  // Tables the rows were read from, used to look up declared column types
+  sourceTables: string[]
+  // Expressions behind computed columns, e.g. count_ is count() and currentHealth is avg(batteryHealth)
+  columnExpressions?: Record<string, string>
+}
+
+const MOCK_TABLE_NAMES = ['batteryreadings', 'vesselinfo', 'vesselmaintenance', 'weatherdata', 'navigationdata', 'alertsandevents']
+
+// Mock databases and the tables each exposes; any other database name sees every table
+const MOCK_DATABASES: Record<string, string[]> = {
+  VesselBatteryTestDB: ['BatteryReadings', 'VesselInfo', 'VesselMaintenance', 'WeatherData', 'NavigationData', 'AlertsAndEvents'],
+  FleetOperations: ['VesselInfo', 'VesselMaintenance', 'AlertsAndEvents'],
+  MarineConditions: ['WeatherData', 'NavigationData']
+}
+
+const ALL_READINGS_CACHE_KEY = 'all'
+const READINGS_CACHE_TTL_MS = 60 * 60 * 1000
+
 class MockDataService {
   private vessels: VesselInfo[] = []
   private dataCache: Map<string, BatteryReading[]> = new Map()
@@ -119,6 +147,7 @@ class MockDataService {
   private navigationCache: Map<string, NavigationData[]> = new Map()
   private eventsCache: Map<string, AlertsAndEvents[]> = new Map()
   private schemaCache: MockSchema[] | null = null
+  private readingsGeneratedAt = 0
 
   constructor() {
     this.initializeVesselFleet()
@@ -618,7 +647,39 @@ class MockDataService {
     return readings.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
   }
 
-  async getMockSchema(): Promise<MockSchema[]> {
+  async getMockSchema(database?: string): Promise<MockSchema[]> {
+    const schema = this.getFullMockSchema()
+    const tables = database ? MOCK_DATABASES[database] : undefined
+    return tables ? schema.filter(table => tables.includes(table.tableName)) : schema
+  }
+
+  getMockDatabases(): string[] {
+    return Object.keys(MOCK_DATABASES)
+  }
+
+  async getMockSampleValues(tableName: string, columns: string[], limit: number): Promise<Record<string, string[]>> {
+    const rows = (await this.getTableData(tableName)).slice(0, 1000)
+    return Object.fromEntries(columns.map(column => {
+      const values = new Set<string>()
+      for (const row of rows) {
+        if (values.size >= limit) break
+        if (row[column] !== null && row[column] !== undefined && row[column] !== '') {
+          values.add(String(row[column]))
+        }
+      }
+      return [column, [...values]]
+    }))
+  }
+
+  async getMockTableRowCounts(database?: string): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {}
+    for (const table of await this.getMockTables(database)) {
+      counts[table] = (await this.getTableData(table)).length
+    }
+    return counts
+  }
+
+  private getFullMockSchema(): MockSchema[] {
     if (this.schemaCache) {
       return this.schemaCache
     }
@@ -626,6 +687,7 @@ class MockDataService {
     this.schemaCache = [
       {
         tableName: 'BatteryReadings',
+        description: 'Battery sensor readings per vessel and battery bank, every few minutes',
         columns: [
           { name: 'timestamp', type: 'datetime', description: 'Reading timestamp' },
           { name: 'vesselId', type: 'string', description: 'Unique vessel identifier' },
@@ -644,6 +706,7 @@ class MockDataService {
       },
       {
         tableName: 'VesselInfo',
+        description: 'One row per vessel with its type and battery system',
         columns: [
           { name: 'vesselId', type: 'string', description: 'Unique vessel identifier' },
           { name: 'vesselName', type: 'string', description: 'Human-readable vessel name' },
@@ -655,6 +718,7 @@ class MockDataService {
       },
       {
         tableName: 'VesselMaintenance',
+        description: 'Scheduled and completed maintenance work on vessel components',
         columns: [
           { name: 'maintenanceId', type: 'string', description: 'Unique maintenance record identifier' },
           { name: 'vesselId', type: 'string', description: 'Vessel identifier' },
@@ -674,6 +738,7 @@ class MockDataService {
       },
       {
         tableName: 'WeatherData',
+        description: 'Weather and sea conditions along the vessel routes',
         columns: [
           { name: 'timestamp', type: 'datetime', description: 'Weather observation timestamp' },
           { name: 'latitude', type: 'real', description: 'Location latitude' },
@@ -691,6 +756,7 @@ class MockDataService {
       },
       {
         tableName: 'NavigationData',
+        description: 'Vessel positions, speed, heading and route',
         columns: [
           { name: 'timestamp', type: 'datetime', description: 'Navigation data timestamp' },
           { name: 'vesselId', type: 'string', description: 'Vessel identifier' },
@@ -710,6 +776,7 @@ class MockDataService {
       },
       {
         tableName: 'AlertsAndEvents',
+        description: 'Alerts and events raised by vessel systems, with acknowledgement and resolution',
         columns: [
           { name: 'eventId', type: 'string', description: 'Unique event identifier' },
           { name: 'timestamp', type: 'datetime', description: 'Event timestamp' },
@@ -731,8 +798,8 @@ class MockDataService {
     return this.schemaCache
   }
 
-  async getMockTables(): Promise<string[]> {
-    const schema = await this.getMockSchema()
+  async getMockTables(database?: string): Promise<string[]> {
+    const schema = await this.getMockSchema(database)
     return schema.map(table => table.tableName)
   }
 
@@ -740,49 +807,178 @@ class MockDataService {
     return [...this.vessels]
   }
 
-  async executeKQLQuery(kqlQuery: string): Promise<any[]> {
-    const parsedQuery = this.parseKQLStatement(kqlQuery)
-    let result = await this.getTableData(parsedQuery.table)
+  async describeResultColumns(table: MockResultTable): Promise<ColumnDescriptor[]> {
+    const schema = await this.getMockSchema()
+    const rows = table.rows
+    const sourceTables = table.sourceTables.map(name => name.toLowerCase())
+
+    const declaredTypes = new Map<string, KustoColumnType>()
+    schema
+      .filter(table => sourceTables.includes(table.tableName.toLowerCase()))
+      .forEach(table => {
+        table.columns.forEach(column => {
+          if (!declaredTypes.has(column.name)) {
+            declaredTypes.set(column.name, column.type as KustoColumnType)
+          }
+        })
+      })
 
-    // Apply operations in sequence
-    for (const operation of parsedQuery.operations) {
-      result = await this.applyKQLOperation(result, operation)
+    const columnNames = rows.length > 0 ? Object.keys(rows[0]) : []
+    return columnNames.map(name => {
+      const computed = table.columnExpressions?.[name]
+      return {
+        name,
+        type: computed
+          ? this.inferColumnType(name, rows, declaredTypes, computed)
+          : declaredTypes.get(name) || this.inferColumnType(name, rows, declaredTypes)
+      }
+    })
+  }
+
+  private inferColumnType(name: string, rows: any[], declaredTypes: Map<string, KustoColumnType>, source: string = name): KustoColumnType {
+    // Computed columns keep their expression as the name, e.g. "avg(voltage)" or "bin(timestamp, 1h)",
+    // unless summarize named them (source is then the aggregate they came from)
+    const expression = source.includes('=') ? source.substring(source.indexOf('=') + 1).trim() : source
+    const functionMatch = expression.match(/^(\w+)\(\s*([^,)]*)/)
+    if (functionMatch) {
+      const [, func, argument] = functionMatch
+      const argumentType = declaredTypes.get(argument.trim())
+
+      switch (func.toLowerCase()) {
+        case 'count':
+        case 'dcount':
+        case 'countif':
+        case 'dcountif':
+          return 'long'
+        case 'avg':
+        case 'sum':
+        case 'stdev':
+        case 'variance':
+        case 'percentile':
+          return 'real'
+        case 'min':
+        case 'max':
+        case 'bin':
+          if (argumentType) return argumentType
+          break
+        case 'make_list':
+        case 'make_set':
+          return 'dynamic'
+      }
     }
 
-    return result
+    const sample = rows.find(row => row[name] !== null && row[name] !== undefined)?.[name]
+    if (sample instanceof Date) return 'datetime'
+    if (typeof sample === 'boolean') return 'bool'
+    if (typeof sample === 'number') return Number.isInteger(sample) ? 'long' : 'real'
+    if (typeof sample === 'object' && sample !== undefined) return 'dynamic'
+    return 'string'
   }
 
-  private parseKQLStatement(kqlQuery: string): KQLQuery {
-    const lines = kqlQuery.split('\n').map(line => line.trim()).filter(line => line)
-    const operations: KQLOperation[] = []
-    
-    // Extract table name from first line
-    const firstLine = lines[0]
-    const tableName = firstLine.split(/\s/)[0]
-
-    // Parse each subsequent line as an operation
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i]
-      if (line.startsWith('|')) {
-        const operation = this.parseKQLOperation(line.substring(1).trim())
-        if (operation) {
-          operations.push(operation)
+  // Runs a query batch: ';' separated statements, with 'let' bindings, 'as' names and 'fork' branches
+  async executeKQLQuery(kqlQuery: string, parameters: Record<string, QueryParameterValue> = {}): Promise<MockResultTable[]> {
+    // The mock engine has no parameter binding, so declared parameters are inlined as literals
+    let boundQuery: string
+    try {
+      boundQuery = bindParameters(kqlQuery, parameters)
+    } catch (error) {
+      throw new ADXQueryError('SEMANTIC_ERROR', error instanceof Error ? error.message : String(error))
+    }
+
+    const statements = splitTopLevel(stripComments(boundQuery), ';')
+      .map(statement => statement.trim())
+      .filter(Boolean)
+    const bindings = new Map<string, MockResultTable>()
+    const scalars = new Map<string, string>()
+    const results: { name?: string; table: MockResultTable }[] = []
+
+    for (const rawStatement of statements) {
+      const statement = replaceIdentifiers(rawStatement, scalars)
+      const letMatch = statement.match(/^let\s+(\w+)\s*=\s*([\s\S]+)$/i)
+
+      if (letMatch) {
+        const [, name, value] = letMatch
+        const expression = value.trim().replace(/^materialize\s*\(([\s\S]*)\)$/i, '$1').trim()
+        if (this.isTabularExpression(expression, bindings)) {
+          const [bound] = await this.evaluateTabularExpression(expression, bindings)
+          bindings.set(name, bound.table)
+        } else {
+          scalars.set(name, expression)
         }
+        continue
       }
+
+      results.push(...await this.evaluateTabularExpression(statement, bindings))
     }
 
-    // Also check if the first line contains operations after the table name
-    const firstLineRest = firstLine.substring(tableName.length).trim()
-    if (firstLineRest.startsWith('|')) {
-      const restLines = firstLineRest.split('|').filter(part => part.trim())
-      for (const part of restLines) {
-        const operation = this.parseKQLOperation(part.trim())
-        if (operation) {
-          operations.push(operation)
+    // Unnamed results follow Kusto's v1 naming when a batch returns more than one table
+    return results.map(({ name, table }, index) => ({
+      ...table,
+      name: name || (results.length === 1 ? 'PrimaryResult' : `Table_${index}`)
+    }))
+  }
+
+  private isTabularExpression(expression: string, bindings: Map<string, MockResultTable>): boolean {
+    const source = expression.split(/[\s|]/)[0]
+    return bindings.has(source) || MOCK_TABLE_NAMES.includes(source.toLowerCase())
+  }
+
+  private async evaluateTabularExpression(
+    expression: string,
+    bindings: Map<string, MockResultTable>
+  ): Promise<{ name?: string; table: MockResultTable }[]> {
+    const parsedQuery = this.parseKQLStatement(expression)
+    const source = await this.resolveTable(parsedQuery.table, bindings)
+    let table: MockResultTable = { ...source, rows: [...source.rows] }
+    let name: string | undefined
+
+    for (const operation of parsedQuery.operations) {
+      if (operation.type === 'as') {
+        // 'as' names the result and makes it referable by later statements
+        name = operation.parameters.name
+        bindings.set(operation.parameters.name, table)
+        continue
+      }
+
+      if (operation.type === 'fork') {
+        // fork is always the last operator; each branch yields its own result table
+        const branches: { name: string; operations: KQLOperation[] }[] = operation.parameters.branches
+        const forked: { name?: string; table: MockResultTable }[] = []
+        for (const branch of branches) {
+          let branchTable: MockResultTable = { ...table, rows: [...table.rows] }
+          for (const branchOperation of branch.operations) {
+            branchTable = await this.applyKQLOperation(branchTable, branchOperation, bindings)
+          }
+          forked.push({ name: branch.name, table: branchTable })
         }
+        return forked
       }
+
+      table = await this.applyKQLOperation(table, operation, bindings)
     }
 
+    return [{ name, table }]
+  }
+
+  private async resolveTable(tableName: string, bindings: Map<string, MockResultTable>): Promise<MockResultTable> {
+    const bound = bindings.get(tableName)
+    if (bound) {
+      return bound
+    }
+    return { name: tableName, rows: await this.getTableData(tableName), sourceTables: [tableName] }
+  }
+
+  private parseKQLStatement(kqlQuery: string): KQLQuery {
+    // Pipes inside strings or brackets (e.g. fork branches) belong to the enclosing operator
+    const parts = splitTopLevel(kqlQuery, '|')
+      .map(part => part.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+
+    const tableName = parts[0].split(/\s/)[0]
+    const operations = parts.slice(1)
+      .map(part => this.parseKQLOperation(part))
+      .filter((operation): operation is KQLOperation => operation !== null)
+
     return { table: tableName, operations }
   }
 
@@ -825,6 +1021,12 @@ class MockDataService {
             orderBy: topMatch?.[2]?.trim()
           }
         }
+      case 'take':
+      case 'limit':
+        return {
+          type: 'top',
+          parameters: { count: parseInt(parts[1]) || 10 }
+        }
       case 'sort':
       case 'order':
         return {
@@ -846,6 +1048,17 @@ class MockDataService {
           type: 'union',
           parameters: this.parseUnionOperation(operationText)
         }
+      case 'as':
+        // Hints such as "hint.materialized=true" may precede the name
+        return {
+          type: 'as',
+          parameters: { name: parts[parts.length - 1] }
+        }
+      case 'fork':
+        return {
+          type: 'fork',
+          parameters: { branches: this.parseForkOperation(operationText.substring(4)) }
+        }
       default:
         return null
     }
@@ -855,10 +1068,36 @@ class MockDataService {
     const content = operationText.substring(9).trim() // Remove 'summarize'
     const parts = content.split(/\s+by\s+/i)
     
+    // Commas inside function calls, e.g. bin(timestamp, 1h), do not separate columns
     return {
-      aggregations: parts[0].split(',').map(a => a.trim()),
-      groupBy: parts.length > 1 ? parts[1].split(',').map(g => g.trim()) : []
+      aggregations: splitTopLevel(parts[0], ',').map(a => a.trim()),
+      groupBy: parts.length > 1 ? splitTopLevel(parts[1], ',').map(g => g.trim()) : []
+    }
+  }
+
+  private parseForkOperation(branchesText: string): { name: string; operations: KQLOperation[] }[] {
+    const branches: { name: string; operations: KQLOperation[] }[] = []
+    const branchStart = /\s*(?:(\w+)\s*=\s*)?\(/y
+    let position = 0
+
+    while (position < branchesText.length) {
+      branchStart.lastIndex = position
+      const match = branchStart.exec(branchesText)
+      if (!match) break
+
+      const bracketed = readBracketed(branchesText, branchStart.lastIndex - 1)
+      if (!bracketed) break
+
+      branches.push({
+        name: match[1] || `GenericResult_${branches.length}`,
+        operations: splitTopLevel(bracketed.content, '|')
+          .map(part => this.parseKQLOperation(part.replace(/\s+/g, ' ').trim()))
+          .filter((operation): operation is KQLOperation => operation !== null)
+      })
+      position = bracketed.end + 1
     }
+
+    return branches
   }
 
   private parseJoinOperation(operationText: string): any {
@@ -910,11 +1149,40 @@ class MockDataService {
       case 'alertsandevents':
         return this.getAllEventsData()
       default:
-        throw new Error(`Unknown table: ${tableName}`)
+        // Same wording as Kusto's semantic error, so generated queries can be repaired from it
+        throw new ADXQueryError('SEMANTIC_ERROR', `Failed to resolve table or column expression named '${tableName}'`)
     }
   }
 
-  private async applyKQLOperation(data: any[], operation: KQLOperation): Promise<any[]> {
+  private async applyKQLOperation(
+    table: MockResultTable,
+    operation: KQLOperation,
+    bindings: Map<string, MockResultTable>
+  ): Promise<MockResultTable> {
+    if (operation.type === 'join' || operation.type === 'union') {
+      const other = await this.resolveTable(operation.parameters.table, bindings)
+      const rows = operation.type === 'join'
+        ? this.applyJoinOperation(table.rows, other.rows, operation.parameters)
+        : this.applyUnionOperation(table.rows, other.rows)
+      return { ...table, rows, sourceTables: [...table.sourceTables, ...other.sourceTables] }
+    }
+
+    if (operation.type === 'summarize') {
+      // Output columns are named count_, avg_voltage or by assignment, so their aggregates are kept for typing
+      const columnExpressions: Record<string, string> = {}
+      for (const item of [...operation.parameters.groupBy, ...operation.parameters.aggregations] as string[]) {
+        const column = this.getSummarizeColumn(item)
+        if (column.expression !== column.name) {
+          columnExpressions[column.name] = column.expression
+        }
+      }
+      return { ...table, rows: this.applyRowOperation(table.rows, operation), columnExpressions }
+    }
+
+    return { ...table, rows: this.applyRowOperation(table.rows, operation) }
+  }
+
+  private applyRowOperation(data: any[], operation: KQLOperation): any[] {
     switch (operation.type) {
       case 'where':
         return this.applyWhereOperation(data, operation.parameters.condition)
@@ -932,10 +1200,6 @@ class MockDataService {
         return this.applyExtendOperation(data, operation.parameters.expression)
       case 'bin':
         return this.applyBinOperation(data, operation.parameters.expression)
-      case 'join':
-        return await this.applyJoinOperation(data, operation.parameters)
-      case 'union':
-        return await this.applyUnionOperation(data, operation.parameters)
       default:
         return data
     }
@@ -970,10 +1234,16 @@ class MockDataService {
       return this.evaluateComplexCondition(row, parenMatch[1])
     }
 
-    // Handle NOT conditions
-    if (condition.trim().startsWith('not ')) {
-      const innerCondition = condition.trim().substring(4)
-      return !this.evaluateComplexCondition(row, innerCondition)
+    // Handle NOT conditions, written as not(...) or with a space
+    const notMatch = condition.trim().match(/^not(\s*\(.+\)|\s.+)$/)
+    if (notMatch) {
+      return !this.evaluateComplexCondition(row, notMatch[1].trim())
+    }
+
+    // A bare boolean column, e.g. resolved
+    const columnMatch = condition.trim().match(/^\w+$/)
+    if (columnMatch && typeof row[columnMatch[0]] === 'boolean') {
+      return row[columnMatch[0]]
     }
 
     // Handle IN conditions
@@ -1027,6 +1297,10 @@ class MockDataService {
     if (condition.includes('ago(')) {
       return this.evaluateTimeCondition(row, condition)
     }
+
+    if (condition.includes('datetime(')) {
+      return this.evaluateDateTimeCondition(row, condition)
+    }
     
     const equalityMatch = condition.match(/(\w+)\s*==\s*["']([^"']+)["']/)
     if (equalityMatch) {
@@ -1185,6 +1459,34 @@ class MockDataService {
     return true
   }
 
+  private evaluateDateTimeCondition(row: any, condition: string): boolean {
+    const betweenMatch = condition.match(/(\w+)\s+between\s*\(\s*datetime\(([^)]+)\)\s*\.\.\s*datetime\(([^)]+)\)\s*\)/)
+    if (betweenMatch) {
+      const [, field, start, end] = betweenMatch
+      const rowTime = new Date(row[field]).getTime()
+      return rowTime >= new Date(start).getTime() && rowTime <= new Date(end).getTime()
+    }
+
+    const comparisonMatch = condition.match(/(\w+)\s*([><=!]+)\s*datetime\(([^)]+)\)/)
+    if (comparisonMatch) {
+      const [, field, operator, value] = comparisonMatch
+      const rowTime = new Date(row[field]).getTime()
+      const compareTime = new Date(value).getTime()
+
+      switch (operator) {
+        case '>=': return rowTime >= compareTime
+        case '>': return rowTime > compareTime
+        case '<=': return rowTime <= compareTime
+        case '<': return rowTime < compareTime
+        case '==': return rowTime === compareTime
+        case '!=': return rowTime !== compareTime
+        default: return true
+      }
+    }
+
+    return true
+  }
+
   private applyProjectOperation(data: any[], columns: string[]): any[] {
     return data.map(row => {
       const projected: any = {}
@@ -1195,16 +1497,45 @@ class MockDataService {
     })
   }
 
+  // Output column of a summarize aggregate or key: "name = expr" keeps its name, anything else gets Kusto's default
+  private getSummarizeColumn(item: string): { name: string; expression: string } {
+    const assignment = item.match(/^([A-Za-z_]\w*)\s*=(?!=)\s*([\s\S]+)$/)
+    if (assignment) {
+      return { name: assignment[1], expression: assignment[2].trim() }
+    }
+
+    const call = item.match(/^(\w+)\(\s*([^,)]*?)\s*(?:,\s*([^)]*?)\s*)?\)$/)
+    if (!call) {
+      return { name: item, expression: item }
+    }
+    const [, func, argument, extra] = call
+    switch (func.toLowerCase()) {
+      case 'bin':
+        return { name: argument, expression: item }
+      case 'count':
+        return { name: argument ? `count_${argument}` : 'count_', expression: item }
+      case 'make_set':
+        return { name: `set_${argument}`, expression: item }
+      case 'make_list':
+        return { name: `list_${argument}`, expression: item }
+      case 'percentile':
+        return { name: `percentile_${argument}_${extra}`, expression: item }
+      default:
+        return { name: `${func}_${argument}`, expression: item }
+    }
+  }
+
   private applySummarizeOperation(data: any[], parameters: any): any[] {
-    const { aggregations, groupBy } = parameters
+    const aggregations = (parameters.aggregations as string[]).map(agg => this.getSummarizeColumn(agg))
+    const groupBy = (parameters.groupBy as string[]).map(key => this.getSummarizeColumn(key))
     
     if (groupBy.length === 0) {
       // Simple aggregation without grouping
       const result: any = {}
-      aggregations.forEach((agg: string) => {
-        const aggResult = this.calculateAggregation(data, agg)
+      aggregations.forEach(agg => {
+        const aggResult = this.calculateAggregation(data, agg.expression)
         if (aggResult !== null) {
-          result[agg] = aggResult
+          result[agg.name] = aggResult
         }
       })
       return [result]
@@ -1214,11 +1545,11 @@ class MockDataService {
     const groups = new Map<string, any[]>()
     
     data.forEach(row => {
-      const groupKey = groupBy.map((col: string) => {
-        if (col.includes('bin(')) {
-          return this.applyBinFunction(row, col)
+      const groupKey = groupBy.map(key => {
+        if (key.expression.includes('bin(')) {
+          return this.applyBinFunction(row, key.expression)
         }
-        return String(row[col])
+        return String(row[key.expression])
       }).join('|')
       
       if (!groups.has(groupKey)) {
@@ -1233,19 +1564,15 @@ class MockDataService {
       
       // Add group by columns to result
       const groupValues = groupKey.split('|')
-      groupBy.forEach((col: string, index: number) => {
-        if (col.includes('bin(')) {
-          result[col] = groupValues[index]
-        } else {
-          result[col] = groupValues[index]
-        }
+      groupBy.forEach((key, index) => {
+        result[key.name] = groupValues[index]
       })
       
       // Calculate aggregations for this group
-      aggregations.forEach((agg: string) => {
-        const aggResult = this.calculateAggregation(groupData, agg)
+      aggregations.forEach(agg => {
+        const aggResult = this.calculateAggregation(groupData, agg.expression)
         if (aggResult !== null) {
-          result[agg] = aggResult
+          result[agg.name] = aggResult
         }
       })
       
@@ -1254,11 +1581,8 @@ class MockDataService {
 
     return results.sort((a, b) => {
       // Sort by first group by column
-      if (groupBy.length > 0) {
-        const firstCol = groupBy[0]
-        return a[firstCol] < b[firstCol] ? -1 : a[firstCol] > b[firstCol] ? 1 : 0
-      }
-      return 0
+      const firstCol = groupBy[0].name
+      return a[firstCol] < b[firstCol] ? -1 : a[firstCol] > b[firstCol] ? 1 : 0
     })
   }
 
@@ -1418,7 +1742,7 @@ class MockDataService {
         ? [orderBy.replace(' desc', '').trim(), 'desc']
         : [orderBy.replace(' asc', '').trim(), 'asc']
       
-      data.sort((a, b) => {
+      data = [...data].sort((a, b) => {
         const aVal = a[field]
         const bVal = b[field]
         const comparison = aVal < bVal ? -1 : aVal > bVal ? 1 : 0
@@ -1482,11 +1806,8 @@ class MockDataService {
     return data
   }
 
-  private async applyJoinOperation(leftData: any[], parameters: any): Promise<any[]> {
-    const { kind, table, condition } = parameters
-    
-    // Get right table data
-    const rightData = await this.getTableData(table)
+  private applyJoinOperation(leftData: any[], rightData: any[], parameters: any): any[] {
+    const { kind, condition } = parameters
     
     if (!condition) {
       // Cross join (cartesian product)
@@ -1588,16 +1909,19 @@ class MockDataService {
     return result
   }
 
-  private async applyUnionOperation(leftData: any[], parameters: any): Promise<any[]> {
-    const { table } = parameters
-    const rightData = await this.getTableData(table)
-    
+  private applyUnionOperation(leftData: any[], rightData: any[]): any[] {
     // Simple union - combine all rows
     return [...leftData, ...rightData]
   }
 
+  // Kept for an hour so running the same query twice returns the same rows
   private getAllBatteryReadings(): BatteryReading[] {
     const now = new Date()
+    const cached = this.dataCache.get(ALL_READINGS_CACHE_KEY)
+    if (cached && now.getTime() - this.readingsGeneratedAt < READINGS_CACHE_TTL_MS) {
+      return cached
+    }
+
     const oneWeekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
     
     const allReadings: BatteryReading[] = []
@@ -1613,7 +1937,10 @@ class MockDataService {
       }
     })
     
-    return allReadings.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    allReadings.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    this.dataCache.set(ALL_READINGS_CACHE_KEY, allReadings)
+    this.readingsGeneratedAt = now.getTime()
+    return allReadings
   }
 
   private getAllMaintenanceRecords(): VesselMaintenance[] {
@@ -1,12 +1,55 @@
-import OpenAI from 'openai'
 import { adxService } from './adxService'
 import { mockDataService } from './mockDataService'
+import { authService, AZURE_OPENAI_SCOPE } from './authService'
+import { NLProcessingError, QueryCancelledError, VesselAmbiguityError } from '../utils/errorHandler'
+import { throwIfCancelled } from '../utils/cancellation'
+import {
+  QueryParameterDefinition,
+  deriveParameterDefinitions
+} from '../utils/queryParameters'
+import { KQLValidationResult, validateKQL } from '../utils/kqlValidator'
+import { SchemaTable, formatSchemaPrompt, groupSchemaRows, rankSchema } from '../utils/schemaRetrieval'
+import { FewShotExample, selectFewShotExamples } from '../utils/fewShotExamples'
+import { buildKQL, parseQuestion, selectTable, valuesFromDescriptions } from '../utils/nlQueryParser'
+import {
+  ResolvedTimeRange,
+  TimeExpressionOptions,
+  applyTimeRange,
+  describeTimeRangeForPrompt,
+  findTimeExpression
+} from '../utils/timeExpressions'
+import {
+  VesselMention,
+  VesselRecord,
+  applyVesselChoices,
+  describeVesselsForPrompt,
+  findVesselMentions,
+  isAmbiguous,
+  rewriteVesselFilters
+} from '../utils/vesselResolver'
+import { KQLExplanation, describeKQL } from '../utils/kqlExplainer'
+import { vesselBatteryTestScenarios } from '../utils/testScenarios'
+import { savedQueryStore } from './savedQueryStore'
+import { LLMUsage, UsageGrouping, UsageReport, llmBudget } from './llmBudget'
 
 export interface KQLConversionResult {
   kqlQuery: string
   explanation: string
   confidence: number
   suggestedVisualizations: string[]
+  parameters?: QueryParameterDefinition[]
+  // Static checks of kqlQuery against the schema, filled in before the result is returned
+  validation?: KQLValidationResult
+  // Tokens and cost of the model call; absent when the offline parser wrote the query
+  usage?: LLMUsage
+}
+
+export interface ConversionOptions {
+  signal?: AbortSignal
+  // Questions whose saved query or scenario must not be used as an example, e.g. the one being evaluated
+  excludeFromExamples?: string[]
+  // Vessels the user picked for ambiguous references, by the reference's lower-cased text
+  vesselChoices?: Record<string, string>
 }
 
 export interface SchemaContext {
@@ -14,51 +57,69 @@ export interface SchemaContext {
   schema: any[]
 }
 
+// One question/answer pair of the current conversation, sent along with follow-up questions
+export interface ConversationTurn {
+  question: string
+  kqlQuery: string
+  // Columns of the result, once the query has run
+  resultColumns: string[]
+}
+
+// A generated query that failed to run, with the error Kusto (or the mock engine) reported
+export interface RepairAttempt {
+  kqlQuery: string
+  error: string
+}
+
+export interface ModelInfo {
+  // LLM provider configured on the server: 'azure-openai', 'openai' or 'local'
+  provider: string | null
+  model: string | null
+  usingFallback: boolean
+}
+
+// Server-side proxy that owns the LLM provider settings (api/src/functions/nl2kql.js)
+const NL2KQL_ENDPOINT = import.meta.env.VITE_NL2KQL_ENDPOINT || '/api/nl2kql'
+// Earlier turns beyond this are dropped from the prompt
+const MAX_CONVERSATION_TURNS = 5
+// How often a failing generated query is sent back to the model before the error is shown;
+// 0 turns repair off, and a value that is not a whole number of attempts keeps the default
+const configuredRepairAttempts = Number(import.meta.env.VITE_KQL_REPAIR_ATTEMPTS || undefined)
+export const MAX_REPAIR_ATTEMPTS = Number.isInteger(configuredRepairAttempts) && configuredRepairAttempts >= 0 ? configuredRepairAttempts : 2
+// Approximate size of the schema section of the prompt; the API rejects schemas over 20000 characters
+const configuredSchemaBudget = import.meta.env.VITE_SCHEMA_TOKEN_BUDGET
+const SCHEMA_TOKEN_BUDGET = configuredSchemaBudget ? Number(configuredSchemaBudget) : 2500
+// Sample values are fetched for string columns of this many of the most relevant tables
+const SAMPLE_VALUE_TABLES = 3
+const SAMPLE_VALUE_COLUMNS = 6
+// Vessel references in questions are resolved against this table's names, ids and types
+const VESSEL_TABLE = 'VesselInfo'
+// Calendar phrases ("yesterday", "since Monday 06:00") are read in this zone unless the question names one
+const TIME_OPTIONS: TimeExpressionOptions = {
+  timeZone: import.meta.env.VITE_QUERY_TIME_ZONE || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  shiftHours: import.meta.env.VITE_SHIFT_HOURS ? Number(import.meta.env.VITE_SHIFT_HOURS) : undefined
+}
+
 class NLToKQLService {
-  private openai: OpenAI
   private schemaContext: SchemaContext | null = null
-
-  constructor() {
-    // Azure OpenAI configuration
-    const azureEndpoint = import.meta.env.VITE_AZURE_OPENAI_ENDPOINT
-    const azureApiKey = import.meta.env.VITE_AZURE_OPENAI_API_KEY
-    const azureModel = import.meta.env.VITE_AZURE_OPENAI_MODEL || 'gpt-35-turbo'
-    const azureApiVersion = import.meta.env.VITE_AZURE_OPENAI_API_VERSION || '2024-02-01'
-    
-    console.log('🔧 NL to KQL Service Initialization (Azure OpenAI)')
-    console.log('🔑 Azure API Key present:', !!azureApiKey)
-    console.log('🌐 Azure Endpoint configured:', !!azureEndpoint)
-    console.log('🎯 Model deployment:', azureModel)
-    console.log('📅 API Version:', azureApiVersion)
-    
-    // Initialize Azure OpenAI if configuration is present
-    if (azureEndpoint && azureApiKey && 
-        azureApiKey !== 'your-azure-openai-api-key-here' && 
-        azureEndpoint !== 'https://your-resource.openai.azure.com/') {
-      
-      this.openai = new OpenAI({
-        apiKey: azureApiKey,
-        baseURL: `${azureEndpoint.replace(/\/$/, '')}/openai/deployments/${azureModel}`,
-        defaultQuery: { 'api-version': azureApiVersion },
-        defaultHeaders: {
-          'api-key': azureApiKey,
-        },
-        dangerouslyAllowBrowser: true
-      })
-      
-      console.log('✅ Azure OpenAI initialized successfully')
-      console.log('🔑 Azure API Key configured:', azureApiKey.substring(0, 10) + '...')
-      console.log('🌐 Endpoint:', azureEndpoint.substring(0, 30) + '...')
-      console.log('🚀 DEFAULT MODE: Azure OpenAI-powered NL to KQL generation')
-    } else {
-      console.warn('❌ Azure OpenAI not configured or invalid. Using fallback KQL generation.')
-      console.warn('Required: VITE_AZURE_OPENAI_ENDPOINT and VITE_AZURE_OPENAI_API_KEY')
-      console.warn('⚠️ FALLBACK MODE: Pattern-based KQL generation')
-      this.openai = null as any // Will use fallback methods
-    }
-  }
+  // Cluster/database the schema context was loaded from
+  private schemaConnectionKey: string | null = null
+  // schemaContext grouped by table, for ranking against each question
+  private schemaTables: SchemaTable[] = []
+  // Distinct values already fetched, by table then column
+  private sampleValues: Record<string, Record<string, string[]>> = {}
+  // Rows of VESSEL_TABLE, loaded on the first question
+  private vessels: VesselRecord[] | null = null
+  private modelInfo: ModelInfo | null = null
+  private conversation: ConversationTurn[] = []
 
   async loadSchemaContext(): Promise<void> {
+    const connectionKey = this.getConnectionKey()
+    if (connectionKey !== this.schemaConnectionKey) {
+      // Follow-ups cannot refine queries against another database
+      this.startNewConversation()
+    }
+    this.schemaConnectionKey = connectionKey
     try {
       const [tables, schema] = await Promise.all([
         adxService.getTables(),
@@ -70,18 +131,42 @@ class NLToKQLService {
       console.error('Failed to load schema context:', error)
       this.schemaContext = { tables: [], schema: [] }
     }
+    this.schemaTables = groupSchemaRows(this.schemaContext.tables, this.schemaContext.schema)
+    this.sampleValues = {}
+    this.vessels = null
+  }
+
+  private getConnectionKey(): string | null {
+    const connection = adxService.getConnection()
+    return connection ? `${connection.clusterUrl}/${connection.database}` : null
+  }
+
+  // Switching connection profiles leaves the previous database's schema behind
+  private async ensureSchemaContext(): Promise<void> {
+    if (!this.schemaContext || this.schemaConnectionKey !== this.getConnectionKey()) {
+      await this.loadSchemaContext()
+    }
   }
 
-  private buildSchemaPrompt(): string {
-    if (!this.schemaContext) {
+  // Only the tables and columns that match the question, so large databases fit in the prompt
+  private async buildSchemaPrompt(naturalLanguageQuery: string): Promise<string> {
+    if (!this.schemaContext || this.schemaTables.length === 0) {
       return 'No database schema available.'
     }
 
-    const tablesInfo = this.schemaContext.tables.join(', ')
-    const schemaInfo = this.schemaContext.schema
-      .slice(0, 50) 
-      .map(col => `${col.TableName}.${col.ColumnName} (${col.DataType})`)
-      .join('\n')
+    const ranked = rankSchema(naturalLanguageQuery, this.schemaTables, this.conversation.map(turn => turn.kqlQuery))
+    const relevant = ranked.filter(entry => entry.score > 0).slice(0, SAMPLE_VALUE_TABLES)
+    await Promise.all(relevant.map(entry => this.loadSampleValues(
+      entry.table.name,
+      entry.columns
+        .filter(({ column }) => column.type === 'string')
+        .sort((a, b) => b.score - a.score)
+        .slice(0, SAMPLE_VALUE_COLUMNS)
+        .map(({ column }) => column.name)
+    )))
+
+    const schemaInfo = formatSchemaPrompt(ranked, { tokenBudget: SCHEMA_TOKEN_BUDGET, sampleValues: this.sampleValues })
+    console.log(`📚 Schema prompt: ${relevant.map(entry => entry.table.name).join(', ') || 'no matching tables'} (${schemaInfo.length} chars)`)
 
     // Add vessel battery specific context for mock mode
     const isUsingMockData = adxService.isMockMode()
@@ -115,243 +200,405 @@ Common Query Patterns:
     }
 
     return `
-Available tables: ${tablesInfo}
-
-Schema sample (first 50 columns):
 ${schemaInfo}
 ${additionalContext}
 `
   }
 
-  async convertToKQL(naturalLanguageQuery: string): Promise<KQLConversionResult> {
-    if (!this.schemaContext) {
-      await this.loadSchemaContext()
+  // Saved queries that ran and the built-in scenarios, most similar to the question first
+  private getFewShotExamples(naturalLanguageQuery: string, excludedQuestions: string[] = []): FewShotExample[] {
+    const candidates: FewShotExample[] = [
+      ...savedQueryStore.load()
+        .filter(query => query.executed)
+        .map(query => ({ question: query.naturalQuery, kqlQuery: query.kqlQuery, source: 'saved' as const })),
+      ...vesselBatteryTestScenarios
+        .map(scenario => ({ question: scenario.naturalQuery, kqlQuery: scenario.expectedKQL, source: 'scenario' as const }))
+    ]
+
+    // Examples written against another database would teach the model tables and columns that do not exist here
+    const excluded = new Set(excludedQuestions.map(question => question.trim().toLowerCase()))
+    const applicable = candidates
+      .filter(example => !excluded.has(example.question.trim().toLowerCase()))
+      .filter(example => !this.validateKQL(example.kqlQuery).issues
+        .some(issue => issue.code === 'UNKNOWN_TABLE' || issue.code === 'UNKNOWN_COLUMN'))
+    return selectFewShotExamples(naturalLanguageQuery, applicable)
+  }
+
+  private async loadSampleValues(tableName: string, columns: string[]): Promise<void> {
+    const cached = this.sampleValues[tableName] ?? {}
+    const missing = columns.filter(column => !(column in cached))
+    if (missing.length === 0) {
+      return
     }
 
-    console.log('🔄 Converting NL to KQL:', naturalLanguageQuery)
-    console.log('🤖 OpenAI available:', !!this.openai)
+    try {
+      const values = await adxService.getSampleValues(tableName, missing)
+      this.sampleValues[tableName] = { ...this.sampleValues[tableName], ...values }
+    } catch (error) {
+      // Samples only help the model; the prompt works without them
+      console.warn(`Failed to load sample values for ${tableName}:`, error)
+      this.sampleValues[tableName] = { ...cached, ...Object.fromEntries(missing.map(column => [column, []])) }
+    }
+  }
+
+  async convertToKQL(naturalLanguageQuery: string, options: ConversionOptions = {}): Promise<KQLConversionResult> {
+    const result = await this.requestConversion(naturalLanguageQuery, options)
+    result.validation = this.validateKQL(result.kqlQuery)
+
+    this.conversation = [
+      ...this.conversation,
+      { question: naturalLanguageQuery, kqlQuery: result.kqlQuery, resultColumns: [] }
+    ].slice(-MAX_CONVERSATION_TURNS)
+    return result
+  }
+
+  // Checks a query against the loaded schema without running it
+  validateKQL(kqlQuery: string): KQLValidationResult {
+    return validateKQL(kqlQuery, this.schemaContext)
+  }
 
-    const forceOpenAI = import.meta.env.VITE_FORCE_OPENAI === 'true' || true // Force enabled for testing
+  // Remembers which columns a query returned so follow-ups can refer to them
+  recordResultColumns(kqlQuery: string, columns: string[]): void {
+    const turn = this.conversation[this.conversation.length - 1]
+    if (turn && turn.kqlQuery === kqlQuery) {
+      turn.resultColumns = [...columns]
+    }
+  }
+
+  getConversation(): ConversationTurn[] {
+    return this.conversation.map(turn => ({ ...turn }))
+  }
+
+  startNewConversation(): void {
+    this.conversation = []
+  }
+
+  private async requestConversion(naturalLanguageQuery: string, options: ConversionOptions): Promise<KQLConversionResult> {
+    await this.ensureSchemaContext()
+    throwIfCancelled(options.signal)
+
+    // A vessel that could be one of several is asked about before any KQL is written
+    const vessels = await this.resolveVessels(naturalLanguageQuery, options.vesselChoices)
+    const ambiguous = vessels.filter(isAmbiguous)
+    if (ambiguous.length > 0) {
+      throw new VesselAmbiguityError(ambiguous)
+    }
+
+    console.log('🔄 Converting NL to KQL:', naturalLanguageQuery)
+    const forceOpenAI = import.meta.env.VITE_FORCE_OPENAI === 'true'
     console.log('🎯 Force OpenAI mode:', forceOpenAI)
 
-    // If Azure OpenAI is not available, use fallback method (unless forced)
-    if (!this.openai) {
+    const modelInfo = await this.getModelInfo()
+
+    // If no LLM provider is available, use fallback method (unless forced)
+    if (modelInfo.usingFallback) {
       if (forceOpenAI) {
-        throw new Error('Azure OpenAI is required but not properly configured. Please check your Azure OpenAI endpoint and API key in .env.local')
+        throw new Error('An LLM provider is required but not properly configured. Please check LLM_PROVIDER and its settings in the API settings')
       }
       console.log('⚠️ Using fallback KQL generation')
-      return this.generateFallbackKQL(naturalLanguageQuery)
+      return this.generateFallbackKQL(naturalLanguageQuery, vessels)
     }
 
-    console.log('🚀 Using Azure OpenAI-powered KQL generation')
+    console.log(`🚀 Using ${modelInfo.provider}-powered KQL generation`)
 
-    const systemPrompt = `You are an expert in Kusto Query Language (KQL) for Azure Data Explorer, specializing in maritime vessel battery monitoring systems.
-
-Database Schema:
-${this.buildSchemaPrompt()}
+    try {
+      console.log(`🤖 Requesting KQL from ${NL2KQL_ENDPOINT} (model: ${modelInfo.model})`)
+      console.log(`📝 Query: "${naturalLanguageQuery}"`, this.conversation.length > 0 ? `(follow-up to ${this.conversation.length} turns)` : '')
 
-Key Guidelines:
-1. Generate syntactically correct KQL queries using proper operators (|, where, project, summarize, etc.)
-2. Use EXACT table and column names from the schema provided above
-3. For vessel queries, use VesselInfo table first, then join or filter other tables
-4. For battery data, use BatteryReadings table with proper vesselId/vesselName filters
-5. For time-based queries, use appropriate time operators (ago(), startofday(), bin())
-6. Use string matching carefully: 'contains', 'startswith', 'endswith', 'matches regex'
-7. When filtering by letter/character patterns, use appropriate string functions
+      const examples = this.getFewShotExamples(naturalLanguageQuery, options.excludeFromExamples)
+      if (examples.length > 0) {
+        console.log(`📎 Few-shot examples: ${examples.map(example => `"${example.question}" (${example.source})`).join(', ')}`)
+      }
 
-Common Query Patterns:
-- Vessel filtering: VesselInfo | where vesselName startswith "A" | project vesselId, vesselName, vesselType
-- Battery data: BatteryReadings | where vesselName contains "Atlantic" | where timestamp >= ago(1d)
-- Health issues: BatteryReadings | where batteryHealth < 80 | summarize count() by vesselName
-- Maintenance: VesselMaintenance | where status == "pending" | project vesselName, component, priority
+      const timeRange = findTimeExpression(naturalLanguageQuery, TIME_OPTIONS)
+      const result = await this.postConversion({
+        query: naturalLanguageQuery,
+        schema: await this.buildSchemaPrompt(naturalLanguageQuery),
+        history: this.conversation,
+        examples: examples.map(({ question, kqlQuery }) => ({ question, kqlQuery })),
+        timeRange: timeRange ? describeTimeRangeForPrompt(timeRange) : undefined,
+        vessels: vessels.length > 0 ? describeVesselsForPrompt(vessels) : undefined
+      }, options.signal)
+      this.applyResolvedTimeRange(result, timeRange)
+      this.applyResolvedVessels(result, vessels)
+
+      console.log('✅ LLM response parsed successfully')
+      console.log('📊 Generated KQL:', result.kqlQuery.split('\n')[0] + '...')
+      console.log('🎯 Confidence:', result.confidence)
+
+      return result
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new QueryCancelledError()
+      }
+      // Past the monthly budget the API refuses, and the offline parser answers until the next month
+      if (error instanceof NLProcessingError && error.code === 'BUDGET_EXCEEDED' && !forceOpenAI) {
+        console.log('💸 Monthly LLM budget exceeded, using fallback KQL generation')
+        return this.generateFallbackKQL(naturalLanguageQuery, vessels)
+      }
+      if (error instanceof NLProcessingError) {
+        throw error
+      }
+      console.error('KQL generation request failed:', error)
+      // Fall back to the offline parser if the LLM provider fails
+      return this.generateFallbackKQL(naturalLanguageQuery, vessels)
+    }
+  }
 
-Return your response as a JSON object with:
-- kqlQuery: The complete, executable KQL query
-- explanation: Brief explanation of what the query does and returns
-- confidence: Your confidence level (0-1) in the query correctness
-- suggestedVisualizations: Array of suggested chart types (table, bar, line, pie, etc.)
+  /**
+   * Asks the model to correct a generated query that failed to run.
+   * attempts lists every failed version for this question, oldest first.
+   * Unlike convertToKQL there is no offline fallback; failures are thrown.
+   */
+  async repairKQL(naturalLanguageQuery: string, attempts: RepairAttempt[], options: ConversionOptions = {}): Promise<KQLConversionResult> {
+    await this.ensureSchemaContext()
+    throwIfCancelled(options.signal)
+
+    // The question being repaired is already the latest turn; only earlier turns are context
+    const latest = this.conversation[this.conversation.length - 1]
+    const isLatestTurn = latest?.question === naturalLanguageQuery
+    const history = isLatestTurn ? this.conversation.slice(0, -1) : this.conversation
+
+    console.log(`🔧 Repairing KQL after ${attempts.length} failed attempt(s):`, attempts[attempts.length - 1]?.error)
+    try {
+      const timeRange = findTimeExpression(naturalLanguageQuery, TIME_OPTIONS)
+      // The question was converted once already, so any ambiguous vessel has been picked
+      const vessels = (await this.resolveVessels(naturalLanguageQuery, options.vesselChoices)).filter(vessel => !isAmbiguous(vessel))
+      const result = await this.postConversion({
+        query: naturalLanguageQuery,
+        schema: await this.buildSchemaPrompt(naturalLanguageQuery),
+        history,
+        repair: attempts,
+        timeRange: timeRange ? describeTimeRangeForPrompt(timeRange) : undefined,
+        vessels: vessels.length > 0 ? describeVesselsForPrompt(vessels) : undefined
+      }, options.signal)
+      this.applyResolvedTimeRange(result, timeRange)
+      this.applyResolvedVessels(result, vessels)
+      result.validation = this.validateKQL(result.kqlQuery)
+
+      if (isLatestTurn) {
+        latest.kqlQuery = result.kqlQuery
+        latest.resultColumns = []
+      }
+      console.log('✅ Repaired KQL:', result.kqlQuery.split('\n')[0] + '...')
+      return result
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new QueryCancelledError()
+      }
+      throw error
+    }
+  }
 
-CRITICAL: Only return valid JSON, no markdown, no additional text. The response must be parseable JSON.`
+  /**
+   * Explains KQL the user did not get from a question, e.g. a saved or hand-edited query,
+   * one step per statement and pipe stage. The model writes it when one is configured;
+   * otherwise, or when it fails, each operator is described by rule.
+   */
+  async explainKQL(kqlQuery: string, options: ConversionOptions = {}): Promise<KQLExplanation> {
+    const modelInfo = await this.getModelInfo()
+    if (modelInfo.usingFallback) {
+      return describeKQL(kqlQuery)
+    }
 
-    const userPrompt = `Convert this natural language query to KQL: "${naturalLanguageQuery}"`
+    await this.ensureSchemaContext()
+    throwIfCancelled(options.signal)
 
     try {
-      const model = import.meta.env.VITE_AZURE_OPENAI_MODEL || 'gpt-35-turbo'
-      console.log(`🤖 Making Azure OpenAI API call with deployment: ${model}`)
-      console.log(`📝 Query: "${naturalLanguageQuery}"`)
-      
-      // Check if we're using o1-mini model (which has different parameter requirements)
-      const isO1Model = model.toLowerCase().includes('o1') || model.toLowerCase().includes('o4')
-      
-      const requestParams: any = {
-        model, // This is actually the deployment name for Azure OpenAI
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ]
+      const response = await fetch(NL2KQL_ENDPOINT, {
+        method: 'POST',
+        headers: await this.buildRequestHeaders(),
+        // Table and column names in the query rank the schema the same way words of a question do
+        body: JSON.stringify({ explain: kqlQuery, schema: await this.buildSchemaPrompt(kqlQuery) }),
+        signal: options.signal
+      })
+      const body = await response.json().catch(() => null)
+      llmBudget.update(body?.budget)
+      if (!response.ok) {
+        throw new Error(body?.error_description || `KQL explanation failed with status ${response.status}`)
       }
-      
-      if (isO1Model) {
-        // o1 models don't support temperature, system messages, or response_format
-        requestParams.messages = [{ role: 'user', content: `${systemPrompt}\n\n${userPrompt}` }]
-        requestParams.max_completion_tokens = 1500
-      } else {
-        requestParams.temperature = Number(import.meta.env.VITE_OPENAI_TEMPERATURE) || 0.2
-        requestParams.max_tokens = 1500
-        requestParams.response_format = { type: "json_object" }
+      if (!this.isExplanation(body)) {
+        throw new Error('Invalid response format from KQL explanation endpoint')
       }
-      
-      const response = await this.openai.chat.completions.create(requestParams)
 
-      const content = response.choices[0]?.message?.content
-      if (!content) {
-        throw new Error('No response from Azure OpenAI')
+      console.log(`📖 Explained KQL in ${body.steps.length} steps`)
+      return { summary: body.summary, steps: body.steps, source: 'model', ...(this.isUsage(body.usage) ? { usage: body.usage } : {}) }
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new QueryCancelledError()
       }
+      console.warn('KQL explanation request failed, describing operators instead:', error)
+      return describeKQL(kqlQuery)
+    }
+  }
 
-      try {
-        const result = JSON.parse(content) as KQLConversionResult
-        
-        if (!this.validateKQLResult(result)) {
-          throw new Error('Invalid response format from OpenAI')
-        }
-
-        console.log('✅ Azure OpenAI response parsed successfully')
-        console.log('📊 Generated KQL:', result.kqlQuery.split('\n')[0] + '...')
-        console.log('🎯 Confidence:', result.confidence)
-        
-        return result
-      } catch (parseError) {
-        console.error('❌ Failed to parse Azure OpenAI response:', content)
-        throw new Error('Failed to parse Azure OpenAI response')
-      }
-    } catch (error) {
-      console.error('Azure OpenAI API call failed:', error)
-      // Fall back to pattern-based generation if Azure OpenAI fails
-      return this.generateFallbackKQL(naturalLanguageQuery)
+  private isExplanation(result: any): result is Omit<KQLExplanation, 'source'> {
+    return (
+      typeof result === 'object' &&
+      result !== null &&
+      typeof result.summary === 'string' &&
+      Array.isArray(result.steps) &&
+      result.steps.every((step: any) => typeof step?.kql === 'string' && typeof step.description === 'string')
+    )
+  }
+
+  private async postConversion(request: Record<string, unknown>, signal?: AbortSignal): Promise<KQLConversionResult> {
+    const response = await fetch(NL2KQL_ENDPOINT, {
+      method: 'POST',
+      headers: await this.buildRequestHeaders(),
+      body: JSON.stringify(request),
+      signal
+    })
+    const body = await response.json().catch(() => null)
+    llmBudget.update(body?.budget)
+    delete body?.budget
+
+    if (response.status === 429 && body?.error === 'budget_exceeded') {
+      throw new NLProcessingError('BUDGET_EXCEEDED', body.error_description || 'The monthly LLM budget has been used up')
     }
+    if (response.status === 429) {
+      // Falling back would hide the limit, so the user is told to wait instead
+      throw new NLProcessingError('RATE_LIMIT_EXCEEDED', body?.error_description || 'Too many requests')
+    }
+    if (!response.ok) {
+      throw new Error(body?.error_description || `KQL generation failed with status ${response.status}`)
+    }
+    if (!this.validateKQLResult(body)) {
+      throw new Error('Invalid response format from KQL generation endpoint')
+    }
+
+    const result: KQLConversionResult = body
+    result.parameters = deriveParameterDefinitions(
+      result.kqlQuery,
+      Array.isArray(result.parameters) ? result.parameters : []
+    )
+    if (this.isUsage(result.usage)) {
+      console.log(`🪙 ${result.usage.totalTokens ?? '?'} tokens with ${result.usage.model} in ${result.usage.latencyMs}ms`)
+    } else {
+      delete result.usage
+    }
+    return result
   }
 
-  private generateFallbackKQL(naturalLanguageQuery: string): KQLConversionResult {
-    const query = naturalLanguageQuery.toLowerCase().trim()
-    
-    // Pattern-based KQL generation for common maritime vessel queries
-    let kqlQuery = 'BatteryReadings'
-    let explanation = 'Query vessel battery data'
-    const suggestedVisualizations = ['table', 'line']
-    
-    // Time range detection
-    if (query.includes('last 24 hours') || query.includes('yesterday')) {
-      kqlQuery += '\n| where timestamp >= ago(24h)'
-      explanation += ' from the last 24 hours'
-    } else if (query.includes('last week') || query.includes('7 days')) {
-      kqlQuery += '\n| where timestamp >= ago(7d)'
-      explanation += ' from the last week'
-    } else if (query.includes('today')) {
-      kqlQuery += '\n| where timestamp >= startofday(now())'
-      explanation += ' from today'
-    }
-
-    // Vessel-specific filters
-    if (query.includes('vessel')) {
-      const vesselMatch = query.match(/vessel\s+(\w+)/i)
-      if (vesselMatch) {
-        kqlQuery += `\n| where vesselName contains "${vesselMatch[1]}"`
-        explanation += ` for vessels containing "${vesselMatch[1]}"`
+  private isUsage(usage: any): usage is LLMUsage {
+    return typeof usage === 'object' && usage !== null && typeof usage.model === 'string' && typeof usage.latencyMs === 'number'
+  }
+
+  // With VITE_AZURE_OPENAI_AUTH=entra the proxy calls Azure OpenAI with the user's own token
+  private async buildRequestHeaders(): Promise<Record<string, string>> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (import.meta.env.VITE_AZURE_OPENAI_AUTH === 'entra') {
+      const token = await authService.getAccessToken([AZURE_OPENAI_SCOPE])
+      if (token) {
+        headers['Authorization'] = `Bearer ${token}`
       }
     }
+    return headers
+  }
 
-    // Battery health filters
-    if (query.includes('low battery') || query.includes('battery health')) {
-      if (query.includes('below') || query.includes('less than')) {
-        const numberMatch = query.match(/(\d+)/)
-        const threshold = numberMatch ? numberMatch[1] : '85'
-        kqlQuery += `\n| where batteryHealth < ${threshold}`
-        explanation += ` with battery health below ${threshold}%`
-      }
+  // The model is told the resolved bounds, but its datetime parameter defaults are set from them regardless
+  private applyResolvedTimeRange(result: KQLConversionResult, timeRange: ResolvedTimeRange | null): void {
+    if (timeRange && result.parameters) {
+      result.parameters = applyTimeRange(result.parameters, timeRange)
     }
+  }
 
-    // Temperature conditions
-    if (query.includes('temperature') || query.includes('hot') || query.includes('cold')) {
-      if (query.includes('high') || query.includes('hot') || query.includes('above')) {
-        kqlQuery += '\n| where temperature > 35'
-        explanation += ' with high temperatures'
-      } else if (query.includes('low') || query.includes('cold') || query.includes('below')) {
-        kqlQuery += '\n| where temperature < 5'
-        explanation += ' with low temperatures'
-      }
+  // Vessel names, ids and types from VESSEL_TABLE, when the database has one
+  private async loadVessels(): Promise<VesselRecord[]> {
+    if (this.vessels) {
+      return this.vessels
     }
 
-    // Aggregations
-    if (query.includes('average') || query.includes('avg')) {
-      if (query.includes('voltage')) {
-        kqlQuery += '\n| summarize avg(voltage) by vesselName'
-        explanation += ', showing average voltage by vessel'
-        suggestedVisualizations.push('bar')
-      } else if (query.includes('temperature')) {
-        kqlQuery += '\n| summarize avg(temperature) by vesselName'
-        explanation += ', showing average temperature by vessel'
-        suggestedVisualizations.push('bar')
-      }
+    const table = this.schemaTables.find(candidate => candidate.name === VESSEL_TABLE)
+    const hasColumn = (name: string) => table?.columns.some(column => column.name === name) ?? false
+    this.vessels = []
+    if (!hasColumn('vesselId') || !hasColumn('vesselName')) {
+      return this.vessels
     }
 
-    // Maintenance queries
-    if (query.includes('maintenance')) {
-      kqlQuery = 'VesselMaintenance'
-      explanation = 'Query vessel maintenance records'
-      
-      if (query.includes('pending') || query.includes('scheduled')) {
-        kqlQuery += '\n| where status == "pending"'
-        explanation += ' for pending maintenance'
-      } else if (query.includes('emergency') || query.includes('critical')) {
-        kqlQuery += '\n| where priority == "critical" or maintenanceType == "emergency"'
-        explanation += ' for critical or emergency maintenance'
-      }
+    try {
+      const result = await adxService.executeQuery(`${VESSEL_TABLE}\n| project vesselId, vesselName${hasColumn('vesselType') ? ', vesselType' : ''}`)
+      this.vessels = result.data.map(row => ({
+        vesselId: String(row.vesselId),
+        vesselName: String(row.vesselName),
+        vesselType: row.vesselType ? String(row.vesselType) : undefined
+      }))
+      console.log(`🚢 Loaded ${this.vessels.length} vessels for name resolution`)
+    } catch (error) {
+      // Vessel references then go to the model (or the parser) as written
+      console.warn('Failed to load vessels for name resolution:', error)
     }
+    return this.vessels
+  }
 
-    // Weather queries
-    if (query.includes('weather') || query.includes('wind') || query.includes('wave')) {
-      kqlQuery = 'WeatherData'
-      explanation = 'Query weather data'
-      
-      if (query.includes('storm') || query.includes('rough')) {
-        kqlQuery += '\n| where windSpeed > 25 or waveHeight > 3'
-        explanation += ' for stormy conditions'
-      }
+  private async resolveVessels(naturalLanguageQuery: string, choices?: Record<string, string>): Promise<VesselMention[]> {
+    const vessels = await this.loadVessels()
+    if (vessels.length === 0) {
+      return []
     }
 
-    // Events and alerts
-    if (query.includes('alert') || query.includes('event') || query.includes('problem')) {
-      kqlQuery = 'AlertsAndEvents'
-      explanation = 'Query system alerts and events'
-      
-      if (query.includes('unresolved') || query.includes('open')) {
-        kqlQuery += '\n| where not resolved'
-        explanation += ' for unresolved issues'
-      } else if (query.includes('critical') || query.includes('high')) {
-        kqlQuery += '\n| where severity in ("high", "critical")'
-        explanation += ' for high-severity issues'
-      }
+    // Words of table and column names mean those on their own: "sea state" is not Sea Hunter
+    const schemaWords = new Set(this.schemaTables
+      .flatMap(table => [table.name, ...table.columns.map(column => column.name)])
+      .flatMap(name => name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase().split(/[^a-z0-9]+/))
+      .filter(Boolean))
+    const mentions = applyVesselChoices(findVesselMentions(naturalLanguageQuery, vessels, schemaWords), choices)
+    if (mentions.length > 0) {
+      console.log(`🚢 Vessels: ${mentions.map(mention => `"${mention.text}" → ${mention.candidates.map(vessel => vessel.vesselId).join(' | ')}`).join(', ')}`)
     }
+    return mentions
+  }
 
-    // Add common projections and limits
-    if (!kqlQuery.includes('summarize')) {
-      kqlQuery += '\n| project timestamp, vesselName, vesselId'
-      if (kqlQuery.startsWith('BatteryReadings')) {
-        kqlQuery = kqlQuery.replace('| project timestamp, vesselName, vesselId', 
-          '| project timestamp, vesselName, voltage, current, temperature, stateOfCharge, batteryHealth')
-      }
+  // Vessel filters written by name, by the model or the parser, become exact vesselId filters
+  private applyResolvedVessels(result: KQLConversionResult, mentions: VesselMention[]): void {
+    if (!this.vessels?.length || !this.canFilterByVesselId(result.kqlQuery)) {
+      return
     }
-    
-    kqlQuery += '\n| top 100 by timestamp desc'
 
-    return {
-      kqlQuery,
-      explanation,
-      confidence: 0.7, // Lower confidence for pattern-based generation
-      suggestedVisualizations
+    const named = mentions.filter(mention => !isAmbiguous(mention)).flatMap(mention => mention.candidates)
+    const rewrite = rewriteVesselFilters(result.kqlQuery, result.parameters ?? [], this.vessels, named)
+    if (rewrite.rewritten > 0) {
+      console.log(`🚢 Rewrote ${rewrite.rewritten} vessel filter(s) to vesselId`)
+      result.kqlQuery = rewrite.kqlQuery
+      result.parameters = rewrite.parameters
     }
   }
 
+  // Only when every table the query reads that has vessel names also has vessel ids
+  private canFilterByVesselId(kqlQuery: string): boolean {
+    const identifiers = new Set(kqlQuery.match(/[A-Za-z_]\w*/g) ?? [])
+    return this.schemaTables
+      .filter(table => identifiers.has(table.name))
+      .every(table => !table.columns.some(column => column.name === 'vesselName') || table.columns.some(column => column.name === 'vesselId'))
+  }
+
+  // Offline intent and slot parsing, for when no model is configured or the model is unreachable
+  private async generateFallbackKQL(naturalLanguageQuery: string, vessels: VesselMention[]): Promise<KQLConversionResult> {
+    const table = selectTable(naturalLanguageQuery, this.schemaTables, this.conversation.map(turn => turn.kqlQuery))
+    if (!table) {
+      throw new NLProcessingError('NO_SCHEMA', 'No database schema is available to build a query from')
+    }
+
+    // Values the question may name: distinct values of string columns, plus enumerations in their descriptions
+    const stringColumns = table.columns.filter(column => column.type === 'string').map(column => column.name)
+    await this.loadSampleValues(table.name, stringColumns)
+    const knownValues: Record<string, string[]> = { ...valuesFromDescriptions(table) }
+    for (const [column, values] of Object.entries(this.sampleValues[table.name] ?? {})) {
+      knownValues[column] = [...new Set([...(knownValues[column] ?? []), ...values])]
+    }
+    if (adxService.isMockMode()) {
+      const vessels = mockDataService.getVessels()
+      knownValues.vesselName = [...new Set([...(knownValues.vesselName ?? []), ...vessels.map(vessel => vessel.vesselName)])]
+      knownValues.vesselId = [...new Set([...(knownValues.vesselId ?? []), ...vessels.map(vessel => vessel.vesselId)])]
+    }
+
+    const parsed = parseQuestion(naturalLanguageQuery, table, knownValues, TIME_OPTIONS, vessels)
+    console.log(`🧩 Offline parser: ${table.name}, ${Math.round(parsed.understood * 100)}% of the question understood`)
+    const result: KQLConversionResult = buildKQL(parsed)
+    this.applyResolvedVessels(result, vessels)
+    return result
+  }
+
   private validateKQLResult(result: any): result is KQLConversionResult {
     return (
       typeof result === 'object' &&
@@ -363,9 +610,7 @@ CRITICAL: Only return valid JSON, no markdown, no additional text. The response
   }
 
   async suggestQueries(): Promise<string[]> {
-    if (!this.schemaContext) {
-      await this.loadSchemaContext()
-    }
+    await this.ensureSchemaContext()
 
     // Check if we're in mock mode to provide vessel-specific suggestions
     if (adxService.isMockMode()) {
@@ -409,14 +654,40 @@ CRITICAL: Only return valid JSON, no markdown, no additional text. The response
     return this.schemaContext
   }
 
-  getModelInfo(): { model: string | null; usingFallback: boolean } {
-    const isAzureOpenAIAvailable = !!this.openai
-    const model = isAzureOpenAIAvailable ? (import.meta.env.VITE_AZURE_OPENAI_MODEL || 'gpt-35-turbo') : null
-    
-    return {
-      model,
-      usingFallback: !isAzureOpenAIAvailable
+  async getModelInfo(): Promise<ModelInfo> {
+    if (this.modelInfo) {
+      return this.modelInfo
+    }
+
+    try {
+      const response = await fetch(NL2KQL_ENDPOINT)
+      if (!response.ok) {
+        throw new Error(`status ${response.status}`)
+      }
+      const status = await response.json()
+      llmBudget.update(status.budget)
+      this.modelInfo = {
+        provider: status.provider ?? null,
+        model: status.configured ? status.model : null,
+        usingFallback: !status.configured
+      }
+      return this.modelInfo
+    } catch (error) {
+      // Not remembered, so the endpoint is asked again once the API is up
+      console.warn('❌ KQL generation endpoint unreachable. Using fallback KQL generation.', error)
+      return { provider: null, model: null, usingFallback: true }
+    }
+  }
+
+  // This month's model calls by day or user, from the usage records the API keeps
+  async getUsageReport(grouping: UsageGrouping): Promise<UsageReport> {
+    const response = await fetch(`${NL2KQL_ENDPOINT}?usage=${grouping}`, { headers: await this.buildRequestHeaders() })
+    const body = await response.json().catch(() => null)
+    if (!response.ok || !Array.isArray(body?.breakdown)) {
+      throw new Error(body?.error_description || `LLM usage request failed with status ${response.status}`)
     }
+    llmBudget.update(body.budget)
+    return { budget: body.budget, breakdown: body.breakdown }
   }
 
   // Helper method to generate sample KQL queries for testing
@@ -0,0 +1,141 @@
+import { ADXConnection, QueryExecutionOptions, QueryResult } from './adxService'
+import { normalizeKql } from '../utils/kqlText'
+
+interface CacheEntry {
+  result: QueryResult
+  expiresAt: number
+  cells: number
+}
+
+export interface QueryCacheStats {
+  entries: number
+  cells: number
+  hits: number
+  misses: number
+}
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000
+const DEFAULT_RELATIVE_TTL_MS = 30 * 1000
+const DEFAULT_MAX_ENTRIES = 50
+const DEFAULT_MAX_CELLS = 2000000
+
+// Request properties that change what a query returns, so runs that differ in them are cached apart
+const RESULT_OPTIONS = ['noTruncation', 'truncationMaxRecords', 'truncationMaxSize', 'serverTimeoutMs'] as const
+
+export type CacheKeyOptions = Pick<QueryExecutionOptions, 'parameters' | typeof RESULT_OPTIONS[number]>
+
+// Functions whose value depends on when the query runs
+const RELATIVE_TIME_PATTERN = /\b(ago|now|startofday|startofweek|startofmonth|startofyear|endofday|endofweek|endofmonth|endofyear)\s*\(/i
+
+class QueryCache {
+  private entries = new Map<string, CacheEntry>()
+  private totalCells = 0
+  private hits = 0
+  private misses = 0
+  private ttlMs = Number(import.meta.env.VITE_QUERY_CACHE_TTL_MS) || DEFAULT_TTL_MS
+  private relativeTtlMs = Number(import.meta.env.VITE_QUERY_CACHE_RELATIVE_TTL_MS) || DEFAULT_RELATIVE_TTL_MS
+  private maxEntries = Number(import.meta.env.VITE_QUERY_CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES
+  // Size budget in result cells (rows x columns), a cheap stand-in for memory use
+  private maxCells = Number(import.meta.env.VITE_QUERY_CACHE_MAX_CELLS) || DEFAULT_MAX_CELLS
+
+  createKey(connection: ADXConnection, kqlQuery: string, options: CacheKeyOptions = {}): string {
+    const parameters = options.parameters || {}
+    const parameterKey = Object.keys(parameters)
+      .sort()
+      .map(name => {
+        const value = parameters[name]
+        return `${name}=${value instanceof Date ? value.toISOString() : String(value)}`
+      })
+      .join('&')
+    const optionKey = RESULT_OPTIONS
+      .filter(name => options[name] !== undefined)
+      .map(name => `${name}=${options[name]}`)
+      .join('&')
+
+    return [connection.clusterUrl.replace(/\/+$/, '').toLowerCase(), connection.database, normalizeKql(kqlQuery), parameterKey, optionKey].join('\n')
+  }
+
+  get(key: string): QueryResult | null {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      this.misses++
+      return null
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(key)
+      this.misses++
+      return null
+    }
+
+    // Re-insert so Map order doubles as least-recently-used order
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    this.hits++
+    return entry.result
+  }
+
+  set(key: string, kqlQuery: string, result: QueryResult): void {
+    const cells = result.tables.reduce((total, table) => total + table.rowCount * Math.max(table.columns.length, 1), 0)
+    if (cells > this.maxCells) {
+      return
+    }
+
+    // Relative windows such as ago(1h) move with the clock, so they only stay fresh briefly
+    const ttl = RELATIVE_TIME_PATTERN.test(kqlQuery) ? Math.min(this.ttlMs, this.relativeTtlMs) : this.ttlMs
+
+    this.remove(key)
+    this.entries.set(key, { result, expiresAt: Date.now() + ttl, cells })
+    this.totalCells += cells
+    this.evict()
+  }
+
+  invalidate(connection?: ADXConnection): void {
+    if (!connection) {
+      this.entries.clear()
+      this.totalCells = 0
+      return
+    }
+
+    const prefix = this.createKey(connection, '').split('\n').slice(0, 2).join('\n') + '\n'
+    Array.from(this.entries.keys())
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => this.remove(key))
+  }
+
+  getStats(): QueryCacheStats {
+    return {
+      entries: this.entries.size,
+      cells: this.totalCells,
+      hits: this.hits,
+      misses: this.misses
+    }
+  }
+
+  private evict(): void {
+    const now = Date.now()
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        this.remove(key)
+      }
+    })
+
+    // Oldest-used entries go first
+    const keys = this.entries.keys()
+    while (this.entries.size > this.maxEntries || this.totalCells > this.maxCells) {
+      const oldest = keys.next()
+      if (oldest.done) break
+      this.remove(oldest.value)
+    }
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key)
+    if (entry) {
+      this.totalCells -= entry.cells
+      this.entries.delete(key)
+    }
+  }
+}
+
+export const queryCache = new QueryCache()
@@ -0,0 +1,43 @@
+import { QueryParameterDefinition } from '../utils/queryParameters'
+
+export interface SavedQuery {
+  id: string
+  name: string
+  naturalQuery: string
+  kqlQuery: string
+  parameters?: QueryParameterDefinition[]
+  description?: string
+  tags: string[]
+  createdAt: Date
+  lastUsed?: Date
+  useCount: number
+  // The query had run without errors when it was saved; only these are shown to the model as examples
+  executed?: boolean
+}
+
+const STORAGE_KEY = 'corvus-saved-queries'
+
+class SavedQueryStore {
+  load(): SavedQuery[] {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY)
+      if (!saved) {
+        return []
+      }
+      return JSON.parse(saved).map((q: any) => ({
+        ...q,
+        createdAt: new Date(q.createdAt),
+        lastUsed: q.lastUsed ? new Date(q.lastUsed) : undefined
+      }))
+    } catch (error) {
+      console.error('Failed to load saved queries:', error)
+      return []
+    }
+  }
+
+  save(queries: SavedQuery[]): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(queries))
+  }
+}
+
+export const savedQueryStore = new SavedQueryStore()
@@ -4,6 +4,12 @@ interface ImportMetaEnv {
   readonly VITE_AZURE_CLIENT_ID: string
   readonly VITE_AZURE_TENANT_ID: string
   readonly VITE_AZURE_REDIRECT_URI: string
+  readonly VITE_AUTH_LOGIN_MODE?: 'popup' | 'redirect'
+  readonly VITE_AUTH_FAKE_TOKEN_ENDPOINT?: string
+  readonly VITE_AZURE_OPENAI_AUTH?: 'key' | 'entra'
+  readonly VITE_NL2KQL_ENDPOINT?: string
+  readonly VITE_KQL_REPAIR_ATTEMPTS?: string
+  readonly VITE_SCHEMA_TOKEN_BUDGET?: string
   readonly VITE_ADX_CLUSTER_URL: string
   readonly VITE_ADX_DATABASE_NAME: string
   readonly VITE_OPENAI_API_KEY: string
@@ -0,0 +1,121 @@
+// Wire types for the Azure Data Explorer (Kusto) REST API.
+// v2 (/v2/rest/query) responses are a JSON array of frames; v1 (/v1/rest/mgmt)
+// responses are a single object holding a list of tables.
+
+export type KustoColumnType =
+  | 'bool'
+  | 'datetime'
+  | 'decimal'
+  | 'dynamic'
+  | 'guid'
+  | 'int'
+  | 'long'
+  | 'real'
+  | 'string'
+  | 'timespan'
+
+export interface KustoColumn {
+  ColumnName: string
+  ColumnType: KustoColumnType
+  DataType?: string
+}
+
+// Column metadata carried on query results, independent of the wire format
+export interface ColumnDescriptor {
+  name: string
+  type: KustoColumnType
+}
+
+export interface KustoOneApiError {
+  error: {
+    code: string
+    message: string
+    '@type'?: string
+    '@message'?: string
+    '@permanent'?: boolean
+  }
+}
+
+export interface DataSetHeaderFrame {
+  FrameType: 'DataSetHeader'
+  IsProgressive: boolean
+  Version: string
+}
+
+export interface DataTableFrame {
+  FrameType: 'DataTable'
+  TableId: number
+  TableKind: string
+  TableName: string
+  Columns: KustoColumn[]
+  Rows: (any[] | { OneApiErrors: KustoOneApiError[] })[]
+}
+
+export interface DataSetCompletionFrame {
+  FrameType: 'DataSetCompletion'
+  HasErrors: boolean
+  Cancelled: boolean
+  OneApiErrors?: KustoOneApiError[]
+}
+
+// Progressive responses (results_progressive_enabled) send each result table as a
+// header, any number of fragments, and a completion frame
+export interface TableHeaderFrame {
+  FrameType: 'TableHeader'
+  TableId: number
+  TableKind: string
+  TableName: string
+  Columns: KustoColumn[]
+}
+
+export interface TableFragmentFrame {
+  FrameType: 'TableFragment'
+  TableId: number
+  TableFragmentType: 'DataAppend' | 'DataReplace'
+  Rows: any[][]
+}
+
+export interface TableProgressFrame {
+  FrameType: 'TableProgress'
+  TableId: number
+  TableProgress: number
+}
+
+export interface TableCompletionFrame {
+  FrameType: 'TableCompletion'
+  TableId: number
+  RowCount: number
+  OneApiErrors?: KustoOneApiError[]
+}
+
+export type KustoV2Frame =
+  | DataSetHeaderFrame
+  | DataTableFrame
+  | TableHeaderFrame
+  | TableFragmentFrame
+  | TableProgressFrame
+  | TableCompletionFrame
+  | DataSetCompletionFrame
+
+export interface KustoV1Response {
+  Tables: {
+    TableName: string
+    Columns: KustoColumn[]
+    Rows: any[][]
+  }[]
+}
+
+export interface KustoTable {
+  id: number
+  name: string
+  kind: string
+  columns: KustoColumn[]
+  rows: any[][]
+}
+
+export interface KustoDataSet {
+  tables: KustoTable[]
+  hasErrors: boolean
+  cancelled: boolean
+  errors: KustoOneApiError[]
+}
@@ -0,0 +1,35 @@
+import { QueryCancelledError } from './errorHandler'
+
+// fetch rejects with a DOMException named AbortError; our own helpers throw QueryCancelledError
+export function isCancellationError(error: unknown): boolean {
+  if (error instanceof QueryCancelledError) {
+    return true
+  }
+  return error instanceof Error && error.name === 'AbortError'
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new QueryCancelledError()
+  }
+}
+
+export function cancellableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new QueryCancelledError())
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new QueryCancelledError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
@@ -1,3 +1,5 @@
+import { ColumnDescriptor, KustoColumnType } from '../types/kusto'
+
 export interface ChartData {
   labels: string[]
   datasets: {
@@ -24,26 +26,64 @@ const CHART_COLORS = [
   '#FF9F40'
 ]
 
-export function detectChartType(data: any[], columns: string[]): ChartType {
+const NUMERIC_TYPES: KustoColumnType[] = ['int', 'long', 'real', 'decimal']
+const TEXT_TYPES: KustoColumnType[] = ['string', 'guid', 'bool', 'timespan']
+
+interface ColumnClassification {
+  numericColumns: string[]
+  stringColumns: string[]
+  dateColumns: string[]
+}
+
+// Columns are classified by their declared Kusto type; value sniffing is only
+// used for columns that arrive without a descriptor.
+function classifyColumns(data: any[], columns: string[], columnDescriptors: ColumnDescriptor[] = []): ColumnClassification {
+  const declaredTypes = new Map(columnDescriptors.map(column => [column.name, column.type]))
+  const classification: ColumnClassification = { numericColumns: [], stringColumns: [], dateColumns: [] }
+
+  columns.forEach(col => {
+    const type = declaredTypes.get(col) || sniffColumnType(data, col)
+
+    if (NUMERIC_TYPES.includes(type)) {
+      classification.numericColumns.push(col)
+    } else if (type === 'datetime') {
+      classification.dateColumns.push(col)
+    } else if (TEXT_TYPES.includes(type)) {
+      classification.stringColumns.push(col)
+    }
+  })
+
+  return classification
+}
+
+function sniffColumnType(data: any[], col: string): KustoColumnType {
+  if (data.some(row => typeof row[col] === 'number')) {
+    return 'real'
+  }
+
+  const isDate = data.some(row => {
+    const value = row[col]
+    return value instanceof Date || 
+           (typeof value === 'string' && !isNaN(Date.parse(value)))
+  })
+  if (isDate) {
+    return 'datetime'
+  }
+
+  return data.some(row => typeof row[col] === 'string') ? 'string' : 'dynamic'
+}
+
+function toNumber(value: any): number {
+  const numeric = typeof value === 'number' ? value : parseFloat(value)
+  return isNaN(numeric) ? 0 : numeric
+}
+
+export function detectChartType(data: any[], columns: string[], columnDescriptors?: ColumnDescriptor[]): ChartType {
   if (data.length === 0 || columns.length === 0) {
     return 'table'
   }
 
-  const numericColumns = columns.filter(col => 
-    data.some(row => typeof row[col] === 'number')
-  )
-  
-  const dateColumns = columns.filter(col =>
-    data.some(row => {
-      const value = row[col]
-      return value instanceof Date || 
-             (typeof value === 'string' && !isNaN(Date.parse(value)))
-    })
-  )
-
-  const stringColumns = columns.filter(col => 
-    data.some(row => typeof row[col] === 'string' && !dateColumns.includes(col))
-  )
+  const { numericColumns, stringColumns, dateColumns } = classifyColumns(data, columns, columnDescriptors)
 
   if (dateColumns.length > 0 && numericColumns.length > 0) {
     return 'line'
@@ -63,27 +103,14 @@ export function detectChartType(data: any[], columns: string[]): ChartType {
 export function transformDataForVisualization(
   data: any[], 
   columns: string[], 
-  chartType: ChartType
+  chartType: ChartType,
+  columnDescriptors?: ColumnDescriptor[]
 ): ChartData {
   if (data.length === 0) {
     return { labels: [], datasets: [] }
   }
 
-  const numericColumns = columns.filter(col => 
-    data.some(row => typeof row[col] === 'number')
-  )
-  
-  const stringColumns = columns.filter(col => 
-    data.some(row => typeof row[col] === 'string')
-  )
-
-  const dateColumns = columns.filter(col =>
-    data.some(row => {
-      const value = row[col]
-      return value instanceof Date || 
-             (typeof value === 'string' && !isNaN(Date.parse(value)))
-    })
-  )
+  const { numericColumns, stringColumns, dateColumns } = classifyColumns(data, columns, columnDescriptors)
 
   switch (chartType) {
     case 'pie':
@@ -155,7 +182,7 @@ function transformForLineChart(
 
   const datasets = valueColumns.map((col, index) => ({
     label: col,
-    data: sortedData.map(row => row[col] || 0),
+    data: sortedData.map(row => toNumber(row[col])),
     borderColor: CHART_COLORS[index % CHART_COLORS.length],
     backgroundColor: CHART_COLORS[index % CHART_COLORS.length] + '20',
     borderWidth: 2
@@ -182,7 +209,7 @@ function transformForBarChart(
       labels: data.map((_, index) => `Row ${index + 1}`),
       datasets: [{
         label: firstNumericCol,
-        data: data.map(row => row[firstNumericCol] || 0),
+        data: data.map(row => toNumber(row[firstNumericCol])),
         backgroundColor: CHART_COLORS[0],
         borderColor: CHART_COLORS[0],
         borderWidth: 1
@@ -220,7 +247,7 @@ function transformForBarChart(
       if (!aggregatedData[key][col]) {
         aggregatedData[key][col] = 0
       }
-      aggregatedData[key][col] += row[col] || 0
+      aggregatedData[key][col] += toNumber(row[col])
     })
   })
 
@@ -248,7 +275,7 @@ function aggregateData(
     const key = String(row[groupColumn] || 'Unknown')
     
     if (valueColumn) {
-      result[key] = (result[key] || 0) + (row[valueColumn] || 0)
+      result[key] = (result[key] || 0) + toNumber(row[valueColumn])
     } else {
       result[key] = (result[key] || 0) + 1
     }
@@ -257,11 +284,28 @@ function aggregateData(
   return result
 }
 
-export function formatValue(value: any): string {
+export function formatValue(value: any, type?: KustoColumnType): string {
   if (value === null || value === undefined) {
     return '—'
   }
 
+  if (type === 'datetime') {
+    const date = value instanceof Date ? value : new Date(value)
+    return isNaN(date.getTime()) ? String(value) : date.toLocaleString()
+  }
+
+  if (type === 'dynamic') {
+    const json = typeof value === 'string' ? value : JSON.stringify(value)
+    return json.length > 50 ? json.substring(0, 47) + '...' : json
+  }
+
+  if (type && NUMERIC_TYPES.includes(type) && typeof value !== 'number') {
+    const numeric = parseFloat(value)
+    if (!isNaN(numeric)) {
+      value = numeric
+    }
+  }
+
   if (typeof value === 'number') {
     if (Number.isInteger(value)) {
       return value.toLocaleString()
@@ -277,7 +321,8 @@ export function formatValue(value: any): string {
     if (value.length > 50) {
       return value.substring(0, 47) + '...'
     }
-    if (!isNaN(Date.parse(value))) {
+    // Without a declared type, date-like strings are still shown as dates
+    if (!type && !isNaN(Date.parse(value))) {
       return new Date(value).toLocaleString()
     }
   }
@@ -285,7 +330,7 @@ export function formatValue(value: any): string {
   return String(value)
 }
 
-export function analyzeDataStructure(data: any[], columns: string[]) {
+export function analyzeDataStructure(data: any[], columns: string[], columnDescriptors?: ColumnDescriptor[]) {
   if (data.length === 0) {
     return {
       rowCount: 0,
@@ -297,21 +342,7 @@ export function analyzeDataStructure(data: any[], columns: string[]) {
     }
   }
 
-  const numericColumns = columns.filter(col => 
-    data.some(row => typeof row[col] === 'number')
-  )
-  
-  const stringColumns = columns.filter(col => 
-    data.some(row => typeof row[col] === 'string')
-  )
-
-  const dateColumns = columns.filter(col =>
-    data.some(row => {
-      const value = row[col]
-      return value instanceof Date || 
-             (typeof value === 'string' && !isNaN(Date.parse(value)))
-    })
-  )
+  const { numericColumns, stringColumns, dateColumns } = classifyColumns(data, columns, columnDescriptors)
 
   return {
     rowCount: data.length,
@@ -321,4 +352,4 @@ export function analyzeDataStructure(data: any[], columns: string[]) {
     dateColumns,
     summary: `${data.length} rows, ${columns.length} columns (${numericColumns.length} numeric, ${stringColumns.length} text, ${dateColumns.length} dates)`
   }
-}
\ No newline at end of file
+}
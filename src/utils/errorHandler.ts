@@ -1,3 +1,7 @@
+import { QueryResult } from '../services/adxService'
+import { KQLValidationIssue } from './kqlValidator'
+import { VesselMention } from './vesselResolver'
+
 export interface AppError {
   code: string
   message: string
@@ -38,6 +42,47 @@ export class NLProcessingError extends Error {
   }
 }
 
+export class QueryCancelledError extends Error {
+  code: string
+  // Rows that had already streamed in when the query was stopped
+  partialResult?: QueryResult
+
+  constructor(message: string = 'Query cancelled', partialResult?: QueryResult) {
+    super(message)
+    this.name = 'QueryCancelledError'
+    this.code = 'QUERY_CANCELLED'
+    this.partialResult = partialResult
+  }
+}
+
+// Generated KQL rejected by validateKQL before it was sent to the cluster
+export class KQLValidationError extends Error {
+  code: string
+  issues: KQLValidationIssue[]
+
+  constructor(issues: KQLValidationIssue[]) {
+    super(issues.filter(issue => issue.severity === 'error').map(issue => issue.message).join('; '))
+    this.name = 'KQLValidationError'
+    this.code = 'KQL_VALIDATION_FAILED'
+    this.issues = issues
+  }
+}
+
+// The question names a vessel that matches several; the user picks one and asks again
+export class VesselAmbiguityError extends Error {
+  code: string
+  mentions: VesselMention[]
+
+  constructor(mentions: VesselMention[]) {
+    super(mentions
+      .map(mention => `"${mention.text}" could be ${mention.candidates.map(vessel => `${vessel.vesselName} (${vessel.vesselId})`).join(' or ')}`)
+      .join('; '))
+    this.name = 'VesselAmbiguityError'
+    this.code = 'AMBIGUOUS_VESSEL'
+    this.mentions = mentions
+  }
+}
+
 export function handleError(error: unknown, component?: string): AppError {
   console.error(`Error in ${component || 'Unknown component'}:`, error)
 
@@ -60,6 +105,34 @@ export function handleError(error: unknown, component?: string): AppError {
     }
   }
 
+  if (error instanceof QueryCancelledError) {
+    return {
+      code: error.code,
+      message: error.message,
+      timestamp: new Date(),
+      component
+    }
+  }
+
+  if (error instanceof KQLValidationError) {
+    return {
+      code: error.code,
+      message: error.message,
+      details: error.issues.map(issue => `${issue.code}: ${issue.message}`).join('\n'),
+      timestamp: new Date(),
+      component
+    }
+  }
+
+  if (error instanceof VesselAmbiguityError) {
+    return {
+      code: error.code,
+      message: error.message,
+      timestamp: new Date(),
+      component
+    }
+  }
+
   if (error instanceof NLProcessingError) {
     return {
       code: error.code,
@@ -93,6 +166,9 @@ export function getErrorMessage(error: AppError): string {
     case 'AUTH_FAILED':
       return 'Authentication failed. Please sign in again.'
     
+    case 'CONSENT_REQUIRED':
+      return 'Additional consent is required. Please ask an administrator to grant the app access.'
+    
     case 'ADX_CONNECTION_FAILED':
       return 'Could not connect to Azure Data Explorer. Please check your configuration.'
     
@@ -111,6 +187,18 @@ export function getErrorMessage(error: AppError): string {
     case 'RATE_LIMIT_EXCEEDED':
       return 'API rate limit exceeded. Please wait a moment before trying again.'
     
+    case 'BUDGET_EXCEEDED':
+      return 'The monthly LLM budget has been used up. Please ask an administrator to raise LLM_MONTHLY_BUDGET in the API settings.'
+    
+    case 'QUERY_CANCELLED':
+      return 'Query was cancelled.'
+    
+    case 'KQL_VALIDATION_FAILED':
+      return `The generated query was not run: ${error.message}`
+    
+    case 'AMBIGUOUS_VESSEL':
+      return `Which vessel did you mean? ${error.message}`
+    
     default:
       return error.message || 'An unexpected error occurred'
   }
@@ -127,6 +215,23 @@ export function isRetryableError(error: AppError): boolean {
   return retryableCodes.includes(error.code)
 }
 
+// Errors the generated query itself caused, as opposed to the connection, auth or service limits
+const REPAIRABLE_QUERY_CODES = ['QUERY_EXECUTION_FAILED', 'SEMANTIC_ERROR', 'HTTP_400']
+
+export function isRepairableQueryError(error: unknown): boolean {
+  // A model that produced a management command is not asked to try again
+  if (error instanceof KQLValidationError) {
+    return !error.issues.some(issue => issue.code === 'MANAGEMENT_COMMAND')
+  }
+  if (!(error instanceof ADXQueryError)) {
+    return false
+  }
+  // Kusto rejects bad queries with General_BadRequest and a Syntax/SemanticException @type
+  return REPAIRABLE_QUERY_CODES.includes(error.code) ||
+    /BadRequest/i.test(error.code) ||
+    /(Syntax|Semantic)Exception/.test(error.details || '')
+}
+
 export async function withRetry<T>(
   operation: () => Promise<T>,
   maxRetries: number = 3,
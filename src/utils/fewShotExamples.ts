@@ -0,0 +1,45 @@
+import { normalizeKql } from './kqlText'
+import { contentWords } from './schemaRetrieval'
+
+// A question and the KQL that answered it, shown to the model as an example of how this team writes queries
+export interface FewShotExample {
+  question: string
+  kqlQuery: string
+  source: 'saved' | 'scenario'
+}
+
+export const MAX_FEW_SHOT_EXAMPLES = 3
+// Examples sharing less than this with the question are more likely to mislead than help
+const MIN_SIMILARITY = 0.2
+// The team's own saved queries win over built-in scenarios of similar relevance
+const SAVED_QUERY_BOOST = 1.25
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0
+  }
+  const shared = [...a].filter(word => b.has(word)).length
+  return shared / Math.sqrt(a.size * b.size)
+}
+
+// Most similar examples first, without two examples for the same KQL
+export function selectFewShotExamples(question: string, candidates: FewShotExample[], limit: number = MAX_FEW_SHOT_EXAMPLES): FewShotExample[] {
+  const questionWords = new Set(contentWords(question))
+  const seen = new Set<string>()
+
+  return candidates
+    .map(example => ({
+      example,
+      score: similarity(questionWords, new Set(contentWords(example.question))) * (example.source === 'saved' ? SAVED_QUERY_BOOST : 1)
+    }))
+    .filter(({ score }) => score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+    .filter(({ example }) => {
+      const key = normalizeKql(example.kqlQuery)
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    .slice(0, limit)
+    .map(({ example }) => example)
+}
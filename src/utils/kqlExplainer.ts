@@ -0,0 +1,382 @@
+import { LLMUsage } from '../services/llmBudget'
+import { splitOnBy, splitTopLevel, stripComments } from './kqlText'
+
+// One statement or pipe stage of a query, in the order it runs, and what it does in plain English
+export interface KQLExplanationStep {
+  kql: string
+  description: string
+}
+
+export interface KQLExplanation {
+  summary: string
+  steps: KQLExplanationStep[]
+  // 'model' when the nl2kql API wrote it, 'rules' when it was derived from the operators here
+  source: 'model' | 'rules'
+  // Tokens and cost of the model call, when the model wrote it
+  usage?: LLMUsage
+}
+
+interface QueryFacts {
+  sources: string[]
+  filters: number
+  groupBy: string[] | null
+  limit: number | null
+}
+
+const LITERAL = /"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/g
+const PLACEHOLDER = /\u0000(\d+)\u0000/g
+
+const DURATION_UNITS: Record<string, string> = {
+  d: 'day',
+  h: 'hour',
+  m: 'minute',
+  s: 'second',
+  ms: 'millisecond'
+}
+
+// Longest operators first so ">=" is not read as ">"
+const COMPARISONS: [RegExp, string][] = [
+  [/\s*!in~?\s*\(/g, ' is not one of ('],
+  [/\s+in~?\s*\(/g, ' is one of ('],
+  [/\s*!between\s*\(/g, ' is not between ('],
+  [/\s+between\s*\(/g, ' is between ('],
+  [/\s*==\s*/g, ' is '],
+  [/\s*!=\s*/g, ' is not '],
+  [/\s*=~\s*/g, ' equals (ignoring case) '],
+  [/\s*!~\s*/g, ' does not equal (ignoring case) '],
+  [/\s*>=\s*/g, ' is at least '],
+  [/\s*<=\s*/g, ' is at most '],
+  [/\s*>\s*/g, ' is above '],
+  [/\s*<\s*/g, ' is below '],
+  [/\s+!contains(?:_cs)?\s+/g, ' does not contain '],
+  [/\s+contains(?:_cs)?\s+/g, ' contains '],
+  [/\s+!has(?:_cs)?\s+/g, ' does not have the word '],
+  [/\s+has(?:_cs)?\s+/g, ' has the word '],
+  [/\s+!startswith(?:_cs)?\s+/g, ' does not start with '],
+  [/\s+startswith(?:_cs)?\s+/g, ' starts with '],
+  [/\s+!endswith(?:_cs)?\s+/g, ' does not end with '],
+  [/\s+endswith(?:_cs)?\s+/g, ' ends with '],
+  [/\s+matches\s+regex\s+/g, ' matches the pattern ']
+]
+
+const AGGREGATES: Record<string, (args: string[]) => string> = {
+  count: () => 'the number of rows',
+  countif: ([condition]) => `the number of rows where ${describeExpression(condition)}`,
+  dcount: ([column]) => `the number of distinct ${column}`,
+  avg: ([column]) => `the average ${column}`,
+  avgif: ([column, condition]) => `the average ${column} where ${describeExpression(condition)}`,
+  sum: ([column]) => `the total ${column}`,
+  sumif: ([column, condition]) => `the total ${column} where ${describeExpression(condition)}`,
+  min: ([column]) => `the lowest ${column}`,
+  max: ([column]) => `the highest ${column}`,
+  stdev: ([column]) => `the standard deviation of ${column}`,
+  variance: ([column]) => `the variance of ${column}`,
+  percentile: ([column, percent]) => `the ${percent}th percentile of ${column}`,
+  make_set: ([column]) => `the distinct ${column} values`,
+  make_list: ([column]) => `every ${column} value`,
+  arg_max: ([column]) => `the row with the highest ${column}`,
+  arg_min: ([column]) => `the row with the lowest ${column}`,
+  take_any: ([column]) => `any ${column}`,
+  any: ([column]) => `any ${column}`
+}
+
+const JOIN_KINDS: Record<string, string> = {
+  inner: 'keeping only rows that match',
+  innerunique: 'keeping only rows that match',
+  leftouter: 'keeping every row from this side',
+  rightouter: 'keeping every row from the other side',
+  fullouter: 'keeping every row from both sides',
+  leftanti: 'keeping only rows with no match',
+  rightanti: 'keeping only rows of the other side with no match',
+  leftsemi: 'keeping only rows that have a match, without adding columns'
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`
+}
+
+// "7d" reads as "7 days", or "7-day" when it describes something else
+function formatDuration(text: string, adjective = false): string {
+  const match = text.match(/^(\d+(?:\.\d+)?)(ms|d|h|m|s)$/)
+  if (!match) return text
+  const unit = DURATION_UNITS[match[2]]
+  return adjective ? `${match[1]}-${unit}` : plural(Number(match[1]), unit)
+}
+
+function formatRecentPeriod(duration: string): string {
+  const formatted = formatDuration(duration)
+  return formatted.startsWith('1 ') ? `the last ${formatted.slice(2)}` : `the last ${formatted}`
+}
+
+function formatList(items: string[]): string {
+  if (items.length <= 1) return items.join('')
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`
+}
+
+function splitArguments(text: string): string[] {
+  return splitTopLevel(text, ',').map(part => part.trim()).filter(Boolean)
+}
+
+// Rewrites comparison operators and common time functions as words; string literals are left alone
+export function describeExpression(expression: string): string {
+  const literals: string[] = []
+  let text = expression
+    .replace(LITERAL, literal => `\u0000${literals.push(literal) - 1}\u0000`)
+    .replace(/\s+/g, ' ')
+    .trim()
+
+  text = text
+    .replace(/(\w+)\s*>=?\s*ago\s*\(\s*([\d.]+(?:ms|d|h|m|s))\s*\)/g, (_match, column, duration) => `${column} is within ${formatRecentPeriod(duration)}`)
+    .replace(/(\w+)\s*<=?\s*ago\s*\(\s*([\d.]+(?:ms|d|h|m|s))\s*\)/g, (_match, column, duration) => `${column} is more than ${formatDuration(duration)} ago`)
+    .replace(/\bstartofday\s*\(\s*now\s*\(\s*\)\s*\)/g, 'the start of today')
+    .replace(/\bago\s*\(\s*([\d.]+(?:ms|d|h|m|s))\s*\)/g, (_match, duration) => `${formatDuration(duration)} ago`)
+    .replace(/\bnow\s*\(\s*\)/g, 'now')
+    .replace(/\bbin\s*\(\s*(\w+)\s*,\s*([\d.]+(?:ms|d|h|m|s))\s*\)/g, (_match, column, duration) => `${column} in ${formatDuration(duration, true)} buckets`)
+    .replace(/\bisnotempty\s*\(\s*(\w+)\s*\)/g, '$1 is not empty')
+    .replace(/\bisempty\s*\(\s*(\w+)\s*\)/g, '$1 is empty')
+    .replace(/\bisnotnull\s*\(\s*(\w+)\s*\)/g, '$1 has a value')
+    .replace(/\bisnull\s*\(\s*(\w+)\s*\)/g, '$1 has no value')
+    .replace(/\bnot\s*\(\s*(\w+)\s*\)/g, 'not $1')
+
+  for (const [pattern, words] of COMPARISONS) {
+    text = text.replace(pattern, words)
+  }
+
+  return text
+    .replace(/\s*\.\.\s*/g, ' and ')
+    .replace(PLACEHOLDER, (_match, index) => literals[Number(index)])
+}
+
+function describeAggregate(expression: string): string {
+  const assignment = expression.match(/^([A-Za-z_]\w*)\s*=\s*([\s\S]+)$/)
+  const target = assignment ? assignment[1] : null
+  const body = (assignment ? assignment[2] : expression).trim()
+
+  const call = body.match(/^(\w+)\s*\(([\s\S]*)\)$/)
+  const describe = call ? AGGREGATES[call[1].toLowerCase()] : undefined
+  const described = describe ? describe(splitArguments(call![2])) : describeExpression(body)
+  return target ? `${described} as ${target}` : described
+}
+
+// "a = expr" and plain column lists alike
+function describeColumns(items: string): string[] {
+  return splitArguments(items).map(item => {
+    const assignment = item.match(/^([A-Za-z_]\w*)\s*=\s*([\s\S]+)$/)
+    return assignment ? `${assignment[1]} (${describeExpression(assignment[2])})` : describeExpression(item)
+  })
+}
+
+function describeSortColumns(text: string, defaultDirection: 'desc' | 'asc'): { column: string; descending: boolean }[] {
+  return splitArguments(text).map(part => {
+    const [column, direction] = part.split(/\s+/)
+    return { column, descending: (direction?.toLowerCase() ?? defaultDirection) === 'desc' }
+  })
+}
+
+function describeSource(segment: string, facts: QueryFacts): string {
+  const text = segment.trim()
+  const union = text.match(/^union\b([\s\S]*)$/i)
+  if (union) {
+    const tables = splitArguments(union[1].replace(/\b(kind|withsource|isfuzzy)\s*=\s*\S+/g, ''))
+    facts.sources.push(...tables)
+    return `Combines the rows of ${formatList(tables)}`
+  }
+  if (/^datatable\b/i.test(text)) {
+    facts.sources.push('an inline table')
+    return 'Starts from an inline table of values'
+  }
+  if (/^print\b/i.test(text)) {
+    return `Calculates ${formatList(describeColumns(text.replace(/^print\b/i, '')))}`
+  }
+  if (/^range\b/i.test(text)) {
+    return 'Generates a range of values'
+  }
+  if (/^[A-Za-z_][\w.]*$/.test(text) || /^\[.+\]$/.test(text)) {
+    facts.sources.push(text)
+    return `Reads the ${text} table`
+  }
+  facts.sources.push(text)
+  return `Starts from ${text}`
+}
+
+function describeOperator(segment: string, facts: QueryFacts): string {
+  const text = segment.trim()
+  const operatorMatch = text.match(/^([a-z][\w-]*)\b\s*([\s\S]*)$/i)
+  if (!operatorMatch) {
+    return `Runs ${text}`
+  }
+  const operator = operatorMatch[1].toLowerCase()
+  const rest = operatorMatch[2].trim()
+
+  switch (operator) {
+    case 'where':
+    case 'filter':
+      facts.filters++
+      return `Keeps rows where ${describeExpression(rest)}`
+    case 'project':
+      return `Keeps only ${formatList(describeColumns(rest))}`
+    case 'project-away':
+      return `Removes ${formatList(splitArguments(rest))}`
+    case 'project-keep':
+      return `Keeps ${formatList(splitArguments(rest))} and drops the other columns`
+    case 'project-rename':
+      return `Renames ${formatList(splitArguments(rest).map(item => {
+        const [to, from] = item.split('=').map(part => part.trim())
+        return `${from} to ${to}`
+      }))}`
+    case 'project-reorder':
+      return `Moves ${formatList(splitArguments(rest))} to the front`
+    case 'extend':
+      return `Adds ${formatList(describeColumns(rest))}`
+    case 'summarize': {
+      const [aggregates, by] = splitOnBy(rest)
+      const calculations = formatList(splitArguments(aggregates).map(describeAggregate))
+      if (by === null) {
+        facts.groupBy = []
+        return `Calculates ${calculations || 'a summary'} over all rows`
+      }
+      const groups = describeColumns(by)
+      facts.groupBy = groups
+      return calculations
+        ? `Groups rows by ${formatList(groups)} and calculates ${calculations} for each group`
+        : `Returns each distinct combination of ${formatList(groups)}`
+    }
+    case 'count':
+      facts.groupBy = []
+      return 'Counts the rows'
+    case 'top': {
+      const match = rest.match(/^(\w+)\s+by\s+([\s\S]+)$/i)
+      if (!match) return `Keeps the top ${rest}`
+      const [first] = describeSortColumns(match[2], 'desc')
+      facts.limit = Number(match[1]) || facts.limit
+      return `Keeps the ${match[1]} rows with the ${first.descending ? 'highest' : 'lowest'} ${first.column}`
+    }
+    case 'take':
+    case 'limit':
+      facts.limit = Number(rest) || facts.limit
+      return `Returns up to ${rest} rows`
+    case 'sample':
+      facts.limit = Number(rest) || facts.limit
+      return `Picks ${rest} random rows`
+    case 'sort':
+    case 'order': {
+      const columns = describeSortColumns(rest.replace(/^by\s+/i, ''), 'desc')
+      return `Sorts by ${formatList(columns.map(({ column, descending }) => `${column} (${descending ? 'descending' : 'ascending'})`))}`
+    }
+    case 'distinct': {
+      const columns = splitArguments(rest)
+      facts.groupBy = columns
+      return columns.length === 1 && columns[0] !== '*'
+        ? `Returns the distinct values of ${columns[0]}`
+        : `Returns each distinct combination of ${columns[0] === '*' ? 'all columns' : formatList(columns)}`
+    }
+    case 'join':
+    case 'lookup': {
+      const kind = rest.match(/\bkind\s*=\s*(\w+)/i)?.[1].toLowerCase() ?? (operator === 'lookup' ? 'leftouter' : 'innerunique')
+      const onMatch = rest.match(/\)\s*on\s+([\s\S]+)$/i) ?? rest.match(/\bon\s+([\s\S]+)$/i)
+      const inner = rest.match(/\(([\s\S]*)\)/)?.[1] ?? rest.replace(/\bkind\s*=\s*\w+/i, '').replace(/\bon\b[\s\S]*$/i, '')
+      const table = splitTopLevel(inner, '|')[0]?.trim() || 'another query'
+      facts.sources.push(table)
+      const on = onMatch ? ` on ${formatList(splitArguments(onMatch[1]).map(key => key.replace(/\$(left|right)\./g, '')))}` : ''
+      return `Joins with ${table}${on}, ${JOIN_KINDS[kind] ?? `using a ${kind} join`}`
+    }
+    case 'union': {
+      const tables = splitArguments(rest.replace(/\b(kind|withsource|isfuzzy)\s*=\s*\S+/g, ''))
+      facts.sources.push(...tables)
+      return `Appends the rows of ${formatList(tables)}`
+    }
+    case 'mv-expand':
+      return `Expands ${formatList(splitArguments(rest))} into one row per element`
+    case 'parse':
+      return `Extracts new columns from ${rest.split(/\s+with\s+/i)[0]}`
+    case 'make-series':
+      facts.groupBy = []
+      return 'Builds a time series'
+    case 'render':
+      return `Draws the results as a ${rest.split(/\s+/)[0].replace(/chart$/, ' chart')}`
+    case 'as':
+      return `Names the result ${rest}`
+    case 'serialize':
+      return 'Fixes the row order so later steps can refer to neighbouring rows'
+    case 'getschema':
+      return 'Returns the column names and types instead of the rows'
+    case 'evaluate':
+      return `Runs the ${rest.split('(')[0].trim()} plugin`
+    default:
+      return `Runs ${operator}${rest ? ` ${rest}` : ''}`
+  }
+}
+
+function describeStatement(statement: string): string {
+  const declare = statement.match(/^declare\s+query_parameters\s*\(([\s\S]*)\)$/i)
+  if (declare) {
+    const parameters = splitArguments(declare[1]).map(parameter => {
+      const [name, type] = parameter.split(':').map(part => part.trim())
+      return `${name} (${type.split('=')[0].trim()})`
+    })
+    return `Declares the parameters ${formatList(parameters)}, filled in when the query runs`
+  }
+  const letMatch = statement.match(/^let\s+([A-Za-z_]\w*)\s*=\s*([\s\S]+)$/i)
+  if (letMatch) {
+    const value = letMatch[2].trim()
+    return splitTopLevel(value, '|').length > 1 || /^view\b/i.test(value)
+      ? `Defines ${letMatch[1]} as a subquery used below`
+      : `Defines ${letMatch[1]} as ${describeExpression(formatDuration(value))}`
+  }
+  const set = statement.match(/^set\s+(\w+)/i)
+  if (set) {
+    return `Sets the request option ${set[1]}`
+  }
+  return `Runs ${statement}`
+}
+
+function summarize(facts: QueryFacts, stepCount: number): string {
+  if (facts.sources.length === 0) {
+    return `Runs ${plural(stepCount, 'step')}`
+  }
+  const parts = [`Reads ${formatList([...new Set(facts.sources)])}`]
+  if (facts.filters > 0) {
+    parts.push(`keeps rows matching ${plural(facts.filters, 'condition')}`)
+  }
+  if (facts.groupBy) {
+    parts.push(facts.groupBy.length > 0 ? `groups them by ${formatList(facts.groupBy)}` : 'summarizes them')
+  }
+  if (facts.limit !== null) {
+    parts.push(`returns at most ${plural(facts.limit, 'row')}`)
+  }
+  return `${formatList(parts)}.`
+}
+
+/**
+ * Explains a query without a model: one step per statement and pipe stage,
+ * each described from its operator and arguments.
+ */
+export function describeKQL(kqlQuery: string): KQLExplanation {
+  const query = stripComments(kqlQuery).trim()
+  if (!query) {
+    return { summary: 'The query is empty.', steps: [], source: 'rules' }
+  }
+  if (query.startsWith('.')) {
+    return {
+      summary: 'A management command, not a query.',
+      steps: [{ kql: query, description: 'Runs a management command, which reads or changes the database itself rather than its data' }],
+      source: 'rules'
+    }
+  }
+
+  const statements = splitTopLevel(query, ';').map(statement => statement.trim()).filter(Boolean)
+  const tabular = statements.pop() ?? ''
+  const facts: QueryFacts = { sources: [], filters: 0, groupBy: null, limit: null }
+
+  const steps: KQLExplanationStep[] = statements.map(statement => ({ kql: statement, description: describeStatement(statement) }))
+  splitTopLevel(tabular, '|').forEach((segment, index) => {
+    const kql = segment.trim()
+    if (!kql) return
+    steps.push({
+      kql: index === 0 ? kql : `| ${kql}`,
+      description: index === 0 ? describeSource(kql, facts) : describeOperator(kql, facts)
+    })
+  })
+
+  return { summary: summarize(facts, steps.length), steps, source: 'rules' }
+}
@@ -0,0 +1,131 @@
+// Lexical helpers for KQL text that need to respect string literals and brackets
+
+const STRING_OR_IDENTIFIER = /("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|\b([A-Za-z_]\w*)\b/g
+
+// Splits on a single-character separator that is not inside quotes, (), [] or {}
+export function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let quote: string | null = null
+  let current = ''
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quote) {
+      if (char === '\\') {
+        current += char + (text[i + 1] ?? '')
+        i++
+        continue
+      }
+      if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '(' || char === '[' || char === '{') {
+      depth++
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth--
+    } else if (char === separator && depth === 0) {
+      parts.push(current)
+      current = ''
+      continue
+    }
+    current += char
+  }
+
+  if (current.trim()) {
+    parts.push(current)
+  }
+  return parts
+}
+
+// Index just past the literal whose opening quote is at `quoteIndex`
+export function skipString(text: string, quoteIndex: number): number {
+  const quote = text[quoteIndex]
+  for (let i = quoteIndex + 1; i < text.length; i++) {
+    if (text[i] === '\\') i++
+    else if (text[i] === quote) return i + 1
+  }
+  return text.length
+}
+
+// Splits `aggregates by keys` on the first `by` outside brackets and strings
+export function splitOnBy(text: string): [string, string | null] {
+  let depth = 0
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (char === '"' || char === "'") {
+      i = skipString(text, i) - 1
+    } else if (char === '(' || char === '[' || char === '{') {
+      depth++
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth--
+    } else if (depth === 0 && /^by\b/.test(text.slice(i)) && (i === 0 || /\W/.test(text[i - 1]))) {
+      return [text.slice(0, i), text.slice(i + 2)]
+    }
+  }
+  return [text, null]
+}
+
+export function stripComments(text: string): string {
+  return text
+    .split('\n')
+    .map(line => {
+      let quote: string | null = null
+      for (let i = 0; i < line.length; i++) {
+        const char = line[i]
+        if (quote) {
+          if (char === '\\') i++
+          else if (char === quote) quote = null
+        } else if (char === '"' || char === "'") {
+          quote = char
+        } else if (char === '/' && line[i + 1] === '/') {
+          return line.substring(0, i)
+        }
+      }
+      return line
+    })
+    .join('\n')
+}
+
+// Replaces whole identifiers outside string literals
+export function replaceIdentifiers(text: string, replacements: Map<string, string>): string {
+  if (replacements.size === 0) {
+    return text
+  }
+  return text.replace(STRING_OR_IDENTIFIER, (token, literal, identifier) => {
+    if (literal) return literal
+    return replacements.get(identifier) ?? token
+  })
+}
+
+// Returns the text inside the bracket that opens at `openIndex`, or null if it is never closed
+export function readBracketed(text: string, openIndex: number): { content: string; end: number } | null {
+  let depth = 0
+  let quote: string | null = null
+
+  for (let i = openIndex; i < text.length; i++) {
+    const char = text[i]
+    if (quote) {
+      if (char === '\\') i++
+      else if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '(') {
+      depth++
+    } else if (char === ')') {
+      depth--
+      if (depth === 0) {
+        return { content: text.substring(openIndex + 1, i), end: i }
+      }
+    }
+  }
+  return null
+}
+
+// Canonical form for comparing queries: comments removed and whitespace outside literals collapsed
+export function normalizeKql(text: string): string {
+  return stripComments(text)
+    .replace(/("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|\s+/g, (_token, literal) => literal ?? ' ')
+    .trim()
+}
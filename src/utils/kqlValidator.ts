@@ -0,0 +1,553 @@
+import { readBracketed, skipString, splitOnBy, splitTopLevel, stripComments } from './kqlText'
+import { parseDeclaredParameters } from './queryParameters'
+
+// Static checks for generated KQL, run before the query is sent to the cluster
+
+export type KQLValidationCode =
+  | 'MANAGEMENT_COMMAND'
+  | 'SYNTAX_ERROR'
+  | 'UNKNOWN_TABLE'
+  | 'UNKNOWN_COLUMN'
+  | 'UNKNOWN_OPERATOR'
+  | 'UNKNOWN_FUNCTION'
+
+export interface KQLValidationIssue {
+  // Errors block execution; warnings are shown but the query still runs
+  severity: 'error' | 'warning'
+  code: KQLValidationCode
+  message: string
+  // 1-based line of the query the issue was found on, when it can be located
+  line?: number
+}
+
+export interface KQLValidationResult {
+  valid: boolean
+  issues: KQLValidationIssue[]
+}
+
+// The parts of NLToKQLService's SchemaContext the validator reads
+export interface KQLValidationSchema {
+  tables: string[]
+  schema: { TableName: string; ColumnName: string }[]
+}
+
+const QUERY_OPERATORS = new Set([
+  'as', 'consume', 'count', 'distinct', 'evaluate', 'extend', 'facet', 'filter', 'find', 'fork',
+  'getschema', 'graph-match', 'invoke', 'join', 'limit', 'lookup', 'make-graph', 'make-series',
+  'mv-apply', 'mv-expand', 'order', 'parse', 'parse-kv', 'parse-where', 'partition', 'project',
+  'project-away', 'project-keep', 'project-rename', 'project-reorder', 'reduce', 'render', 'sample',
+  'sample-distinct', 'scan', 'search', 'serialize', 'sort', 'summarize', 'take', 'top', 'top-hitters',
+  'top-nested', 'union', 'where'
+])
+
+// Parameters such as kind=inner or hint.shufflekey=x that come before an operator's arguments
+const OPERATOR_PARAMETERS = /^(?:(?:kind|withsource|isfuzzy|bagexpansion|with_itemindex|flags|decodeblocks|hint\.\w+)\s*=\s*[\w.]+\s*)+/i
+// Operators that start with a column assignment, where kind = ... is a column and not a parameter
+const ASSIGNING_OPERATORS = new Set(['extend', 'project', 'project-rename', 'serialize', 'where', 'filter'])
+
+// Operators whose arguments are not expressions over columns (plugin names, chart kinds, aliases, counts)
+const UNCHECKED_OPERATORS = new Set(['as', 'consume', 'evaluate', 'getschema', 'limit', 'render', 'sample', 'take'])
+
+const BUILTIN_FUNCTIONS = new Set([
+  // Aggregations
+  'any', 'arg_max', 'arg_min', 'avg', 'avgif', 'binary_all_and', 'binary_all_or', 'count', 'count_distinct',
+  'countif', 'dcount', 'dcountif', 'hll', 'hll_merge', 'make_bag', 'make_bag_if', 'make_list', 'make_list_if',
+  'make_list_with_nulls', 'make_set', 'make_set_if', 'max', 'maxif', 'min', 'minif', 'percentile',
+  'percentiles', 'percentiles_array', 'percentilew', 'stdev', 'stdevif', 'stdevp', 'sum', 'sumif',
+  'take_any', 'take_anyif', 'tdigest', 'variance', 'varianceif', 'variancep',
+  // Window and row functions
+  'next', 'prev', 'row_cumsum', 'row_number', 'row_rank_dense', 'row_rank_min', 'row_window_session',
+  // Conversion and types
+  'gettype', 'isempty', 'isnotempty', 'isnotnull', 'isnull', 'isnan', 'isinf', 'isfinite', 'tobool',
+  'toboolean', 'todatetime', 'todecimal', 'todouble', 'todynamic', 'toguid', 'toint', 'tolong', 'toreal',
+  'tostring', 'totimespan', 'parse_json', 'typeof',
+  // Logic
+  'case', 'coalesce', 'iff', 'iif', 'max_of', 'min_of', 'not',
+  // Math
+  'abs', 'acos', 'asin', 'atan', 'atan2', 'bin', 'bin_at', 'ceiling', 'cos', 'exp', 'exp10', 'exp2', 'floor',
+  'log', 'log10', 'log2', 'pi', 'pow', 'rand', 'round', 'sign', 'sin', 'sqrt', 'tan',
+  // Strings
+  'countof', 'extract', 'extract_all', 'format_bytes', 'has_any_index', 'indexof', 'parse_url', 'replace',
+  'replace_regex', 'replace_string', 'reverse', 'split', 'strcat', 'strcat_array', 'strcat_delim', 'strcmp',
+  'strlen', 'strrep', 'substring', 'tolower', 'toupper', 'translate', 'trim', 'trim_end', 'trim_start',
+  'hash', 'hash_sha256', 'base64_encode_tostring', 'base64_decode_tostring', 'url_encode', 'url_decode',
+  // Dates and times
+  'ago', 'datetime_add', 'datetime_diff', 'datetime_part', 'dayofmonth', 'dayofweek', 'dayofyear', 'endofday',
+  'endofmonth', 'endofweek', 'endofyear', 'format_datetime', 'format_timespan', 'getmonth', 'getyear',
+  'hourofday', 'make_datetime', 'make_timespan', 'monthofyear', 'now', 'startofday', 'startofmonth',
+  'startofweek', 'startofyear', 'unixtime_milliseconds_todatetime', 'unixtime_seconds_todatetime',
+  'week_of_year', 'datetime_utc_to_local', 'datetime_local_to_utc',
+  // Dynamic values
+  'array_concat', 'array_index_of', 'array_length', 'array_slice', 'array_sort_asc', 'array_sort_desc',
+  'array_sum', 'bag_keys', 'bag_merge', 'bag_pack', 'bag_remove_keys', 'pack', 'pack_all', 'pack_array',
+  'set_difference', 'set_has_element', 'set_intersect', 'set_union', 'treepath', 'zip',
+  // Series, geo and tabular helpers
+  'series_decompose', 'series_decompose_anomalies', 'series_fill_linear', 'series_fir', 'series_fit_line',
+  'series_outliers', 'series_stats', 'series_stats_dynamic', 'geo_distance_2points', 'geo_point_in_circle',
+  'materialize', 'toscalar', 'column_ifexists', 'cluster', 'database', 'table'
+])
+
+// Typed literals such as datetime(2024-01-01) whose argument is not an expression
+const LITERAL_FUNCTIONS = new Set(['bool', 'datetime', 'decimal', 'double', 'dynamic', 'guid', 'int', 'long', 'real', 'time', 'timespan'])
+
+const KEYWORDS = new Set([
+  'and', 'or', 'by', 'asc', 'desc', 'nulls', 'first', 'last', 'true', 'false', 'null', 'in', 'has', 'has_cs',
+  'hasprefix', 'hasprefix_cs', 'hassuffix', 'hassuffix_cs', 'contains', 'contains_cs', 'startswith',
+  'startswith_cs', 'endswith', 'endswith_cs', 'matches', 'regex', 'between', 'has_any', 'has_all', 'with',
+  'kind', 'step', 'from', 'to', 'on', 'string', 'int', 'long', 'real', 'double', 'decimal', 'bool', 'datetime',
+  'timespan', 'dynamic', 'guid'
+])
+
+// Sources that produce a table without naming one
+const TABULAR_SOURCES = new Set(['datatable', 'externaldata', 'find', 'materialize', 'print', 'range', 'search', 'union', 'view'])
+
+const ASSIGNMENT = /^\s*([A-Za-z_]\w*|\[\s*(['"]).+?\2\s*\])\s*=(?![=~])([\s\S]*)$/
+const IDENTIFIER = /^\s*([A-Za-z_]\w*|\[\s*(['"]).+?\2\s*\])\s*$/
+
+// Aggregations Kusto names `<prefix>_<column>` when the result is not named explicitly
+const AGGREGATE_PREFIXES: Record<string, string> = {
+  avg: 'avg', avgif: 'avgif', dcount: 'dcount', dcountif: 'dcountif', max: 'max', maxif: 'maxif', min: 'min',
+  minif: 'minif', stdev: 'stdev', sum: 'sum', sumif: 'sumif', variance: 'variance', make_list: 'list',
+  make_set: 'set', take_any: 'any'
+}
+
+interface ExpressionToken {
+  name: string
+  isCall: boolean
+  isProperty: boolean
+}
+
+interface ValidationContext {
+  query: string
+  checkSchema: boolean
+  tableColumns: Map<string, string[] | null>
+  letTables: Map<string, string[] | null>
+  scalars: Set<string>
+  functions: Set<string>
+  issues: KQLValidationIssue[]
+}
+
+function unbracket(name: string): string {
+  const bracketed = /^\[\s*(['"])(.+)\1\s*\]$/.exec(name.trim())
+  return bracketed ? bracketed[2] : name.trim()
+}
+
+function findLine(query: string, name: string): number | undefined {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const match = new RegExp(`(^|[^\\w])${escaped}(?!\\w)`).exec(query)
+  return match ? query.slice(0, match.index + match[1].length).split('\n').length : undefined
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]
+    previous[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j]
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1))
+      diagonal = above
+    }
+  }
+  return previous[b.length]
+}
+
+function suggest(name: string, candidates: Iterable<string>): string {
+  const lower = name.toLowerCase()
+  let best: string | null = null
+  let bestDistance = 3
+  for (const candidate of candidates) {
+    const distance = candidate.toLowerCase() === lower ? 0 : editDistance(lower, candidate.toLowerCase())
+    if (distance < bestDistance) {
+      best = candidate
+      bestDistance = distance
+    }
+  }
+  return best ? `; did you mean '${best}'?` : ''
+}
+
+function addIssue(ctx: ValidationContext, severity: KQLValidationIssue['severity'], code: KQLValidationCode, message: string, locate?: string): void {
+  if (ctx.issues.some(issue => issue.code === code && issue.message === message)) {
+    return
+  }
+  ctx.issues.push({ severity, code, message, line: locate ? findLine(ctx.query, locate) : undefined })
+}
+
+// Unclosed strings and brackets make everything after them meaningless, so they are reported alone
+function findUnbalanced(text: string): string | null {
+  const stack: string[] = []
+  const pairs: Record<string, string> = { ')': '(', ']': '[', '}': '{' }
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (char === '"' || char === "'") {
+      const end = skipString(text, i)
+      if (end === text.length && text[end - 1] !== char) {
+        return `Unterminated string literal starting with ${text.slice(i, i + 20)}`
+      }
+      i = end - 1
+    } else if (char === '(' || char === '[' || char === '{') {
+      stack.push(char)
+    } else if (char in pairs) {
+      if (stack.pop() !== pairs[char]) {
+        return `Unexpected '${char}'`
+      }
+    }
+  }
+  return stack.length > 0 ? `Missing closing bracket for '${stack[stack.length - 1]}'` : null
+}
+
+function scanExpression(expression: string): ExpressionToken[] {
+  const tokens: ExpressionToken[] = []
+  const previousSignificant = (index: number) => expression.slice(0, index).trimEnd().slice(-1)
+
+  let i = 0
+  while (i < expression.length) {
+    const char = expression[i]
+
+    if (char === '"' || char === "'") {
+      i = skipString(expression, i)
+    } else if (char === '@' && (expression[i + 1] === '"' || expression[i + 1] === "'")) {
+      i = skipString(expression, i + 1)
+    } else if (/\d/.test(char)) {
+      // Numbers, including timespans such as 1d or 30min
+      while (i < expression.length && /[\w.]/.test(expression[i])) i++
+    } else if (char === '[') {
+      const bracketed = /^\[\s*(['"])(.*?)\1\s*\]/.exec(expression.slice(i))
+      if (bracketed) {
+        tokens.push({ name: bracketed[2], isCall: false, isProperty: previousSignificant(i) === '.' })
+        i += bracketed[0].length
+      } else {
+        i++
+      }
+    } else if (/[A-Za-z_]/.test(char)) {
+      let end = i
+      while (end < expression.length && /\w/.test(expression[end])) end++
+      const name = expression.slice(i, end)
+
+      // h'...' and H"..." are obfuscated string literals
+      if ((name === 'h' || name === 'H') && (expression[end] === '"' || expression[end] === "'")) {
+        i = skipString(expression, end)
+        continue
+      }
+
+      let next = end
+      while (next < expression.length && /\s/.test(expression[next])) next++
+      const isCall = expression[next] === '('
+
+      if (isCall && LITERAL_FUNCTIONS.has(name)) {
+        i = (readBracketed(expression, next)?.end ?? expression.length - 1) + 1
+        continue
+      }
+      tokens.push({ name, isCall, isProperty: previousSignificant(i) === '.' })
+      i = end
+    } else {
+      i++
+    }
+  }
+  return tokens
+}
+
+// Checks function names always, and column names when the columns in scope are known
+function checkExpression(expression: string, columns: string[] | null, ctx: ValidationContext): void {
+  for (const token of scanExpression(expression)) {
+    if (token.isProperty || KEYWORDS.has(token.name)) continue
+
+    if (token.isCall) {
+      if (!BUILTIN_FUNCTIONS.has(token.name) && !ctx.functions.has(token.name)) {
+        addIssue(ctx, 'warning', 'UNKNOWN_FUNCTION', `Unknown function '${token.name}'`, token.name)
+      }
+      continue
+    }
+
+    if (!columns || !ctx.checkSchema) continue
+    if (columns.includes(token.name) || ctx.scalars.has(token.name) || ctx.letTables.has(token.name)) continue
+
+    addIssue(ctx, 'error', 'UNKNOWN_COLUMN', `Unknown column '${token.name}'${suggest(token.name, columns)}`, token.name)
+  }
+}
+
+function resolveTable(name: string, ctx: ValidationContext): string[] | null {
+  if (ctx.letTables.has(name)) return ctx.letTables.get(name)!
+  if (ctx.tableColumns.has(name)) return ctx.tableColumns.get(name)!
+  if (!ctx.checkSchema || name.includes('*')) return null
+
+  const candidates = [...ctx.tableColumns.keys(), ...ctx.letTables.keys()]
+  addIssue(ctx, 'error', 'UNKNOWN_TABLE', `Unknown table '${name}'${suggest(name, candidates)}`, name)
+  return null
+}
+
+function analyzeSource(source: string, ctx: ValidationContext): string[] | null {
+  if (source.startsWith('(')) {
+    const inner = readBracketed(source, 0)
+    if (inner && inner.end === source.length - 1) {
+      return analyzeTabular(inner.content, ctx)
+    }
+  }
+
+  const identifier = IDENTIFIER.exec(source)
+  if (identifier && !TABULAR_SOURCES.has(identifier[1])) {
+    return resolveTable(unbracket(identifier[1]), ctx)
+  }
+
+  const union = /^union\b([\s\S]*)$/.exec(source)
+  if (union) {
+    const parts = splitTopLevel(union[1].trim().replace(OPERATOR_PARAMETERS, ''), ',')
+    let columns: string[] | null = []
+    for (const part of parts.map(p => p.trim())) {
+      const partColumns: string[] | null = part.startsWith('(') ? analyzeSource(part, ctx) : resolveTable(unbracket(part), ctx)
+      columns = columns && partColumns ? [...new Set([...columns, ...partColumns])] : null
+    }
+    return columns
+  }
+
+  // print, range, datatable, database('x').Table and the like
+  checkExpression(source, null, ctx)
+  return null
+}
+
+function projectColumns(items: string, columns: string[], ctx: ValidationContext, keepExisting: boolean): string[] | null {
+  const result = keepExisting ? [...columns] : []
+  let complete = true
+
+  for (const item of splitTopLevel(items, ',')) {
+    const assignment = ASSIGNMENT.exec(item)
+    const expression = assignment ? assignment[3] : item
+    checkExpression(expression, columns, ctx)
+
+    const name = assignment ? assignment[1] : IDENTIFIER.exec(item)?.[1]
+    if (name) {
+      if (!result.includes(unbracket(name))) result.push(unbracket(name))
+    } else {
+      // Unnamed computed columns get generated names such as Column1
+      complete = false
+    }
+  }
+  return complete ? result : null
+}
+
+function summarizeColumns(rest: string, columns: string[], ctx: ValidationContext): string[] | null {
+  const [aggregatePart, keyPart] = splitOnBy(rest.replace(/^(\s*hint\.\w+\s*=\s*\w+)*/, ''))
+  const aggregates = aggregatePart.trim() ? splitTopLevel(aggregatePart, ',') : []
+  const keys = keyPart ? splitTopLevel(keyPart, ',') : []
+  const result: string[] = []
+  let complete = true
+
+  for (const key of keys) {
+    const assignment = ASSIGNMENT.exec(key)
+    const expression = assignment ? assignment[3] : key
+    checkExpression(expression, columns, ctx)
+
+    // bin(timestamp, 1h) keeps the name of the column it bins
+    const binned = /^\s*(?:bin|floor)\s*\(\s*([A-Za-z_]\w*)\s*,/.exec(expression)
+    const name = assignment?.[1] ?? IDENTIFIER.exec(key)?.[1] ?? binned?.[1]
+    if (name) result.push(unbracket(name))
+    else complete = false
+  }
+
+  for (const aggregate of aggregates) {
+    const assignment = ASSIGNMENT.exec(aggregate)
+    const expression = assignment ? assignment[3] : aggregate
+    checkExpression(expression, columns, ctx)
+
+    if (assignment) {
+      result.push(unbracket(assignment[1]))
+      continue
+    }
+    const call = /^\s*(\w+)\s*\(([\s\S]*)\)\s*$/.exec(aggregate)
+    const firstArgument = call ? splitTopLevel(call[2], ',')[0]?.trim() : undefined
+    if (call && (call[1] === 'count' || call[1] === 'countif')) {
+      result.push(`${call[1]}_`)
+    } else if (call && AGGREGATE_PREFIXES[call[1]] && firstArgument && /^[A-Za-z_]\w*$/.test(firstArgument)) {
+      result.push(`${AGGREGATE_PREFIXES[call[1]]}_${firstArgument}`)
+    } else {
+      // arg_max(..., *) and friends expand to columns that are not worth predicting
+      complete = false
+    }
+  }
+
+  return complete ? result : null
+}
+
+function applyOperator(segment: string, columns: string[] | null, ctx: ValidationContext): string[] | null {
+  const match = /^([A-Za-z][\w-]*)([\s\S]*)$/.exec(segment)
+  if (!match) {
+    addIssue(ctx, 'error', 'SYNTAX_ERROR', `Expected a query operator after '|' but found '${segment.slice(0, 20)}'`)
+    return null
+  }
+
+  const operator = match[1]
+  const rest = ASSIGNING_OPERATORS.has(operator) ? match[2].trim() : match[2].trim().replace(OPERATOR_PARAMETERS, '')
+  if (!QUERY_OPERATORS.has(operator)) {
+    addIssue(ctx, 'error', 'UNKNOWN_OPERATOR', `Unknown query operator '${operator}'`, operator)
+    return null
+  }
+
+  if (UNCHECKED_OPERATORS.has(operator)) {
+    return operator === 'getschema' ? ['ColumnName', 'ColumnOrdinal', 'DataType', 'ColumnType'] : columns
+  }
+  if (!columns) {
+    checkExpression(rest, null, ctx)
+    return null
+  }
+
+  switch (operator) {
+    case 'where':
+    case 'filter':
+      checkExpression(rest, columns, ctx)
+      return columns
+
+    case 'count':
+      return ['Count']
+
+    case 'project':
+      return projectColumns(rest, columns, ctx, false)
+
+    case 'extend':
+    case 'serialize':
+      return rest ? projectColumns(rest, columns, ctx, true) : columns
+
+    case 'distinct':
+      return rest === '*' ? columns : projectColumns(rest, columns, ctx, false)
+
+    case 'project-away':
+    case 'project-keep':
+    case 'project-reorder': {
+      const names = splitTopLevel(rest, ',').map(name => unbracket(name.replace(/\s+(asc|desc|granny-asc|granny-desc)\s*$/, '')))
+      names.filter(name => !name.includes('*')).forEach(name => checkExpression(name, columns, ctx))
+      if (operator === 'project-reorder' || names.some(name => name.includes('*'))) {
+        return operator === 'project-reorder' ? columns : null
+      }
+      return operator === 'project-away'
+        ? columns.filter(column => !names.includes(column))
+        : columns.filter(column => names.includes(column))
+    }
+
+    case 'project-rename': {
+      const renamed = [...columns]
+      for (const item of splitTopLevel(rest, ',')) {
+        const assignment = ASSIGNMENT.exec(item)
+        if (!assignment) continue
+        const source = unbracket(assignment[3])
+        checkExpression(assignment[3], columns, ctx)
+        const index = renamed.indexOf(source)
+        if (index >= 0) renamed[index] = unbracket(assignment[1])
+      }
+      return renamed
+    }
+
+    case 'summarize':
+      return summarizeColumns(rest, columns, ctx)
+
+    case 'sort':
+    case 'order':
+      checkExpression(rest.replace(/^by\b/, ''), columns, ctx)
+      return columns
+
+    case 'top':
+      checkExpression(rest, columns, ctx)
+      return columns
+
+    default:
+      // join, mv-expand, parse, make-series, ...: columns after these are not tracked
+      checkExpression(rest, null, ctx)
+      return null
+  }
+}
+
+// Returns the columns the expression produces, or null when they cannot be determined
+function analyzeTabular(text: string, ctx: ValidationContext): string[] | null {
+  const segments = splitTopLevel(text, '|').map(segment => segment.trim())
+  if (segments.some(segment => !segment) || /\|\s*$/.test(text)) {
+    addIssue(ctx, 'error', 'SYNTAX_ERROR', 'Empty step in the query pipeline')
+  }
+
+  let columns = analyzeSource(segments[0] || '', ctx)
+  for (const segment of segments.slice(1).filter(Boolean)) {
+    columns = applyOperator(segment, columns, ctx)
+  }
+  return columns
+}
+
+function isTabularExpression(body: string, ctx: ValidationContext): boolean {
+  if (/^toscalar\s*\(/.test(body)) return false
+  if (splitTopLevel(body, '|').length > 1) return true
+
+  const first = /^\(?\s*([A-Za-z_]\w*)/.exec(body)?.[1]
+  return !!first && (TABULAR_SOURCES.has(first) || ctx.tableColumns.has(first) || ctx.letTables.has(first))
+}
+
+function createContext(query: string, schemaContext: KQLValidationSchema | null): ValidationContext {
+  const tableColumns = new Map<string, string[] | null>()
+  schemaContext?.tables.forEach(table => tableColumns.set(table, null))
+  schemaContext?.schema.forEach(row => {
+    const columns = tableColumns.get(row.TableName) ?? []
+    tableColumns.set(row.TableName, [...columns, row.ColumnName])
+  })
+
+  return {
+    query,
+    // Without a schema there is nothing to check names against
+    checkSchema: tableColumns.size > 0,
+    tableColumns,
+    letTables: new Map(),
+    scalars: new Set(),
+    functions: new Set(),
+    issues: []
+  }
+}
+
+export function validateKQL(kqlQuery: string, schemaContext: KQLValidationSchema | null): KQLValidationResult {
+  const ctx = createContext(kqlQuery, schemaContext)
+  const text = stripComments(kqlQuery)
+
+  const unbalanced = findUnbalanced(text)
+  if (unbalanced) {
+    addIssue(ctx, 'error', 'SYNTAX_ERROR', unbalanced)
+    return { valid: false, issues: ctx.issues }
+  }
+
+  const statements = splitTopLevel(text, ';').map(statement => statement.trim()).filter(Boolean)
+  if (statements.length === 0) {
+    addIssue(ctx, 'error', 'SYNTAX_ERROR', 'The query is empty')
+  }
+
+  for (const statement of statements) {
+    // .drop, .set, .ingest and every other control command
+    if (statement.startsWith('.')) {
+      const command = statement.split(/\s+/).slice(0, 2).join(' ')
+      addIssue(ctx, 'error', 'MANAGEMENT_COMMAND', `Management commands are not allowed in generated queries: ${command}`, command.split(' ')[0])
+      continue
+    }
+
+    if (/^declare\s+query_parameters\b/.test(statement)) {
+      parseDeclaredParameters(statement).forEach(parameter => ctx.scalars.add(parameter.name))
+      continue
+    }
+
+    // Request options such as `set notruncation`
+    if (/^set\s+\w/.test(statement)) continue
+
+    const letStatement = /^let\s+([A-Za-z_]\w*)\s*=\s*([\s\S]*)$/.exec(statement)
+    if (letStatement) {
+      const [, name, body] = letStatement
+      if (/^\([^)]*\)\s*\{/.test(body)) {
+        ctx.functions.add(name)
+      } else if (/^view\s*\(/.test(body)) {
+        ctx.letTables.set(name, null)
+      } else if (isTabularExpression(body, ctx)) {
+        ctx.letTables.set(name, analyzeTabular(body, ctx))
+      } else {
+        checkExpression(body, null, ctx)
+        ctx.scalars.add(name)
+      }
+      continue
+    }
+
+    analyzeTabular(statement, ctx)
+  }
+
+  return {
+    valid: !ctx.issues.some(issue => issue.severity === 'error'),
+    issues: ctx.issues
+  }
+}
@@ -0,0 +1,336 @@
+import { adxService, QueryResult } from '../services/adxService'
+import { nlToKqlService } from '../services/nlToKqlService'
+import { KQLValidationIssue } from './kqlValidator'
+import { TestScenario, vesselBatteryTestScenarios } from './testScenarios'
+import { resolveParameterValues, toInputValues } from './queryParameters'
+
+// Runs the test scenarios through NL-to-KQL conversion and scores the generated queries by
+// what they return on the mock engine compared to the expected KQL
+
+export type ScenarioStatus =
+  | 'matched'
+  | 'mismatched'
+  | 'conversion_failed'
+  | 'invalid'
+  | 'execution_failed'
+  // The expected KQL itself failed on the mock engine, so the scenario is not scored
+  | 'expected_failed'
+
+export interface ResultComparison {
+  // Overlap of the column names, 0-1
+  columnScore: number
+  missingColumns: string[]
+  extraColumns: string[]
+  // min/max of the two row counts
+  rowCountScore: number
+  // Share of values in the shared columns that match within the tolerance
+  valueScore: number
+  score: number
+  matched: boolean
+}
+
+export interface ScenarioEvaluation {
+  scenarioId: string
+  title: string
+  category: TestScenario['category']
+  difficulty: TestScenario['difficulty']
+  naturalQuery: string
+  status: ScenarioStatus
+  score: number
+  generatedKQL?: string
+  confidence?: number
+  error?: string
+  validationIssues: KQLValidationIssue[]
+  expectedRowCount?: number
+  generatedRowCount?: number
+  comparison?: ResultComparison
+  durationMs: number
+}
+
+export interface ScorecardGroup {
+  total: number
+  matched: number
+  errors: number
+  skipped: number
+  averageScore: number
+}
+
+export interface EvaluationReport {
+  startedAt: string
+  provider: string | null
+  model: string | null
+  tolerance: number
+  overall: ScorecardGroup
+  byCategory: Record<string, ScorecardGroup>
+  byDifficulty: Record<string, ScorecardGroup>
+  scenarios: ScenarioEvaluation[]
+}
+
+export interface EvaluationOptions {
+  scenarios?: TestScenario[]
+  // Relative difference allowed between numeric values
+  tolerance?: number
+  onScenario?: (evaluation: ScenarioEvaluation) => void
+}
+
+const DEFAULT_TOLERANCE = 0.01
+// Queries relative to now() run a few seconds apart, so datetimes only need to agree to the minute
+const DATETIME_TOLERANCE_MS = 60 * 1000
+const ISO_DATETIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/
+
+type ComparableValue = { kind: 'number' | 'datetime' | 'text'; value: number | string }
+
+function normalizeColumnName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function toComparable(value: unknown): ComparableValue {
+  if (typeof value === 'number') return { kind: 'number', value }
+  if (value instanceof Date) return { kind: 'datetime', value: value.getTime() }
+  if (typeof value === 'string' && ISO_DATETIME.test(value) && !isNaN(Date.parse(value))) {
+    return { kind: 'datetime', value: Date.parse(value) }
+  }
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return { kind: 'number', value: Number(value) }
+  }
+  return { kind: 'text', value: value === null || value === undefined ? '' : String(value).toLowerCase() }
+}
+
+function sortComparable(a: ComparableValue, b: ComparableValue): number {
+  if (a.kind !== b.kind) return a.kind.localeCompare(b.kind)
+  return typeof a.value === 'number' ? a.value - (b.value as number) : String(a.value).localeCompare(String(b.value))
+}
+
+function valuesMatch(a: ComparableValue, b: ComparableValue, tolerance: number): boolean {
+  if (a.kind !== b.kind) return false
+  if (a.kind === 'text') return a.value === b.value
+
+  const difference = Math.abs((a.value as number) - (b.value as number))
+  if (a.kind === 'datetime') return difference <= DATETIME_TOLERANCE_MS
+  return difference <= tolerance * Math.max(1, Math.abs(a.value as number), Math.abs(b.value as number))
+}
+
+// Row order is ignored: each shared column's values are sorted and compared position by position
+function compareColumn(expected: unknown[], generated: unknown[], tolerance: number): number {
+  const length = Math.max(expected.length, generated.length)
+  if (length === 0) return 1
+
+  const a = expected.map(toComparable).sort(sortComparable)
+  const b = generated.map(toComparable).sort(sortComparable)
+  let matching = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (valuesMatch(a[i], b[i], tolerance)) matching++
+  }
+  return matching / length
+}
+
+export function compareResults(expected: QueryResult, generated: QueryResult, tolerance: number = DEFAULT_TOLERANCE): ResultComparison {
+  const generatedByName = new Map(generated.columns.map(column => [normalizeColumnName(column), column]))
+  const expectedNames = new Set(expected.columns.map(normalizeColumnName))
+  const shared = expected.columns.filter(column => generatedByName.has(normalizeColumnName(column)))
+  const missingColumns = expected.columns.filter(column => !generatedByName.has(normalizeColumnName(column)))
+  const extraColumns = generated.columns.filter(column => !expectedNames.has(normalizeColumnName(column)))
+
+  const columnUnion = shared.length + missingColumns.length + extraColumns.length
+  const columnScore = columnUnion === 0 ? 1 : shared.length / columnUnion
+  const maxRows = Math.max(expected.rowCount, generated.rowCount)
+  const rowCountScore = maxRows === 0 ? 1 : Math.min(expected.rowCount, generated.rowCount) / maxRows
+  const valueScore = shared.length === 0
+    ? (expected.columns.length === 0 ? 1 : 0)
+    : shared.reduce((sum, column) => sum + compareColumn(
+      expected.data.map(row => row[column]),
+      generated.data.map(row => row[generatedByName.get(normalizeColumnName(column))!]),
+      tolerance
+    ), 0) / shared.length
+
+  return {
+    columnScore,
+    missingColumns,
+    extraColumns,
+    rowCountScore,
+    valueScore,
+    // Values weigh most: right answers under other column names still score well
+    score: 0.3 * columnScore + 0.3 * rowCountScore + 0.4 * valueScore,
+    matched: missingColumns.length === 0 && expected.rowCount === generated.rowCount && valueScore === 1
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+async function evaluateScenario(scenario: TestScenario, tolerance: number): Promise<ScenarioEvaluation> {
+  const startTime = Date.now()
+  const evaluation: ScenarioEvaluation = {
+    scenarioId: scenario.id,
+    title: scenario.title,
+    category: scenario.category,
+    difficulty: scenario.difficulty,
+    naturalQuery: scenario.naturalQuery,
+    status: 'matched',
+    score: 0,
+    validationIssues: [],
+    durationMs: 0
+  }
+  const finish = (changes: Partial<ScenarioEvaluation>): ScenarioEvaluation =>
+    Object.assign(evaluation, changes, { durationMs: Date.now() - startTime })
+
+  let expected: QueryResult
+  try {
+    expected = await adxService.executeQuery(scenario.expectedKQL, { bypassCache: true })
+  } catch (error) {
+    return finish({ status: 'expected_failed', error: errorMessage(error) })
+  }
+  evaluation.expectedRowCount = expected.rowCount
+
+  // Each scenario is a fresh question, and must not see its own expected KQL as an example
+  nlToKqlService.startNewConversation()
+  let conversion
+  try {
+    conversion = await nlToKqlService.convertToKQL(scenario.naturalQuery, { excludeFromExamples: [scenario.naturalQuery] })
+  } catch (error) {
+    return finish({ status: 'conversion_failed', error: errorMessage(error) })
+  }
+
+  evaluation.generatedKQL = conversion.kqlQuery
+  evaluation.confidence = conversion.confidence
+  const validation = conversion.validation ?? nlToKqlService.validateKQL(conversion.kqlQuery)
+  evaluation.validationIssues = validation.issues
+  if (!validation.valid) {
+    return finish({ status: 'invalid', error: validation.issues.filter(issue => issue.severity === 'error').map(issue => issue.message).join('; ') })
+  }
+
+  let generated: QueryResult
+  try {
+    const parameters = conversion.parameters || []
+    generated = await adxService.executeQuery(conversion.kqlQuery, {
+      parameters: resolveParameterValues(parameters, toInputValues(parameters)),
+      bypassCache: true
+    })
+  } catch (error) {
+    return finish({ status: 'execution_failed', error: errorMessage(error) })
+  }
+
+  const comparison = compareResults(expected, generated, tolerance)
+  return finish({
+    status: comparison.matched ? 'matched' : 'mismatched',
+    score: comparison.score,
+    generatedRowCount: generated.rowCount,
+    comparison
+  })
+}
+
+function summarize(evaluations: ScenarioEvaluation[]): ScorecardGroup {
+  const scored = evaluations.filter(evaluation => evaluation.status !== 'expected_failed')
+  return {
+    total: scored.length,
+    matched: scored.filter(evaluation => evaluation.status === 'matched').length,
+    errors: scored.filter(evaluation => !['matched', 'mismatched'].includes(evaluation.status)).length,
+    skipped: evaluations.length - scored.length,
+    averageScore: scored.length === 0 ? 0 : scored.reduce((sum, evaluation) => sum + evaluation.score, 0) / scored.length
+  }
+}
+
+function groupBy(evaluations: ScenarioEvaluation[], key: 'category' | 'difficulty'): Record<string, ScorecardGroup> {
+  const groups: Record<string, ScenarioEvaluation[]> = {}
+  evaluations.forEach(evaluation => {
+    (groups[evaluation[key]] ??= []).push(evaluation)
+  })
+  return Object.fromEntries(Object.entries(groups).map(([name, members]) => [name, summarize(members)]))
+}
+
+/**
+ * Converts and runs every scenario one at a time. adxService must be connected to
+ * the mock engine, and the LLM provider is whichever the nl2kql API is configured with.
+ */
+export async function runEvaluation(options: EvaluationOptions = {}): Promise<EvaluationReport> {
+  if (!adxService.isMockMode()) {
+    throw new Error('The evaluation compares results on the mock engine; connect with mock data first')
+  }
+
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE
+  const scenarios = options.scenarios ?? vesselBatteryTestScenarios
+  const modelInfo = await nlToKqlService.getModelInfo()
+  const startedAt = new Date().toISOString()
+
+  const evaluations: ScenarioEvaluation[] = []
+  for (const scenario of scenarios) {
+    const evaluation = await evaluateScenario(scenario, tolerance)
+    evaluations.push(evaluation)
+    options.onScenario?.(evaluation)
+  }
+  nlToKqlService.startNewConversation()
+
+  return {
+    startedAt,
+    provider: modelInfo.provider,
+    model: modelInfo.model,
+    tolerance,
+    overall: summarize(evaluations),
+    byCategory: groupBy(evaluations, 'category'),
+    byDifficulty: groupBy(evaluations, 'difficulty'),
+    scenarios: evaluations
+  }
+}
+
+const STATUS_ICONS: Record<ScenarioStatus, string> = {
+  matched: '✅',
+  mismatched: '❌',
+  conversion_failed: '💥',
+  invalid: '⛔',
+  execution_failed: '💥',
+  expected_failed: '⏭️'
+}
+
+function formatDelta(current: number, previous: number | undefined): string {
+  if (previous === undefined) return ''
+  const delta = current - previous
+  return Math.abs(delta) < 0.005 ? ' (±0.00)' : ` (${delta > 0 ? '+' : ''}${delta.toFixed(2)})`
+}
+
+function formatGroups(title: string, groups: Record<string, ScorecardGroup>, baseline?: Record<string, ScorecardGroup>): string[] {
+  const width = Math.max(title.length, ...Object.keys(groups).map(name => name.length)) + 2
+  return [
+    `${title.padEnd(width)}matched  score`,
+    ...Object.entries(groups).map(([name, group]) =>
+      `${name.padEnd(width)}${`${group.matched}/${group.total}`.padEnd(9)}${group.averageScore.toFixed(2)}${formatDelta(group.averageScore, baseline?.[name]?.averageScore)}` +
+      (group.errors > 0 ? `  ${group.errors} error(s)` : '')
+    )
+  ]
+}
+
+// Plain-text scorecard; with a baseline report, score changes are shown next to each score
+export function formatScorecard(report: EvaluationReport, baseline?: EvaluationReport): string {
+  const { overall } = report
+  const lines = [
+    `NL-to-KQL evaluation: ${report.provider ?? 'no provider'} / ${report.model ?? 'no model'} (${report.startedAt})`,
+    ...(baseline ? [`Compared with ${baseline.provider ?? 'no provider'} / ${baseline.model ?? 'no model'} (${baseline.startedAt})`] : []),
+    `Overall: ${overall.matched}/${overall.total} matched, score ${overall.averageScore.toFixed(2)}${formatDelta(overall.averageScore, baseline?.overall.averageScore)}` +
+      `, ${overall.errors} error(s)${overall.skipped > 0 ? `, ${overall.skipped} skipped` : ''}`,
+    '',
+    ...formatGroups('Category', report.byCategory, baseline?.byCategory),
+    '',
+    ...formatGroups('Difficulty', report.byDifficulty, baseline?.byDifficulty),
+    '',
+    'Scenarios:'
+  ]
+
+  const baselineScores = new Map(baseline?.scenarios.map(evaluation => [evaluation.scenarioId, evaluation.score]))
+  const idWidth = Math.max(...report.scenarios.map(evaluation => evaluation.scenarioId.length)) + 2
+  for (const evaluation of report.scenarios) {
+    const detail = evaluation.error
+      ? `${evaluation.status.replace('_', ' ')}: ${evaluation.error}`
+      : evaluation.comparison && !evaluation.comparison.matched
+        ? [
+          `rows ${evaluation.generatedRowCount}/${evaluation.expectedRowCount}`,
+          evaluation.comparison.missingColumns.length > 0 ? `missing ${evaluation.comparison.missingColumns.join(', ')}` : '',
+          `values ${Math.round(evaluation.comparison.valueScore * 100)}%`
+        ].filter(Boolean).join(', ')
+        : ''
+    lines.push(
+      `${STATUS_ICONS[evaluation.status]} ${evaluation.scenarioId.padEnd(idWidth)}${evaluation.score.toFixed(2)}` +
+      `${formatDelta(evaluation.score, baselineScores.get(evaluation.scenarioId))}${detail ? `  ${detail}` : ''}`
+    )
+  }
+  return lines.join('\n')
+}
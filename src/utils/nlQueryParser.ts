@@ -0,0 +1,1051 @@
+import { QueryParameterDefinition, buildParameterDeclaration } from './queryParameters'
+import { SchemaColumn, SchemaTable, contentWords, rankSchema, tokenize } from './schemaRetrieval'
+import { ResolvedTimeRange, TimeExpressionOptions, buildTimeFilter, findTimeExpression } from './timeExpressions'
+import { VesselMention, isAmbiguous } from './vesselResolver'
+
+/**
+ * Offline natural language to KQL: a small grammar of time ranges, row limits,
+ * comparisons, known column values, aggregations and group-bys, matched against
+ * one table of the schema. Used when no LLM provider is configured.
+ */
+
+export type AggregateFunction = 'count' | 'dcount' | 'avg' | 'min' | 'max' | 'sum'
+export type ComparisonOperator = '<' | '<=' | '>' | '>=' | '=='
+
+export interface TimeRange extends ResolvedTimeRange {
+  // The datetime column the range applies to
+  column: string
+}
+
+export interface Comparison {
+  column: string
+  operator: ComparisonOperator
+  value: number
+  // Which end of a "between" range this is
+  bound?: 'min' | 'max'
+}
+
+// Comparisons joined with "or", e.g. temperature above 45 or below -5
+export type ComparisonGroup = Comparison[]
+
+export interface ValueFilter {
+  column: string
+  values: string[]
+  negated: boolean
+  // Vessel names for vessel ids the resolver found, shown in the explanation
+  labels?: string[]
+}
+
+export interface BooleanFilter {
+  column: string
+  value: boolean
+}
+
+export interface Aggregation {
+  fn: AggregateFunction
+  column?: string
+}
+
+export interface GroupKey {
+  column: string
+  // Bin size for datetime keys, e.g. 1h
+  bin?: string
+}
+
+export interface RowLimit {
+  count: number
+  column?: string
+  descending: boolean
+}
+
+export interface ParsedQuestion {
+  table: SchemaTable
+  timeRange: TimeRange | null
+  comparisons: ComparisonGroup[]
+  valueFilters: ValueFilter[]
+  booleanFilters: BooleanFilter[]
+  aggregations: Aggregation[]
+  groupBy: GroupKey[]
+  limit: RowLimit | null
+  // Columns the question mentions without filtering or aggregating them
+  columns: string[]
+  // Share of the question's meaningful words the grammar understood, 0-1
+  understood: number
+}
+
+export interface OfflineConversion {
+  kqlQuery: string
+  explanation: string
+  confidence: number
+  suggestedVisualizations: string[]
+  parameters: QueryParameterDefinition[]
+}
+
+interface Token {
+  text: string
+  // Stemmed form, for matching column names and values
+  stem: string
+  // Position in the question
+  offset: number
+}
+
+// Rows returned when the question sets no limit of its own
+const DEFAULT_ROW_LIMIT = 100
+const NUMERIC_TYPES = new Set(['real', 'int', 'long', 'decimal', 'double'])
+// Columns whose values add up across rows, so groups show their sum rather than their average
+const ADDITIVE_COLUMN = /cost|hours|consumption|count|total|amount/i
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30
+}
+
+// Bin sizes for "hourly", "by day" and the like
+const TIME_BINS: Record<string, string> = {
+  minute: '1m', hourly: '1h', hour: '1h', daily: '1d', day: '1d', weekly: '7d', week: '7d', monthly: '30d', month: '30d'
+}
+
+// Longest phrases first, so "less than or equal to" is not read as "less than"
+const COMPARATORS: [string[], ComparisonOperator][] = [
+  [['less', 'than', 'or', 'equal', 'to'], '<='],
+  [['greater', 'than', 'or', 'equal', 'to'], '>='],
+  [['no', 'more', 'than'], '<='],
+  [['no', 'less', 'than'], '>='],
+  [['at', 'most'], '<='],
+  [['at', 'least'], '>='],
+  [['up', 'to'], '<='],
+  [['less', 'than'], '<'],
+  [['lower', 'than'], '<'],
+  [['fewer', 'than'], '<'],
+  [['smaller', 'than'], '<'],
+  [['more', 'than'], '>'],
+  [['greater', 'than'], '>'],
+  [['higher', 'than'], '>'],
+  [['larger', 'than'], '>'],
+  [['equal', 'to'], '=='],
+  [['below'], '<'],
+  [['under'], '<'],
+  [['<'], '<'],
+  [['<='], '<='],
+  [['above'], '>'],
+  [['over'], '>'],
+  [['exceed'], '>'],
+  [['exceeds'], '>'],
+  [['exceeding'], '>'],
+  [['>'], '>'],
+  [['>='], '>='],
+  [['equals'], '=='],
+  [['exactly'], '=='],
+  [['='], '==']
+]
+
+const AGGREGATE_WORDS: Record<string, AggregateFunction> = {
+  average: 'avg', avg: 'avg', mean: 'avg',
+  maximum: 'max', max: 'max', peak: 'max', highest: 'max',
+  minimum: 'min', min: 'min', lowest: 'min',
+  total: 'sum', sum: 'sum',
+  count: 'count'
+}
+
+// What "low battery health" or "high temperature" means when no number is given, by column name
+const QUALITATIVE_THRESHOLDS: Record<string, { low?: number; high?: number }> = {
+  batteryhealth: { low: 85 },
+  health: { low: 85 },
+  stateofcharge: { low: 20, high: 90 },
+  temperature: { low: 5, high: 40 },
+  voltage: { low: 11.5, high: 52 },
+  windspeed: { high: 25 },
+  waveheight: { high: 3 },
+  visibility: { low: 2 }
+}
+
+const LOW_WORDS = new Set(['low', 'poor', 'degraded', 'weak', 'cold', 'bad'])
+const HIGH_WORDS = new Set(['high', 'hot', 'overheating', 'overheat', 'strong', 'elevated', 'excessive'])
+const ANOMALY_WORDS = new Set(['anomaly', 'anomalie', 'abnormal', 'unusual', 'outlier', 'extreme'])
+const NEGATION_WORDS = new Set(['not', 'no', 'without', 'except', 'excluding', 'non'])
+// Words that mean the opposite of a boolean column such as resolved or completed
+const OPEN_WORDS = new Set(['open', 'active', 'outstanding', 'unresolved', 'unacknowledged', 'ongoing'])
+const CLOSED_VALUE = /^(completed?|resolved|closed|done|cancell?ed)$/i
+
+// Conditions on several columns that people name with one word
+const NAMED_CONDITIONS: { words: string[]; columns: string[]; comparisons: Comparison[] }[] = [
+  {
+    words: ['storm', 'stormy', 'rough', 'severe'],
+    columns: ['windSpeed', 'waveHeight'],
+    comparisons: [{ column: 'windSpeed', operator: '>', value: 25 }, { column: 'waveHeight', operator: '>', value: 3 }]
+  }
+]
+
+// Words that carry no slot of their own; they are not counted against understanding
+const FILLER_WORDS = new Set([
+  'a', 'about', 'all', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'by', 'can', 'data', 'did', 'display',
+  'do', 'does', 'each', 'entries', 'entry', 'find', 'for', 'from', 'get', 'give', 'had', 'has', 'have', 'how', 'i',
+  'in', 'info', 'information', 'is', 'it', 'its', 'list', 'me', 'my', 'of', 'on', 'or', 'our', 'over', 'please',
+  'record', 'records', 'row', 'rows', 'see', 'show', 'tell', 'than', 'that', 'the', 'their', 'them', 'there',
+  'these', 'they', 'this', 'those', 'to', 'us', 'value', 'values', 'want', 'was', 'we', 'were', 'what', 'when',
+  'where', 'which', 'who', 'with', 'would', 'you'
+])
+
+const WORD = /-?\d+(?:\.\d+)?|[a-z][a-z0-9_]*(?:-[a-z0-9]+)*|[<>]=?|=/g
+
+function lex(question: string): Token[] {
+  return [...question.toLowerCase().matchAll(WORD)].map(match => ({ text: match[0], stem: tokenize(match[0])[0] ?? match[0], offset: match.index! }))
+}
+
+function parseNumber(text: string | undefined): number | null {
+  if (text === undefined) return null
+  if (/^-?\d+(?:\.\d+)?$/.test(text)) return Number(text)
+  return NUMBER_WORDS[text] ?? null
+}
+
+function isNumericColumn(column: SchemaColumn): boolean {
+  return NUMERIC_TYPES.has(column.type.toLowerCase())
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+function humanize(column: string): string {
+  return column.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/_/g, ' ').toLowerCase()
+}
+
+// The datetime column a time range applies to: timestamp-like names first
+function findTimeColumn(table: SchemaTable): string | undefined {
+  const datetimes = table.columns.filter(column => column.type.toLowerCase() === 'datetime')
+  const preferred = datetimes.find(column => /time|date/i.test(column.name) && !/(^|[a-z])(completed|resolved|acknowledged|estimated)/i.test(column.name))
+  return (preferred ?? datetimes[0])?.name
+}
+
+function columnWords(column: SchemaColumn): Set<string> {
+  return new Set(tokenize(column.name))
+}
+
+/**
+ * Picks the one table a question is about. Tables whose own column names cover
+ * more of the question's words win ("average voltage by vessel" needs voltage and
+ * vessel, not just a vessel table); the schema ranking breaks ties, including
+ * its boost for the tables of earlier queries.
+ */
+export function selectTable(question: string, tables: SchemaTable[], recentQueries: string[] = []): SchemaTable | null {
+  const words = new Set(contentWords(question))
+  const scored = rankSchema(question, tables, recentQueries).map(entry => {
+    const names = new Set([...tokenize(entry.table.name), ...entry.table.columns.flatMap(column => tokenize(column.name))])
+    return {
+      table: entry.table,
+      coverage: [...words].filter(word => names.has(word)).length,
+      // Columns named in full: "temperature" is temperature, not airTemperature
+      exact: entry.table.columns.filter(column => tokenize(column.name).every(word => words.has(word))).length,
+      score: entry.score
+    }
+  })
+  scored.sort((a, b) => b.coverage - a.coverage || b.exact - a.exact || b.score - a.score)
+  return scored[0]?.table ?? null
+}
+
+class QuestionParser {
+  private readonly tokens: Token[]
+  private readonly used: boolean[]
+  private readonly parsed: ParsedQuestion
+
+  constructor(
+    private readonly question: string,
+    private readonly table: SchemaTable,
+    private readonly knownValues: Record<string, string[]>,
+    private readonly timeOptions: TimeExpressionOptions,
+    private readonly vessels: VesselMention[]
+  ) {
+    this.tokens = lex(question)
+    this.used = this.tokens.map(() => false)
+    this.parsed = {
+      table,
+      timeRange: null,
+      comparisons: [],
+      valueFilters: [],
+      booleanFilters: [],
+      aggregations: [],
+      groupBy: [],
+      limit: null,
+      columns: [],
+      understood: 0
+    }
+  }
+
+  parse(): ParsedQuestion {
+    this.markTableWords()
+    this.parseTimeRange()
+    this.parseVesselMentions()
+    this.parseLimit()
+    this.parseComparisons()
+    this.parseNamedConditions()
+    this.parseQualitativeConditions()
+    this.parseValueFilters()
+    this.parseBooleanFilters()
+    this.parseGroupBy()
+    this.parseAggregations()
+    this.parseWhichQuestion()
+    this.parseMentionedColumns()
+    this.completeAggregations()
+    this.parsed.understood = this.measureUnderstanding()
+    return this.parsed
+  }
+
+  private word(index: number): string | undefined {
+    return this.tokens[index]?.text
+  }
+
+  private use(from: number, to: number = from): void {
+    for (let i = from; i <= to && i < this.used.length; i++) {
+      this.used[i] = true
+    }
+  }
+
+  private matches(index: number, phrase: string[]): boolean {
+    return phrase.every((word, offset) => this.word(index + offset) === word && !this.used[index + offset])
+  }
+
+  // Words naming the table ("maintenance", "alerts") chose it; they are not values to filter on.
+  // After "by" or "which" they still name a group key: "maintenance cost by vessel".
+  private markTableWords(): void {
+    const tableWords = new Set(tokenize(this.table.name))
+    this.tokens.forEach((token, index) => {
+      const groupCue = index > 0 && ['by', 'per', 'each', 'every', 'which', 'many'].includes(this.word(index - 1)!)
+      if (tableWords.has(token.stem) && !groupCue) this.use(index)
+    })
+  }
+
+  /**
+   * The column a few words name, e.g. "battery health" or "temp".
+   * Only the name counts, or a synonym of it; descriptions alone are too loose here.
+   */
+  private resolveColumn(from: number, to: number, filter: (column: SchemaColumn) => boolean = () => true): { column: string; score: number } | null {
+    const phrase = this.tokens.slice(from, to + 1).filter((_token, offset) => !this.used[from + offset]).map(token => token.text).join(' ')
+    if (!phrase.trim()) return null
+
+    const [ranked] = rankSchema(phrase, [{ ...this.table, description: undefined, columns: this.table.columns.map(column => ({ ...column, description: undefined })) }])
+    const best = ranked.columns
+      .filter(({ column }) => filter(this.table.columns.find(c => c.name === column.name)!))
+      .sort((a, b) => b.score - a.score)[0]
+    return best && best.score >= 1.5 ? { column: best.column.name, score: best.score } : null
+  }
+
+  // Marks the words of the phrase that name the column
+  private useColumnWords(from: number, to: number, column: string): void {
+    const words = columnWords(this.table.columns.find(c => c.name === column)!)
+    for (let i = Math.max(0, from); i <= to && i < this.tokens.length; i++) {
+      if (words.has(this.tokens[i].stem) || this.columnSynonymMatches(this.tokens[i].text, column)) this.use(i)
+    }
+  }
+
+  private columnSynonymMatches(word: string, column: string): boolean {
+    const [ranked] = rankSchema(word, [{ name: this.table.name, columns: this.table.columns.filter(c => c.name === column) }])
+    return (ranked?.columns[0]?.score ?? 0) > 0
+  }
+
+  private parseTimeRange(): void {
+    const column = findTimeColumn(this.table)
+    const range = column ? findTimeExpression(this.question, this.timeOptions) : null
+    if (!column || !range) return
+
+    const first = this.tokens.findIndex(token => token.offset >= range.index)
+    const last = this.tokens.reduce((found, token, index) => (token.offset < range.index + range.text.length ? index : found), -1)
+    if (first < 0 || last < first) return
+
+    // "in the", "over the", "during the" belong to the range
+    let start = first
+    while (start > 0 && ['in', 'over', 'during', 'for', 'the', 'within', 'from'].includes(this.word(start - 1)!)) start--
+    this.use(start, last)
+    this.parsed.timeRange = { ...range, column }
+  }
+
+  // Vessels the resolver found ("atlantic", "CGO1", "the research vessel", "cargo vessels"), filtered by id where the table has one
+  private parseVesselMentions(): void {
+    const column = this.table.columns.find(c => /vessel/i.test(c.name) && /id$/i.test(c.name)) ??
+      this.table.columns.find(c => /vessel/i.test(c.name) && /name/i.test(c.name))
+    const resolved = this.vessels.filter(found => !isAmbiguous(found))
+    if (!column || resolved.length === 0) return
+
+    const filter: ValueFilter = { column: column.name, values: [], negated: false, labels: [] }
+    for (const found of resolved) {
+      const first = this.tokens.findIndex(token => token.offset >= found.index)
+      const last = this.tokens.reduce((at, token, index) => (token.offset < found.index + found.text.length ? index : at), -1)
+      if (first < 0 || last < first) continue
+
+      // "vessel CGO1", "the Nordic ship", "cargo vessels"
+      const nouns = ['vessel', 'ship', 'boat', 'vessels', 'ships', 'boats']
+      this.use(first > 0 && nouns.includes(this.word(first - 1)!) ? first - 1 : first, nouns.includes(this.word(last + 1) ?? '') ? last + 1 : last)
+      for (const vessel of found.candidates) {
+        const value = /id$/i.test(column.name) ? vessel.vesselId : vessel.vesselName
+        if (filter.values.includes(value)) continue
+        filter.values.push(value)
+        filter.labels!.push(vessel.vesselName)
+      }
+    }
+    if (filter.values.length > 0) this.parsed.valueFilters.push(filter)
+  }
+
+  private parseLimit(): void {
+    const timeColumn = findTimeColumn(this.table)
+    for (let i = 0; i < this.tokens.length; i++) {
+      if (this.used[i]) continue
+      const word = this.word(i)!
+
+      // top 10 [by] x, first 5, latest 20
+      if (['top', 'first', 'latest', 'newest', 'last', 'oldest', 'bottom'].includes(word)) {
+        const count = parseNumber(this.word(i + 1))
+        const recent = word === 'latest' || word === 'newest' || word === 'last'
+        if (count === null && !recent) continue
+        this.use(i, count === null ? i : i + 1)
+        const limit: RowLimit = { count: count ?? 1, descending: word !== 'bottom' && word !== 'oldest' && word !== 'first' }
+        if (recent || word === 'oldest' || word === 'first') {
+          limit.column = timeColumn
+        } else {
+          limit.column = this.resolveSortColumn(i + 2)
+        }
+        this.parsed.limit = limit
+        return
+      }
+
+      // 5 highest temperatures, 3 lowest battery health readings
+      const count = parseNumber(word)
+      const direction = this.word(i + 1)
+      if (count !== null && Number.isInteger(count) && ['highest', 'lowest', 'largest', 'smallest', 'most', 'least', 'worst', 'best'].includes(direction ?? '')) {
+        this.use(i, i + 1)
+        this.parsed.limit = {
+          count,
+          descending: ['highest', 'largest', 'most', 'best'].includes(direction!),
+          column: this.resolveSortColumn(i + 2)
+        }
+        return
+      }
+    }
+  }
+
+  // "by temperature" or just "temperature" after the limit
+  private resolveSortColumn(from: number): string | undefined {
+    const start = this.word(from) === 'by' ? from + 1 : from
+    for (let length = 3; length >= 1; length--) {
+      const match = this.resolveColumn(start, start + length - 1, isNumericColumn)
+      if (match) {
+        if (start > from) this.use(from)
+        this.useColumnWords(start, start + length - 1, match.column)
+        return match.column
+      }
+    }
+
+    // "top 5 vessels by voltage" ranks vessels, so they become the group key
+    const by = this.tokens.findIndex((token, index) => index > from && index <= from + 3 && token.text === 'by' && !this.used[index])
+    if (by < 0) return undefined
+    const entity = this.resolveGroupColumn(from)
+    if (entity) this.addGroupKey({ column: entity })
+
+    // "by average voltage" leaves the function word to parseAggregations
+    const aggregated = AGGREGATE_WORDS[this.word(by + 1) ?? ''] !== undefined
+    const next = aggregated ? by + 2 : by + 1
+    const match = this.resolveColumn(next, next + 2, isNumericColumn)
+    if (!match) return undefined
+    this.use(by)
+    if (!aggregated) this.useColumnWords(next, next + 2, match.column)
+    return match.column
+  }
+
+  private comparatorAt(index: number): { operator: ComparisonOperator; length: number } | null {
+    for (const [phrase, operator] of COMPARATORS) {
+      if (this.matches(index, phrase)) {
+        return { operator, length: phrase.length }
+      }
+    }
+    return null
+  }
+
+  // The numeric column a comparison is about: the words just before it, or failing that just after the number
+  private comparisonColumn(comparatorIndex: number, afterNumber: number, previous: string | null): string | null {
+    let from = comparatorIndex - 1
+    while (from >= 0 && ['is', 'are', 'was', 'were', 'with', 'has', 'have', 'of', 'its', 'their', 'the', 'where', 'whose', 'and', 'or'].includes(this.word(from)!)) from--
+    if (from >= 0) {
+      // Up to three words, so "battery health" is read as one column rather than "health"
+      const before = this.resolveColumn(Math.max(0, from - 2), from, isNumericColumn)
+      if (before) {
+        this.useColumnWords(Math.max(0, from - 2), from, before.column)
+        return before.column
+      }
+    }
+    const after = this.resolveColumn(afterNumber, afterNumber + 2, isNumericColumn)
+    if (after) {
+      this.useColumnWords(afterNumber, afterNumber + 2, after.column)
+      return after.column
+    }
+    // "temperature above 45 or below -5": the second comparison keeps the first one's column
+    return previous
+  }
+
+  private parseComparisons(): void {
+    let previous: Comparison | null = null
+    let previousEnd = -1
+
+    for (let i = 0; i < this.tokens.length; i++) {
+      if (this.used[i]) continue
+
+      if (this.matches(i, ['between'])) {
+        const low = parseNumber(this.word(i + 1))
+        const high = parseNumber(this.word(i + 3))
+        if (low !== null && high !== null && ['and', 'to'].includes(this.word(i + 2)!)) {
+          this.use(i, i + 3)
+          const column = this.comparisonColumn(i, i + 4, previous?.column ?? null)
+          if (column) {
+            this.skipUnit(i + 4)
+            this.parsed.comparisons.push([{ column, operator: '>=', value: low, bound: 'min' }], [{ column, operator: '<=', value: high, bound: 'max' }])
+            previous = null
+          }
+          continue
+        }
+      }
+
+      const comparator = this.comparatorAt(i)
+      if (!comparator) continue
+      const numberIndex = i + comparator.length
+      const value = parseNumber(this.word(numberIndex)?.replace(/%$/, ''))
+      if (value === null) continue
+
+      this.use(i, numberIndex)
+      this.skipUnit(numberIndex + 1)
+      const column = this.comparisonColumn(i, numberIndex + 1, previous?.column ?? null)
+      if (!column) continue
+
+      const comparison: Comparison = { column, operator: comparator.operator, value }
+      const joinedByOr = previous !== null && this.tokens.slice(previousEnd + 1, i).some(token => token.text === 'or')
+      if (joinedByOr) {
+        this.parsed.comparisons[this.parsed.comparisons.length - 1].push(comparison)
+      } else {
+        this.parsed.comparisons.push([comparison])
+      }
+      previous = comparison
+      previousEnd = numberIndex
+    }
+  }
+
+  // Units after a number say nothing the column does not already
+  private skipUnit(index: number): void {
+    if (['%', 'percent', 'degrees', 'degree', 'c', 'celsius', 'v', 'volts', 'volt', 'kw', 'knots', 'knot', 'm', 'meters', 'metres', 'amps', 'a', 'hours', 'kwh'].includes(this.word(index) ?? '')) {
+      this.use(index)
+    }
+  }
+
+  private parseNamedConditions(): void {
+    for (const condition of NAMED_CONDITIONS) {
+      const index = this.tokens.findIndex((token, i) => !this.used[i] && condition.words.includes(token.text))
+      const available = condition.columns.every(name => this.table.columns.some(column => column.name === name))
+      if (index >= 0 && available) {
+        this.use(index)
+        this.parsed.comparisons.push(condition.comparisons.map(comparison => ({ ...comparison })))
+      }
+    }
+  }
+
+  // "low battery health", "high temperatures", "temperature anomalies"
+  private parseQualitativeConditions(): void {
+    for (let i = 0; i < this.tokens.length; i++) {
+      if (this.used[i]) continue
+      const word = this.word(i)!
+      const low = LOW_WORDS.has(word)
+      const high = HIGH_WORDS.has(word)
+      const anomaly = ANOMALY_WORDS.has(this.tokens[i].stem)
+      if (!low && !high && !anomaly) continue
+
+      // The metric follows "low"/"high" and precedes "anomalies"
+      const match = anomaly
+        ? this.resolveColumn(Math.max(0, i - 3), i - 1, isNumericColumn) ?? this.resolveColumn(i + 1, i + 3, isNumericColumn)
+        : this.resolveColumn(i + 1, i + 3, isNumericColumn)
+      if (!match || this.parsed.comparisons.some(group => group.some(comparison => comparison.column === match.column))) continue
+
+      const thresholds = QUALITATIVE_THRESHOLDS[match.column.toLowerCase()]
+      if (!thresholds) continue
+
+      if (anomaly && thresholds.low !== undefined && thresholds.high !== undefined) {
+        this.parsed.comparisons.push([
+          { column: match.column, operator: '>', value: thresholds.high },
+          { column: match.column, operator: '<', value: thresholds.low }
+        ])
+      } else if (low && thresholds.low !== undefined) {
+        this.parsed.comparisons.push([{ column: match.column, operator: '<', value: thresholds.low }])
+      } else if (high && thresholds.high !== undefined) {
+        this.parsed.comparisons.push([{ column: match.column, operator: '>', value: thresholds.high }])
+      } else {
+        continue
+      }
+      this.use(i)
+      this.useColumnWords(Math.max(0, i - 3), i + 3, match.column)
+    }
+  }
+
+  // Known values of string columns mentioned by name: vessel names, statuses, severities
+  private parseValueFilters(): void {
+    const candidates = Object.entries(this.knownValues)
+      .filter(([column]) => this.table.columns.some(c => c.name === column))
+      .flatMap(([column, values]) => values.map(value => ({ column, value, stems: tokenize(value) })))
+      .filter(candidate => candidate.stems.length > 0)
+      // Longer values first so "Atlantic Carrier" wins over "Atlantic"
+      .sort((a, b) => b.stems.length - a.stems.length)
+
+    const filters = new Map<string, ValueFilter>()
+    for (let i = 0; i < this.tokens.length; i++) {
+      if (this.used[i]) continue
+      const matching = candidates.filter(candidate =>
+        candidate.stems.every((stem, offset) => this.tokens[i + offset]?.stem === stem && !this.used[i + offset]))
+      if (matching.length === 0) continue
+
+      const length = matching[0].stems.length
+      // The same value in several columns ("critical" severity or priority): prefer a column named nearby
+      const nearby = new Set(this.tokens.slice(Math.max(0, i - 2), i + length + 2).map(token => token.stem))
+      const best = matching
+        .filter(candidate => candidate.stems.length === length)
+        .sort((a, b) => Number([...columnWords(this.columnByName(b.column))].some(w => nearby.has(w))) -
+          Number([...columnWords(this.columnByName(a.column))].some(w => nearby.has(w))))[0]
+
+      const negated = i > 0 && NEGATION_WORDS.has(this.word(i - 1)!)
+      this.use(negated ? i - 1 : i, i + length - 1)
+      this.useColumnWords(Math.max(0, i - 2), i + length + 1, best.column)
+
+      const key = `${best.column}:${negated}`
+      const filter = filters.get(key) ?? { column: best.column, values: [], negated }
+      if (!filter.values.includes(best.value)) filter.values.push(best.value)
+      filters.set(key, filter)
+      i += length - 1
+    }
+    this.parsed.valueFilters.push(...filters.values())
+
+    this.parsePartialVesselName()
+  }
+
+  private columnByName(name: string): SchemaColumn {
+    return this.table.columns.find(column => column.name === name)!
+  }
+
+  // "vessel Atlantic" or "for Pacific" when the full name is not given
+  private parsePartialVesselName(): void {
+    const nameColumn = this.table.columns.find(column => /vessel/i.test(column.name) && /name/i.test(column.name))
+    if (!nameColumn || this.parsed.valueFilters.some(filter => /vessel/i.test(filter.column))) return
+
+    const firstWords = new Set((this.knownValues[nameColumn.name] ?? []).map(name => tokenize(name)[0]))
+    for (let i = 0; i < this.tokens.length; i++) {
+      const afterVessel = i > 0 && ['vessel', 'ship', 'boat'].includes(this.tokens[i - 1].stem)
+      const name = this.word(i)!
+      if (this.used[i] || FILLER_WORDS.has(name) || /^-?\d/.test(name) || this.isKnownWord(name)) continue
+      if (!afterVessel && !firstWords.has(this.tokens[i].stem)) continue
+
+      this.use(afterVessel ? i - 1 : i, i)
+      this.parsed.valueFilters.push({ column: nameColumn.name, values: [name], negated: false })
+      return
+    }
+  }
+
+  // Words the grammar has a use for are not vessel names
+  private isKnownWord(word: string): boolean {
+    return word in AGGREGATE_WORDS || word in NUMBER_WORDS || LOW_WORDS.has(word) || HIGH_WORDS.has(word) ||
+      NEGATION_WORDS.has(word) || OPEN_WORDS.has(word) || COMPARATORS.some(([phrase]) => phrase[0] === word) ||
+      this.table.columns.some(column => columnWords(column).has(tokenize(word)[0] ?? word))
+  }
+
+  // "unresolved alerts", "acknowledged events", "not resolved"
+  private parseBooleanFilters(): void {
+    const booleans = this.table.columns.filter(column => column.type.toLowerCase() === 'bool' || column.type.toLowerCase() === 'boolean')
+    for (const column of booleans) {
+      const stem = tokenize(column.name)[0]
+      for (let i = 0; i < this.tokens.length; i++) {
+        if (this.used[i]) continue
+        const word = this.word(i)!
+        if (this.tokens[i].stem === stem) {
+          const negated = i > 0 && NEGATION_WORDS.has(this.word(i - 1)!)
+          this.use(negated ? i - 1 : i, i)
+          this.parsed.booleanFilters.push({ column: column.name, value: !negated })
+          break
+        }
+        if (tokenize(word.replace(/^un/, ''))[0] === stem && word.startsWith('un')) {
+          this.use(i)
+          this.parsed.booleanFilters.push({ column: column.name, value: false })
+          break
+        }
+        // "open" alerts are the unresolved ones
+        if (OPEN_WORDS.has(word) && /resolv|clos|complet/i.test(column.name)) {
+          this.use(i)
+          this.parsed.booleanFilters.push({ column: column.name, value: false })
+          break
+        }
+      }
+    }
+
+    // "open maintenance" on a status column excludes its finished values
+    const open = this.tokens.findIndex((token, i) => !this.used[i] && OPEN_WORDS.has(token.text))
+    if (open < 0) return
+    for (const [column, values] of Object.entries(this.knownValues)) {
+      const closed = values.filter(value => CLOSED_VALUE.test(value))
+      if (closed.length > 0 && this.table.columns.some(c => c.name === column)) {
+        this.use(open)
+        this.parsed.valueFilters.push({ column, values: closed, negated: true })
+        return
+      }
+    }
+  }
+
+  private parseGroupBy(): void {
+    const timeColumn = findTimeColumn(this.table)
+
+    for (let i = 0; i < this.tokens.length; i++) {
+      if (this.used[i]) continue
+      const word = this.word(i)!
+
+      // hourly, daily, weekly
+      if (timeColumn && ['hourly', 'daily', 'weekly', 'monthly'].includes(word)) {
+        this.use(i)
+        this.addGroupKey({ column: timeColumn, bin: TIME_BINS[word] })
+        continue
+      }
+
+      // trend, over time
+      if (timeColumn && (this.tokens[i].stem === 'trend' || (word === 'over' && this.word(i + 1) === 'time'))) {
+        this.use(i, word === 'over' ? i + 1 : i)
+        this.addGroupKey({ column: timeColumn, bin: this.defaultBin() })
+        continue
+      }
+
+      // by x, per x, for each x, across x
+      let keyStart = -1
+      if (word === 'by' || word === 'per' || word === 'across') keyStart = i + 1
+      else if ((word === 'for' || word === 'in') && ['each', 'every'].includes(this.word(i + 1)!)) keyStart = i + 2
+      else if (word === 'each' && i > 0 && this.word(i - 1) !== 'for') keyStart = i + 1
+      if (keyStart < 0) continue
+
+      const keyWord = this.tokens[keyStart]?.stem
+      if (timeColumn && keyWord && TIME_BINS[keyWord]) {
+        this.use(i, keyStart)
+        this.addGroupKey({ column: timeColumn, bin: TIME_BINS[keyWord] })
+        continue
+      }
+      const key = this.resolveGroupColumn(keyStart)
+      if (key) {
+        this.use(i)
+        this.addGroupKey({ column: key })
+      }
+    }
+  }
+
+  // Grouping prefers names over ids and skips numeric columns: "by vessel" means vesselName
+  private resolveGroupColumn(from: number): string | null {
+    for (let length = 3; length >= 1; length--) {
+      const match = this.resolveColumn(from, from + length - 1, column => !isNumericColumn(column))
+      if (match) {
+        const candidates = this.table.columns.filter(column =>
+          !isNumericColumn(column) && [...columnWords(column)].some(word => tokenize(this.word(from) ?? '')[0] === word))
+        const named = candidates.find(column => /name/i.test(column.name))
+        const column = named?.name ?? match.column
+        this.useColumnWords(from, from + length - 1, column)
+        this.use(from)
+        return column
+      }
+    }
+    return null
+  }
+
+  private addGroupKey(key: GroupKey): void {
+    if (!this.parsed.groupBy.some(existing => existing.column === key.column)) {
+      this.parsed.groupBy.push(key)
+    }
+  }
+
+  private defaultBin(): string {
+    const hours = this.parsed.timeRange?.hours ?? 24 * 7
+    if (hours <= 6) return '15m'
+    if (hours <= 48) return '1h'
+    if (hours <= 24 * 14) return '6h'
+    return '1d'
+  }
+
+  private parseAggregations(): void {
+    for (let i = 0; i < this.tokens.length; i++) {
+      if (this.used[i]) continue
+      const word = this.word(i)!
+
+      // how many vessels, number of alerts
+      const counting = (word === 'how' && this.word(i + 1) === 'many') || (word === 'number' && this.word(i + 1) === 'of')
+      if (counting || word === 'count') {
+        const next = counting ? i + 2 : i + 1
+        this.use(i, counting ? i + 1 : i)
+        const entity = this.resolveGroupColumn(next)
+        if (entity && !this.parsed.groupBy.some(key => key.column === entity)) {
+          this.parsed.aggregations.push({ fn: 'dcount', column: entity })
+        } else {
+          this.parsed.aggregations.push({ fn: 'count' })
+        }
+        continue
+      }
+
+      const fn = AGGREGATE_WORDS[word]
+      if (!fn) continue
+      // "average and maximum voltage" share the column after the last function word
+      let next = i + 1
+      while (this.word(next) === 'and' || AGGREGATE_WORDS[this.word(next) ?? ''] || this.word(next) === 'the' || this.word(next) === 'of') next++
+      const match = this.resolveColumn(next, next + 2, isNumericColumn)
+      if (!match) continue
+      this.use(i)
+      this.useColumnWords(next, next + 2, match.column)
+      this.parsed.aggregations.push({ fn, column: match.column })
+    }
+  }
+
+  // "Which vessels have low battery health?" lists the vessels
+  private parseWhichQuestion(): void {
+    const index = this.tokens.findIndex(token => token.text === 'which' || token.text === 'what')
+    if (index < 0 || this.parsed.groupBy.length > 0) return
+
+    const entity = this.resolveGroupColumn(index + 1)
+    if (!entity) return
+    this.use(index)
+    this.addGroupKey({ column: entity })
+  }
+
+  // Metrics named without a role are shown as columns: "show voltage and current for Atlantic Carrier"
+  private parseMentionedColumns(): void {
+    for (let i = 0; i < this.tokens.length; i++) {
+      if (this.used[i] || FILLER_WORDS.has(this.word(i)!)) continue
+      const match = this.resolveColumn(i, Math.min(i + 1, this.tokens.length - 1))
+      if (!match) continue
+      this.useColumnWords(i, i + 1, match.column)
+      this.use(i)
+      if (!this.parsed.columns.includes(match.column)) {
+        this.parsed.columns.push(match.column)
+      }
+    }
+  }
+
+  // Grouped questions without a function word show the value that matters for each group
+  private completeAggregations(): void {
+    if (this.parsed.groupBy.length === 0 || this.parsed.aggregations.length > 0) return
+
+    const compared = this.parsed.comparisons.flat()[0]
+    const mentioned = this.parsed.columns.find(name => isNumericColumn(this.columnByName(name)))
+    if (compared) {
+      // The value that put each group on the list
+      this.parsed.aggregations.push({ fn: compared.operator.startsWith('<') ? 'min' : 'max', column: compared.column })
+    } else if (this.parsed.limit?.column) {
+      this.parsed.aggregations.push({ fn: 'avg', column: this.parsed.limit.column })
+    } else if (mentioned) {
+      // "maintenance cost by vessel" adds up; "voltage by vessel" averages
+      this.parsed.aggregations.push({ fn: ADDITIVE_COLUMN.test(mentioned) ? 'sum' : 'avg', column: mentioned })
+      this.parsed.columns = this.parsed.columns.filter(name => name !== mentioned)
+    } else {
+      this.parsed.aggregations.push({ fn: 'count' })
+    }
+  }
+
+  private measureUnderstanding(): number {
+    const meaningful = this.tokens.map((token, index) => ({ token, index })).filter(({ token }) => !FILLER_WORDS.has(token.text))
+    if (meaningful.length === 0) return 0
+    return meaningful.filter(({ index }) => this.used[index]).length / meaningful.length
+  }
+}
+
+/**
+ * Reads the slots of a question about one table.
+ * knownValues lists values of the table's string columns (vessel names, statuses)
+ * that may be mentioned in the question, by column. timeOptions sets the time zone
+ * calendar phrases such as "yesterday" are read in. vessels are the vessel references
+ * findVesselMentions found; those resolved to one vessel become a vessel id filter.
+ */
+export function parseQuestion(
+  question: string,
+  table: SchemaTable,
+  knownValues: Record<string, string[]> = {},
+  timeOptions: TimeExpressionOptions = {},
+  vessels: VesselMention[] = []
+): ParsedQuestion {
+  return new QuestionParser(question, table, knownValues, timeOptions, vessels).parse()
+}
+
+// Values listed in column descriptions such as "Maintenance status (pending/in_progress/completed/cancelled)"
+export function valuesFromDescriptions(table: SchemaTable): Record<string, string[]> {
+  const values: Record<string, string[]> = {}
+  for (const column of table.columns) {
+    const listed = column.description?.match(/\(([\w\s-]+(?:\/[\w\s-]+)+)\)/)
+    if (listed && !isNumericColumn(column)) {
+      values[column.name] = listed[1].split('/').map(value => value.trim()).filter(Boolean)
+    }
+  }
+  return values
+}
+
+function aggregateName(aggregation: Aggregation): string {
+  if (aggregation.fn === 'count') return 'count_'
+  if (aggregation.fn === 'dcount') return `${aggregation.column}Count`
+  return `${aggregation.fn}${capitalize(aggregation.column!)}`
+}
+
+function aggregateExpression(aggregation: Aggregation): string {
+  if (aggregation.fn === 'count') return 'count()'
+  return `${aggregateName(aggregation)} = ${aggregation.fn}(${aggregation.column})`
+}
+
+function describeAggregation(aggregation: Aggregation): string {
+  switch (aggregation.fn) {
+    case 'count': return 'number of rows'
+    case 'dcount': return `number of distinct ${humanize(aggregation.column!)}s`
+    case 'avg': return `average ${humanize(aggregation.column!)}`
+    case 'min': return `lowest ${humanize(aggregation.column!)}`
+    case 'max': return `highest ${humanize(aggregation.column!)}`
+    case 'sum': return `total ${humanize(aggregation.column!)}`
+  }
+}
+
+const OPERATOR_WORDS: Record<ComparisonOperator, string> = {
+  '<': 'below',
+  '<=': 'at most',
+  '>': 'above',
+  '>=': 'at least',
+  '==': 'equal to'
+}
+
+function parameterFor(comparison: Comparison, table: SchemaTable, taken: Set<string>): QueryParameterDefinition {
+  // batteryHealth < lowBatteryHealth, temperature > highTemperature, voltage >= minVoltage
+  const column = capitalize(comparison.column)
+  const base = comparison.bound ? `${comparison.bound}${column}`
+    : comparison.operator.startsWith('<') ? `low${column}`
+      : comparison.operator.startsWith('>') ? `high${column}`
+        : `${comparison.column}Value`
+  let name = base
+  for (let n = 2; taken.has(name); n++) name = `${base}${n}`
+  taken.add(name)
+
+  const columnType = table.columns.find(column => column.name === comparison.column)?.type.toLowerCase()
+  return {
+    name,
+    type: columnType === 'int' || columnType === 'long' ? columnType : 'real',
+    input: 'number',
+    label: `${capitalize(humanize(comparison.column))} ${OPERATOR_WORDS[comparison.operator]}`,
+    defaultValue: comparison.value
+  }
+}
+
+function quote(value: string): string {
+  return JSON.stringify(value)
+}
+
+/**
+ * Writes the parsed question as KQL. Thresholds and vessel names become query
+ * parameters, like the model's queries; other values are inlined.
+ */
+export function buildKQL(parsed: ParsedQuestion): OfflineConversion {
+  const { table } = parsed
+  const parameters: QueryParameterDefinition[] = []
+  const takenNames = new Set<string>()
+  const lines = [table.name]
+  // Explanation parts: which rows ("from the last day", "for Atlantic Carrier") and the conditions on them
+  const scope: string[] = []
+  const conditions: string[] = []
+
+  if (parsed.timeRange) {
+    const filter = buildTimeFilter(parsed.timeRange.column, parsed.timeRange)
+    lines.push(`| where ${filter.condition}`)
+    parameters.push(...filter.parameters)
+    scope.push(parsed.timeRange.kind === 'rolling' ? `from ${parsed.timeRange.description}` : parsed.timeRange.description)
+  }
+
+  for (const filter of parsed.valueFilters) {
+    const isVessel = /vessel/i.test(filter.column)
+    if (isVessel && filter.values.length === 1 && !filter.negated) {
+      const exact = /id$/i.test(filter.column) || /\s/.test(filter.values[0]) || /[A-Z]/.test(filter.values[0])
+      const name = /id$/i.test(filter.column) ? 'selectedVesselId' : 'vesselFilter'
+      lines.push(`| where ${filter.column} ${exact ? '==' : 'contains'} ${name}`)
+      parameters.push({ name, type: 'string', input: 'vessel', label: 'Vessel', defaultValue: filter.values[0] })
+      scope.push(filter.labels ? `for ${filter.labels[0]}` : `for ${exact ? '' : 'vessels containing '}"${filter.values[0]}"`)
+      continue
+    }
+    const condition = filter.values.length === 1
+      ? `${filter.column} ${filter.negated ? '!=' : '=='} ${quote(filter.values[0])}`
+      : `${filter.column} ${filter.negated ? '!in' : 'in'} (${filter.values.map(quote).join(', ')})`
+    lines.push(`| where ${condition}`)
+    if (filter.labels) {
+      scope.push(`for ${filter.labels.join(' or ')}`)
+      continue
+    }
+    conditions.push(`${humanize(filter.column)} is ${filter.negated ? 'not ' : ''}${filter.values.join(' or ')}`)
+  }
+
+  for (const filter of parsed.booleanFilters) {
+    lines.push(`| where ${filter.value ? filter.column : `not(${filter.column})`}`)
+    conditions.push(`${filter.value ? '' : 'not '}${humanize(filter.column)}`)
+  }
+
+  for (const group of parsed.comparisons) {
+    const expressions = group.map(comparison => {
+      const parameter = parameterFor(comparison, table, takenNames)
+      parameters.push(parameter)
+      return `${comparison.column} ${comparison.operator} ${parameter.name}`
+    })
+    lines.push(`| where ${expressions.join(' or ')}`)
+    conditions.push(`${group.map(c => `${humanize(c.column)} is ${OPERATOR_WORDS[c.operator]} ${c.value}`).join(' or ')}`)
+  }
+
+  const suggestedVisualizations = ['table']
+  let subject: string
+
+  if (parsed.aggregations.length > 0 || parsed.groupBy.length > 0) {
+    const aggregations = parsed.aggregations.length > 0 ? parsed.aggregations : [{ fn: 'count' as const }]
+    const keys = parsed.groupBy.map(key => (key.bin ? `${key.column} = bin(${key.column}, ${key.bin})` : key.column))
+    lines.push(`| summarize ${aggregations.map(aggregateExpression).join(', ')}${keys.length > 0 ? ` by ${keys.join(', ')}` : ''}`)
+
+    const timeKey = parsed.groupBy.find(key => key.bin)
+    const first = aggregations[0]
+    if (parsed.limit) {
+      const column = parsed.limit.column && aggregations.some(a => a.column === parsed.limit!.column)
+        ? aggregateName(aggregations.find(a => a.column === parsed.limit!.column)!)
+        : aggregateName(first)
+      lines.push(`| top ${parsed.limit.count} by ${column} ${parsed.limit.descending ? 'desc' : 'asc'}`)
+    } else if (timeKey) {
+      lines.push(`| order by ${timeKey.column} asc`)
+    } else if (keys.length > 0) {
+      lines.push(`| order by ${aggregateName(first)} ${first.fn === 'min' ? 'asc' : 'desc'}`)
+    }
+
+    if (timeKey) suggestedVisualizations.unshift('line')
+    else if (keys.length > 0) suggestedVisualizations.unshift('bar')
+    subject = `${capitalize(aggregations.map(describeAggregation).join(' and '))}${parsed.groupBy.length > 0
+      ? ` by ${parsed.groupBy.map(key => (key.bin ? `${key.bin} of ${humanize(key.column)}` : humanize(key.column))).join(' and ')}`
+      : ''} in ${table.name}`
+  } else {
+    const timeColumn = parsed.timeRange?.column ?? findTimeColumn(table)
+    if (parsed.columns.length > 0) {
+      // The columns asked for, with what identifies each row
+      const identifying = table.columns
+        .filter(column => column.name === timeColumn || /vessel.*name/i.test(column.name))
+        .map(column => column.name)
+      const filtered = [...parsed.valueFilters, ...parsed.comparisons.flat()].map(filter => filter.column)
+      const columns = [...new Set([...identifying, ...filtered, ...parsed.columns, ...(parsed.limit?.column ? [parsed.limit.column] : [])])]
+      lines.push(`| project ${columns.join(', ')}`)
+    }
+
+    const limit = parsed.limit ?? { count: DEFAULT_ROW_LIMIT, column: timeColumn, descending: true }
+    lines.push(limit.column
+      ? `| top ${limit.count} by ${limit.column} ${limit.descending ? 'desc' : 'asc'}`
+      : `| take ${limit.count}`)
+    if (timeColumn && parsed.columns.some(column => table.columns.find(c => c.name === column && isNumericColumn(c)))) {
+      suggestedVisualizations.push('line')
+    }
+    if (!parsed.limit) {
+      subject = `${table.name} rows`
+    } else if (limit.column && limit.column === timeColumn) {
+      subject = `The ${limit.count} ${limit.descending ? 'most recent' : 'oldest'} ${table.name} rows`
+    } else {
+      subject = `The ${limit.count} ${table.name} rows${limit.column ? ` with the ${limit.descending ? 'highest' : 'lowest'} ${humanize(limit.column)}` : ''}`
+    }
+  }
+
+  const kqlQuery = buildParameterDeclaration(parameters) + lines.join('\n')
+  const understood = parsed.understood
+  return {
+    kqlQuery,
+    explanation: [subject, ...scope].join(' ') + (conditions.length > 0 ? ` where ${conditions.join(' and ')}` : ''),
+    // Never as sure as the model; lower still when much of the question went unrecognized
+    confidence: Math.round((0.3 + 0.5 * understood) * 100) / 100,
+    suggestedVisualizations,
+    parameters
+  }
+}
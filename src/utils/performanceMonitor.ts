@@ -1,3 +1,5 @@
+import { LLMUsage } from '../services/llmBudget'
+
 export interface QueryPerformanceMetrics {
   queryId: string
   naturalQuery: string
@@ -12,7 +14,21 @@ export interface QueryPerformanceMetrics {
   dataTransformTime?: number
   renderTime?: number
   success: boolean
+  cancelled?: boolean
+  cacheHit?: boolean
+  // Times the generated KQL failed and was sent back to the model for a fix
+  repairAttempts?: number
   errorMessage?: string
+  // Signed-in user who asked
+  user?: string
+  // Model calls made for this query (conversion plus repairs) and their combined usage
+  llmCalls?: number
+  llmModel?: string
+  promptTokens?: number
+  completionTokens?: number
+  llmLatency?: number
+  // USD; absent when no call had a known price
+  estimatedCost?: number
   timestamp: Date
 }
 
@@ -20,6 +36,17 @@ export interface PerformanceStats {
   totalQueries: number
   successfulQueries: number
   failedQueries: number
+  cancelledQueries: number
+  cacheHits: number
+  cacheMisses: number
+  // Queries that succeeded only after an automatic repair, and those that failed despite one
+  repairedQueries: number
+  unrepairedQueries: number
+  totalRepairAttempts: number
+  llmCalls: number
+  totalPromptTokens: number
+  totalCompletionTokens: number
+  totalEstimatedCost: number
   averageDuration: number
   averageRowCount: number
   slowestQuery: QueryPerformanceMetrics | null
@@ -31,18 +58,27 @@ class PerformanceMonitor {
   private metrics: QueryPerformanceMetrics[] = []
   private currentQuery: Partial<QueryPerformanceMetrics> | null = null
   private maxStoredMetrics = 100
+  // Model calls made outside a query, such as explaining a saved query, since the page loaded
+  private explanationUsage = { calls: 0, promptTokens: 0, completionTokens: 0, estimatedCost: 0 }
 
-  startQuery(queryId: string, naturalQuery: string, kqlQuery: string): void {
+  startQuery(queryId: string, naturalQuery: string, kqlQuery: string, user?: string): void {
     this.currentQuery = {
       queryId,
       naturalQuery,
       kqlQuery,
+      user,
       startTime: performance.now(),
       timestamp: new Date(),
       success: false
     }
   }
 
+  recordKQLQuery(kqlQuery: string): void {
+    if (this.currentQuery) {
+      this.currentQuery.kqlQuery = kqlQuery
+    }
+  }
+
   recordNLProcessingTime(startTime: number): void {
     if (this.currentQuery) {
       this.currentQuery.nlProcessingTime = performance.now() - startTime
@@ -55,6 +91,39 @@ class PerformanceMonitor {
     }
   }
 
+  recordCacheHit(cacheHit: boolean): void {
+    if (this.currentQuery) {
+      this.currentQuery.cacheHit = cacheHit
+    }
+  }
+
+  recordRepairAttempt(): void {
+    if (this.currentQuery) {
+      this.currentQuery.repairAttempts = (this.currentQuery.repairAttempts || 0) + 1
+    }
+  }
+
+  recordLLMUsage(usage: LLMUsage): void {
+    if (!this.currentQuery) return
+
+    const query = this.currentQuery
+    query.llmCalls = (query.llmCalls || 0) + 1
+    query.llmModel = usage.model
+    query.promptTokens = (query.promptTokens || 0) + (usage.promptTokens ?? 0)
+    query.completionTokens = (query.completionTokens || 0) + (usage.completionTokens ?? 0)
+    query.llmLatency = (query.llmLatency || 0) + usage.latencyMs
+    if (usage.estimatedCost !== null) {
+      query.estimatedCost = (query.estimatedCost || 0) + usage.estimatedCost
+    }
+  }
+
+  recordExplanationUsage(usage: LLMUsage): void {
+    this.explanationUsage.calls++
+    this.explanationUsage.promptTokens += usage.promptTokens ?? 0
+    this.explanationUsage.completionTokens += usage.completionTokens ?? 0
+    this.explanationUsage.estimatedCost += usage.estimatedCost ?? 0
+  }
+
   recordDataTransformTime(startTime: number): void {
     if (this.currentQuery) {
       this.currentQuery.dataTransformTime = performance.now() - startTime
@@ -92,15 +161,23 @@ class PerformanceMonitor {
     this.currentQuery = null
   }
 
-  abortCurrentQuery(errorMessage: string): void {
+  abortCurrentQuery(errorMessage: string, cancelled: boolean = false): void {
     if (!this.currentQuery) return
     
+    // Cancelled queries are kept apart from failures so they don't skew error rates
+    this.currentQuery.cancelled = cancelled
     this.completeQuery(0, 0, false, errorMessage)
   }
 
+  // Forgets the in-flight query without recording it, e.g. when nothing ran
+  discardCurrentQuery(): void {
+    this.currentQuery = null
+  }
+
   getStats(): PerformanceStats {
     const successfulQueries = this.metrics.filter(m => m.success)
-    const failedQueries = this.metrics.filter(m => !m.success)
+    const failedQueries = this.metrics.filter(m => !m.success && !m.cancelled)
+    const cancelledQueries = this.metrics.filter(m => m.cancelled)
 
     const totalDuration = successfulQueries.reduce((sum, m) => sum + m.duration, 0)
     const totalRows = successfulQueries.reduce((sum, m) => sum + m.rowCount, 0)
@@ -111,6 +188,16 @@ class PerformanceMonitor {
       totalQueries: this.metrics.length,
       successfulQueries: successfulQueries.length,
       failedQueries: failedQueries.length,
+      cancelledQueries: cancelledQueries.length,
+      cacheHits: this.metrics.filter(m => m.cacheHit === true).length,
+      cacheMisses: this.metrics.filter(m => m.cacheHit === false).length,
+      repairedQueries: successfulQueries.filter(m => (m.repairAttempts || 0) > 0).length,
+      unrepairedQueries: failedQueries.filter(m => (m.repairAttempts || 0) > 0).length,
+      totalRepairAttempts: this.metrics.reduce((sum, m) => sum + (m.repairAttempts || 0), 0),
+      llmCalls: this.metrics.reduce((sum, m) => sum + (m.llmCalls || 0), this.explanationUsage.calls),
+      totalPromptTokens: this.metrics.reduce((sum, m) => sum + (m.promptTokens || 0), this.explanationUsage.promptTokens),
+      totalCompletionTokens: this.metrics.reduce((sum, m) => sum + (m.completionTokens || 0), this.explanationUsage.completionTokens),
+      totalEstimatedCost: this.metrics.reduce((sum, m) => sum + (m.estimatedCost || 0), this.explanationUsage.estimatedCost),
       averageDuration: successfulQueries.length > 0 ? totalDuration / successfulQueries.length : 0,
       averageRowCount: successfulQueries.length > 0 ? totalRows / successfulQueries.length : 0,
       slowestQuery: sortedByDuration.length > 0 ? sortedByDuration[sortedByDuration.length - 1] : null,
@@ -125,6 +212,7 @@ class PerformanceMonitor {
 
   clearMetrics(): void {
     this.metrics = []
+    this.explanationUsage = { calls: 0, promptTokens: 0, completionTokens: 0, estimatedCost: 0 }
     this.saveMetricsToStorage()
   }
 
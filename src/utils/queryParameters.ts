@@ -0,0 +1,213 @@
+import { QueryParameterValue } from '../services/adxService'
+import { readBracketed, replaceIdentifiers, splitTopLevel } from './kqlText'
+
+export type QueryParameterType = 'string' | 'datetime' | 'real' | 'long' | 'int' | 'bool'
+
+export type QueryParameterInput = 'vessel' | 'datetime' | 'number' | 'text'
+
+export interface QueryParameterDefinition {
+  name: string
+  type: QueryParameterType
+  input: QueryParameterInput
+  label: string
+  // Stored in serializable form: ISO string for datetimes, number for numerics
+  defaultValue?: string | number | boolean
+}
+
+const DECLARE_START = /^\s*declare\s+query_parameters\s*(?=\()/i
+const SUPPORTED_TYPES: QueryParameterType[] = ['string', 'datetime', 'real', 'long', 'int', 'bool']
+
+// The parameter list of a leading declare statement and where the statement ends; defaults such as
+// datetime(2026-01-01) or "Atlantic (old)" contain brackets, so the list is read up to its matching ')'
+function findDeclaration(kqlQuery: string): { parameters: string; end: number } | null {
+  const start = kqlQuery.match(DECLARE_START)
+  if (!start) {
+    return null
+  }
+  const list = readBracketed(kqlQuery, start[0].length)
+  if (!list) {
+    return null
+  }
+  const terminator = kqlQuery.slice(list.end + 1).match(/^\s*;?/)
+  return { parameters: list.content, end: list.end + 1 + (terminator?.[0].length ?? 0) }
+}
+
+export function parseDeclaredParameters(kqlQuery: string): { name: string; type: QueryParameterType; defaultLiteral?: string }[] {
+  const declaration = findDeclaration(kqlQuery)
+  if (!declaration) {
+    return []
+  }
+
+  return splitTopLevel(declaration.parameters, ',')
+    .map(part => part.match(/^\s*(\w+)\s*:\s*(\w+)\s*(?:=\s*(.+?))?\s*$/))
+    .filter((parts): parts is RegExpMatchArray => parts !== null)
+    .filter(([, , type]) => SUPPORTED_TYPES.includes(type.toLowerCase() as QueryParameterType))
+    .map(([, name, type, defaultLiteral]) => ({
+      name,
+      type: type.toLowerCase() as QueryParameterType,
+      defaultLiteral
+    }))
+}
+
+export function stripParameterDeclaration(kqlQuery: string): string {
+  const declaration = findDeclaration(kqlQuery)
+  return (declaration ? kqlQuery.slice(declaration.end) : kqlQuery).trim()
+}
+
+export function buildParameterDeclaration(definitions: QueryParameterDefinition[]): string {
+  if (definitions.length === 0) {
+    return ''
+  }
+  return `declare query_parameters(${definitions.map(d => `${d.name}:${d.type}`).join(', ')});\n`
+}
+
+export function inferParameterInput(name: string, type: QueryParameterType): QueryParameterInput {
+  if (type === 'datetime') return 'datetime'
+  if (type === 'real' || type === 'long' || type === 'int') return 'number'
+  if (/vessel/i.test(name)) return 'vessel'
+  return 'text'
+}
+
+// The declare statement is the source of truth; metadata supplied alongside it
+// (by the model or a saved query) only adds labels, inputs and defaults.
+export function deriveParameterDefinitions(
+  kqlQuery: string,
+  provided: Partial<QueryParameterDefinition>[] = []
+): QueryParameterDefinition[] {
+  return parseDeclaredParameters(kqlQuery).map(declared => {
+    const extra = provided.find(p => p.name === declared.name) || {}
+    return {
+      name: declared.name,
+      type: declared.type,
+      input: extra.input || inferParameterInput(declared.name, declared.type),
+      label: extra.label || humanizeName(declared.name),
+      defaultValue: extra.defaultValue ?? parseLiteral(declared.defaultLiteral, declared.type)
+    }
+  })
+}
+
+export function resolveParameterValues(
+  definitions: QueryParameterDefinition[],
+  rawValues: Record<string, string>
+): Record<string, QueryParameterValue> {
+  const values: Record<string, QueryParameterValue> = {}
+
+  definitions.forEach(definition => {
+    const raw = rawValues[definition.name] ?? (definition.defaultValue !== undefined ? String(definition.defaultValue) : undefined)
+    if (raw === undefined || raw === '') {
+      return
+    }
+
+    switch (definition.type) {
+      case 'datetime': {
+        const date = new Date(raw)
+        if (isNaN(date.getTime())) {
+          throw new Error(`"${definition.label}" is not a valid date`)
+        }
+        values[definition.name] = date
+        break
+      }
+      case 'real':
+      case 'long':
+      case 'int': {
+        const numeric = Number(raw)
+        if (isNaN(numeric)) {
+          throw new Error(`"${definition.label}" must be a number`)
+        }
+        values[definition.name] = definition.type === 'real' ? numeric : Math.trunc(numeric)
+        break
+      }
+      case 'bool':
+        values[definition.name] = raw === 'true'
+        break
+      default:
+        values[definition.name] = raw
+    }
+  })
+
+  return values
+}
+
+// Initial form values; datetimes use the local "YYYY-MM-DDTHH:mm" format of datetime-local inputs
+export function toInputValues(definitions: QueryParameterDefinition[]): Record<string, string> {
+  const values: Record<string, string> = {}
+  definitions.forEach(definition => {
+    if (definition.defaultValue === undefined) {
+      values[definition.name] = ''
+    } else if (definition.type === 'datetime') {
+      const date = new Date(String(definition.defaultValue))
+      values[definition.name] = isNaN(date.getTime()) ? '' : toLocalInputValue(date)
+    } else {
+      values[definition.name] = String(definition.defaultValue)
+    }
+  })
+  return values
+}
+
+export function getMissingParameters(
+  definitions: QueryParameterDefinition[],
+  values: Record<string, QueryParameterValue>
+): QueryParameterDefinition[] {
+  return definitions.filter(definition => values[definition.name] === undefined)
+}
+
+export function toKustoLiteral(value: QueryParameterValue): string {
+  if (value instanceof Date) {
+    return `datetime(${value.toISOString()})`
+  }
+  if (typeof value === 'string') {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+  }
+  return String(value)
+}
+
+// Replaces parameter references with literals, leaving string literals untouched.
+// Used by the mock engine, which has no server-side parameter binding.
+export function bindParameters(kqlQuery: string, values: Record<string, QueryParameterValue>): string {
+  const declared = parseDeclaredParameters(kqlQuery)
+  const bindings = new Map<string, string>()
+
+  declared.forEach(({ name, type, defaultLiteral }) => {
+    if (values[name] !== undefined) {
+      bindings.set(name, toKustoLiteral(values[name]))
+    } else if (defaultLiteral !== undefined) {
+      bindings.set(name, defaultLiteral)
+    } else {
+      throw new Error(`Missing value for query parameter '${name}' (${type})`)
+    }
+  })
+
+  return replaceIdentifiers(stripParameterDeclaration(kqlQuery), bindings)
+}
+
+function parseLiteral(literal: string | undefined, type: QueryParameterType): string | number | boolean | undefined {
+  if (literal === undefined) {
+    return undefined
+  }
+
+  const trimmed = literal.trim()
+  switch (type) {
+    case 'datetime': {
+      const inner = trimmed.match(/^datetime\((.+)\)$/i)
+      return inner ? inner[1].trim() : trimmed
+    }
+    case 'real':
+    case 'long':
+    case 'int':
+      return Number(trimmed)
+    case 'bool':
+      return trimmed.toLowerCase() === 'true'
+    default:
+      return trimmed.replace(/^["']|["']$/g, '')
+  }
+}
+
+function toLocalInputValue(date: Date): string {
+  const pad = (part: number) => String(part).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+function humanizeName(name: string): string {
+  const words = name.replace(/^_+/, '').replace(/([a-z])([A-Z])/g, '$1 $2').replace(/_/g, ' ')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
@@ -0,0 +1,302 @@
+// Picks the parts of a large database schema that are relevant to a question, within a token budget
+
+export interface SchemaColumn {
+  name: string
+  type: string
+  description?: string
+}
+
+export interface SchemaTable {
+  name: string
+  description?: string
+  columns: SchemaColumn[]
+}
+
+export interface RankedColumn {
+  column: SchemaColumn
+  score: number
+}
+
+export interface RankedTable {
+  table: SchemaTable
+  score: number
+  // Same order as table.columns
+  columns: RankedColumn[]
+}
+
+export interface SchemaPromptOptions {
+  tokenBudget: number
+  // Distinct values of string columns, keyed by table then column
+  sampleValues?: Record<string, Record<string, string[]>>
+}
+
+// Tables beyond this many are not described even when the budget allows it
+const MAX_DESCRIBED_TABLES = 8
+// Tables scoring below this fraction of the best table's score are left out
+const MIN_RELATIVE_SCORE = 0.2
+// Share of the budget the list of every table name may take
+const TABLE_LIST_BUDGET_SHARE = 0.2
+const MAX_SAMPLE_VALUE_LENGTH = 40
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'all', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'by', 'can', 'did', 'do', 'does', 'each',
+  'for', 'from', 'get', 'give', 'had', 'has', 'have', 'how', 'i', 'in', 'is', 'it', 'its', 'list', 'me', 'many',
+  'much', 'my', 'no', 'now', 'of', 'on', 'only', 'or', 'our', 'over', 'per', 'please', 'show', 'so', 'than',
+  'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'to', 'up', 'us', 'was',
+  'we', 'were', 'what', 'which', 'who', 'whose', 'why', 'will', 'with', 'display', 'find', 'tell', 'want', 'see'
+])
+
+// Words people use for concepts whose column names say something else; values are column name words
+const SYNONYMS: Record<string, string[]> = {
+  ship: ['vessel'],
+  boat: ['vessel'],
+  fleet: ['vessel'],
+  tanker: ['vessel', 'type'],
+  cargo: ['vessel', 'type'],
+  temp: ['temperature'],
+  hot: ['temperature'],
+  cold: ['temperature'],
+  heat: ['temperature'],
+  overheat: ['temperature'],
+  charge: ['state', 'charging', 'status'],
+  soc: ['state', 'charge'],
+  degradation: ['health'],
+  energy: ['power', 'consumption'],
+  location: ['latitude', 'longitude'],
+  position: ['latitude', 'longitude'],
+  route: ['port', 'destination', 'origin'],
+  alarm: ['alert', 'event', 'severity'],
+  warning: ['alert', 'event', 'severity'],
+  incident: ['alert', 'event'],
+  problem: ['alert', 'event', 'fault'],
+  issue: ['alert', 'event'],
+  critical: ['severity', 'priority'],
+  urgent: ['priority', 'severity'],
+  repair: ['maintenance'],
+  service: ['maintenance'],
+  fix: ['maintenance'],
+  technician: ['maintenance'],
+  storm: ['weather', 'wind', 'wave'],
+  rough: ['weather', 'wave', 'sea'],
+  knot: ['speed'],
+  fuel: ['consumption'],
+  price: ['cost'],
+  spend: ['cost'],
+  expense: ['cost'],
+  volt: ['voltage'],
+  amp: ['current'],
+  recent: ['timestamp', 'time', 'date'],
+  today: ['timestamp', 'time', 'date'],
+  yesterday: ['timestamp', 'time', 'date'],
+  week: ['timestamp', 'time', 'date'],
+  hour: ['timestamp', 'time'],
+  trend: ['timestamp', 'time'],
+  when: ['timestamp', 'time', 'date'],
+  user: ['account', 'principal', 'identity'],
+  error: ['failure', 'exception', 'status'],
+  request: ['operation', 'call'],
+  duration: ['elapsed', 'latency', 'time']
+}
+
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3)
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2)
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1)
+  return word
+}
+
+// Splits identifiers and prose alike: stateOfCharge, state_of_charge and "state of charge" give the same words
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1)
+    .map(stem)
+}
+
+// The words of a question that carry meaning
+export function contentWords(text: string): string[] {
+  return tokenize(text).filter(word => !STOP_WORDS.has(word))
+}
+
+export function estimateTokens(text: string): number {
+  // Roughly four characters per token for English text and identifiers
+  return Math.ceil(text.length / 4)
+}
+
+// Turns TableName/ColumnName rows from adxService.getDatabaseSchema into one entry per table
+export function groupSchemaRows(tableNames: string[], rows: any[]): SchemaTable[] {
+  const tables = new Map<string, SchemaTable>(tableNames.map(name => [name, { name, columns: [] }]))
+  for (const row of rows) {
+    const table: SchemaTable = tables.get(row.TableName) ?? { name: row.TableName, columns: [] }
+    if (row.TableDescription && !table.description) {
+      table.description = row.TableDescription
+    }
+    table.columns.push({
+      name: row.ColumnName,
+      type: row.DataType || row.ColumnType || 'unknown',
+      description: row.Description || undefined
+    })
+    tables.set(row.TableName, table)
+  }
+  return Array.from(tables.values())
+}
+
+function scoreWords(words: string[], terms: Map<string, number>, weight: number): number {
+  return [...new Set(words)].reduce((score, word) => score + (terms.get(word) ?? 0) * weight, 0)
+}
+
+function buildTerms(question: string): Map<string, number> {
+  const terms = new Map<string, number>()
+  for (const word of contentWords(question)) {
+    terms.set(word, 1)
+    for (const synonym of SYNONYMS[word] ?? []) {
+      if (!terms.has(synonym)) terms.set(synonym, 0.5)
+    }
+  }
+  return terms
+}
+
+// Words found in most tables ("vessel", "timestamp") say little about which table a question needs
+function weighByRarity(terms: Map<string, number>, tables: SchemaTable[]): Map<string, number> {
+  if (tables.length < 2) {
+    return terms
+  }
+
+  const tableWords = tables.map(table => new Set([
+    ...tokenize(table.name),
+    ...tokenize(table.description ?? ''),
+    ...table.columns.flatMap(column => [...tokenize(column.name), ...tokenize(column.description ?? '')])
+  ]))
+  const weighted = new Map<string, number>()
+  terms.forEach((weight, term) => {
+    const matches = tableWords.filter(words => words.has(term)).length
+    if (matches > 0) {
+      weighted.set(term, weight * Math.log(1 + tables.length / matches) / Math.log(1 + tables.length))
+    }
+  })
+  return weighted
+}
+
+/**
+ * Scores every table and column against the question, best tables first.
+ * Tables named in recentQueries (the KQL of earlier turns) are boosted so
+ * follow-ups like "only the tankers" keep the table they refine.
+ */
+export function rankSchema(question: string, tables: SchemaTable[], recentQueries: string[] = []): RankedTable[] {
+  const terms = weighByRarity(buildTerms(question), tables)
+  const recentWords = new Set(recentQueries.flatMap(query => query.match(/\w+/g) ?? []))
+
+  const ranked = tables.map(table => {
+    const columns = table.columns.map(column => ({
+      column,
+      score: scoreWords(tokenize(column.name), terms, 3) + scoreWords(tokenize(column.description ?? ''), terms, 1)
+    }))
+
+    const columnScores = columns.map(column => column.score).sort((a, b) => b - a)
+    // The best column counts in full; the rest only a little, so wide tables do not win on size alone
+    const columnScore = (columnScores[0] ?? 0) + columnScores.slice(1).reduce((sum, score) => sum + score * 0.25, 0)
+    const tableScore = scoreWords(tokenize(table.name), terms, 4) + scoreWords(tokenize(table.description ?? ''), terms, 1)
+
+    return {
+      table,
+      score: tableScore + columnScore + (recentWords.has(table.name) ? 5 : 0),
+      columns
+    }
+  })
+
+  return ranked
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => b.entry.score - a.entry.score || a.index - b.index)
+    .map(({ entry }) => entry)
+}
+
+function formatSampleValues(values: string[] | undefined): string {
+  if (!values || values.length === 0) return ''
+  const formatted = values.map(value => JSON.stringify(value.length > MAX_SAMPLE_VALUE_LENGTH ? `${value.slice(0, MAX_SAMPLE_VALUE_LENGTH)}…` : value))
+  return `; e.g. ${formatted.join(', ')}`
+}
+
+function formatColumn(column: SchemaColumn, samples: string[] | undefined): string {
+  const description = column.description ? `: ${column.description}` : ''
+  return `  ${column.name} (${column.type})${description}${formatSampleValues(samples)}`
+}
+
+function formatTableList(ranked: RankedTable[], charBudget: number): string {
+  const names = ranked.map(entry => entry.table.name).sort((a, b) => a.localeCompare(b))
+  let list = ''
+  for (let i = 0; i < names.length; i++) {
+    const next = list ? `${list}, ${names[i]}` : names[i]
+    if (next.length > charBudget) {
+      return `${list}, … and ${names.length - i} more`
+    }
+    list = next
+  }
+  return list
+}
+
+// Describes as many of the best-ranked tables as fit in the budget, dropping their least relevant columns first
+export function formatSchemaPrompt(ranked: RankedTable[], { tokenBudget, sampleValues = {} }: SchemaPromptOptions): string {
+  if (ranked.length === 0) {
+    return 'No database schema available.'
+  }
+
+  const charBudget = tokenBudget * 4
+  const tableList = `Available tables (${ranked.length}): ${formatTableList(ranked, charBudget * TABLE_LIST_BUDGET_SHARE)}`
+  let remaining = charBudget - tableList.length
+
+  // Only matching tables are described, unless nothing matched at all
+  const bestScore = ranked[0].score
+  const relevant = bestScore > 0 ? ranked.filter(entry => entry.score >= bestScore * MIN_RELATIVE_SCORE) : ranked
+  const sections: string[] = []
+
+  for (const entry of relevant.slice(0, MAX_DESCRIBED_TABLES)) {
+    const { table } = entry
+    const header = `${table.name}${table.description ? ` — ${table.description}` : ''}`
+    const samples = sampleValues[table.name] ?? {}
+    const lines = entry.columns.map(({ column }) => formatColumn(column, samples[column.name]))
+    const cost = (line: string) => line.length + 1
+
+    if (cost(header) > remaining) break
+
+    const total = cost(header) + lines.reduce((sum, line) => sum + cost(line), 0)
+    let included: number[]
+    if (total <= remaining) {
+      included = lines.map((_line, index) => index)
+    } else {
+      // Keep the best columns that fit, then restore schema order for readability
+      let available = remaining - cost(header) - 40
+      included = entry.columns
+        .map((column, index) => ({ score: column.score, index }))
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .filter(({ index }) => {
+          if (cost(lines[index]) > available) return false
+          available -= cost(lines[index])
+          return true
+        })
+        .map(({ index }) => index)
+        .sort((a, b) => a - b)
+    }
+
+    const omitted = lines.length - included.length
+    const section = [
+      header,
+      ...included.map(index => lines[index]),
+      ...(omitted > 0 ? [`  (+${omitted} more columns not shown)`] : [])
+    ].join('\n')
+
+    sections.push(section)
+    remaining -= section.length + 2
+  }
+
+  const skipped = ranked.length - sections.length
+  return [
+    tableList,
+    '',
+    `Relevant tables and columns${skipped > 0 ? ` (${sections.length} of ${ranked.length} tables)` : ''}:`,
+    sections.join('\n\n')
+  ].join('\n')
+}
@@ -0,0 +1,515 @@
+import { QueryParameterDefinition } from './queryParameters'
+
+/**
+ * Time phrases in questions ("last 3 shifts", "between March 3 and 10",
+ * "since Monday 06:00 UTC", "Q2") resolved to exact bounds.
+ * Rolling ranges stay relative to when the query runs and become ago();
+ * calendar ranges are read in a time zone and become datetime bounds in UTC.
+ */
+
+export interface TimeExpressionOptions {
+  now?: Date
+  // IANA zone or fixed offset such as +02:00, for phrases without a zone of their own
+  timeZone?: string
+  // Length of a watch or shift, for "last 3 shifts"
+  shiftHours?: number
+}
+
+export interface ResolvedTimeRange {
+  // The phrase as written in the question, and where it starts
+  text: string
+  index: number
+  kind: 'rolling' | 'calendar'
+  // Rolling ranges: the ago() timespan, e.g. 24h
+  ago?: string
+  // Calendar ranges: start inclusive, end exclusive; an open end means up to now
+  start?: Date
+  end?: Date
+  // Zone the calendar phrase was read in
+  timeZone: string
+  description: string
+  // Length of the range, for choosing a bin size
+  hours: number
+}
+
+interface Zone {
+  name: string
+  // Minutes to add to UTC for local time at the given instant
+  offsetAt: (instant: number) => number
+}
+
+// Wall-clock time in a zone; months are 1-12
+interface CivilTime {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const DEFAULT_SHIFT_HOURS = 8
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december']
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30, few: 3, 'couple of': 2
+}
+
+const UNIT_HOURS: Record<string, number> = {
+  minute: 1 / 60, min: 1 / 60, hour: 1, hr: 1, day: 24, week: 24 * 7, fortnight: 24 * 14,
+  month: 24 * 30, quarter: 24 * 91, year: 24 * 365
+}
+
+// Abbreviations with a fixed offset in minutes; other zones are given by IANA name
+const ZONE_ABBREVIATIONS: Record<string, number> = {
+  utc: 0, gmt: 0, z: 0, wet: 0, bst: 60, cet: 60, cest: 120, eet: 120, eest: 180, msk: 180, ist: 330,
+  sgt: 480, jst: 540, aest: 600, est: -300, edt: -240, cst: -360, cdt: -300, mst: -420, mdt: -360, pst: -480, pdt: -420
+}
+
+// Building blocks for the phrase patterns below
+const MONTH = `(${MONTHS.map(month => `${month.slice(0, 3)}${month.length > 3 ? `(?:${month.slice(3)})?` : ''}`).join('|')})\\.?`
+const DAY = '(\\d{1,2})(?:st|nd|rd|th)?'
+const YEAR = '(\\d{4})'
+const ISO_DATE = '(\\d{4})-(\\d{2})-(\\d{2})'
+const TIME = '(?:at\\s+)?(\\d{1,2}(?::\\d{2})?\\s*(?:am|pm)|\\d{1,2}:\\d{2}|noon|midnight)'
+const ZONE = '((?:utc|gmt)\\s*[+-]\\d{1,2}(?::?\\d{2})?|[+-]\\d{2}:?\\d{2}|[a-z]+/[a-z_]+(?:/[a-z_]+)?|[a-z]{1,4})'
+const WEEKDAY = `(${WEEKDAYS.join('|')})`
+const COUNT = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})`
+const UNIT = '(minute|min|hour|hr|day|week|fortnight|month|quarter|year|shift|watch)(?:e?s)?'
+
+// A single date as written: "March 3", "3rd of March 2025", "2025-03-03", "Monday", "yesterday"
+const DATE = `(?:${ISO_DATE}|${MONTH}\\s+${DAY}(?:,?\\s+${YEAR})?|${DAY}(?:\\s+of)?\\s+${MONTH}(?:,?\\s+${YEAR})?|(?:last\\s+)?${WEEKDAY}|today|yesterday)`
+
+function fixedZone(name: string, minutes: number): Zone {
+  return { name, offsetAt: () => minutes }
+}
+
+function ianaZone(name: string): Zone | null {
+  let format: Intl.DateTimeFormat
+  try {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone: name, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric'
+    })
+  } catch {
+    return null
+  }
+  return {
+    name: format.resolvedOptions().timeZone,
+    offsetAt: instant => {
+      const parts = Object.fromEntries(format.formatToParts(new Date(instant)).map(part => [part.type, part.value]))
+      const local = Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day), Number(parts.hour) % 24, Number(parts.minute))
+      return Math.round((local - Math.floor(instant / 60000) * 60000) / 60000)
+    }
+  }
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+'
+  const absolute = Math.abs(minutes)
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}:${String(absolute % 60).padStart(2, '0')}`
+}
+
+// "UTC", "CET", "+02:00", "UTC+2", "Europe/Oslo"
+export function parseTimeZone(text: string): Zone | null {
+  const value = text.trim().toLowerCase()
+  if (value in ZONE_ABBREVIATIONS) {
+    const minutes = ZONE_ABBREVIATIONS[value]
+    return fixedZone(minutes === 0 ? 'UTC' : `${value.toUpperCase()} (UTC${formatOffset(minutes)})`, minutes)
+  }
+  const offset = value.match(/^(?:utc|gmt)?\s*([+-])(\d{1,2}):?(\d{2})?$/)
+  if (offset) {
+    const minutes = (Number(offset[2]) * 60 + Number(offset[3] ?? 0)) * (offset[1] === '-' ? -1 : 1)
+    return fixedZone(minutes === 0 ? 'UTC' : `UTC${formatOffset(minutes)}`, minutes)
+  }
+  // IANA names are case-sensitive in some runtimes: europe/oslo -> Europe/Oslo
+  const iana = text.trim().split('/').map(part => part.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()).join('_')).join('/')
+  return value.includes('/') ? ianaZone(iana) : null
+}
+
+function toCivil(instant: number, zone: Zone): CivilTime {
+  const local = new Date(instant + zone.offsetAt(instant) * 60000)
+  return {
+    year: local.getUTCFullYear(),
+    month: local.getUTCMonth() + 1,
+    day: local.getUTCDate(),
+    hour: local.getUTCHours(),
+    minute: local.getUTCMinutes()
+  }
+}
+
+// The instant a wall-clock time happens in the zone; the offset is checked twice for daylight saving changes
+function fromCivil(civil: CivilTime, zone: Zone): Date {
+  const wall = Date.UTC(civil.year, civil.month - 1, civil.day, civil.hour, civil.minute)
+  let instant = wall - zone.offsetAt(wall) * 60000
+  instant = wall - zone.offsetAt(instant) * 60000
+  return new Date(instant)
+}
+
+function addDays(civil: CivilTime, days: number): CivilTime {
+  const date = new Date(Date.UTC(civil.year, civil.month - 1, civil.day + days))
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate(), hour: 0, minute: 0 }
+}
+
+function startOfDay(civil: CivilTime): CivilTime {
+  return { ...civil, hour: 0, minute: 0 }
+}
+
+function weekday(civil: CivilTime): number {
+  return new Date(Date.UTC(civil.year, civil.month - 1, civil.day)).getUTCDay()
+}
+
+function monthIndex(text: string): number {
+  return MONTHS.findIndex(month => month.startsWith(text.toLowerCase().replace('.', '').slice(0, 3)))
+}
+
+function parseCount(text: string): number {
+  return /^\d+$/.test(text) ? Number(text) : NUMBER_WORDS[text] ?? 1
+}
+
+function parseTimeOfDay(text: string): { hour: number; minute: number } {
+  if (text === 'noon') return { hour: 12, minute: 0 }
+  if (text === 'midnight') return { hour: 0, minute: 0 }
+  const [, hours, minutes, meridiem] = text.match(/(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/)!
+  let hour = Number(hours) % 24
+  if (meridiem === 'pm' && hour < 12) hour += 12
+  if (meridiem === 'am' && hour === 12) hour = 0
+  return { hour, minute: Number(minutes ?? 0) }
+}
+
+function formatCivil(civil: CivilTime): string {
+  const time = civil.hour !== 0 || civil.minute !== 0 ? ` ${String(civil.hour).padStart(2, '0')}:${String(civil.minute).padStart(2, '0')}` : ''
+  return `${civil.day} ${MONTH_NAMES[civil.month - 1]} ${civil.year}${time}`
+}
+
+// Days for day-sized units, so "last 24 hours" stays ago(24h) and "last week" becomes ago(7d)
+function formatTimespan(hours: number, inDays: boolean): string {
+  if (!Number.isInteger(hours)) return `${Math.round(hours * 60)}m`
+  if (inDays && hours % 24 === 0) return `${hours / 24}d`
+  return `${hours}h`
+}
+
+class PhraseReader {
+  private readonly today: CivilTime
+  private readonly nowInstant: number
+
+  constructor(
+    private readonly zone: Zone,
+    now: Date,
+    private readonly shiftHours: number
+  ) {
+    this.nowInstant = now.getTime()
+    this.today = startOfDay(toCivil(this.nowInstant, zone))
+  }
+
+  rolling(count: number, unit: string): Omit<ResolvedTimeRange, 'text' | 'index'> {
+    const isShift = unit === 'shift' || unit === 'watch'
+    const hours = count * (isShift ? this.shiftHours : UNIT_HOURS[unit])
+    const span = formatTimespan(hours, !isShift && UNIT_HOURS[unit] >= 24)
+    const name = unit === 'min' ? 'minute' : unit === 'hr' ? 'hour' : unit
+    return {
+      kind: 'rolling',
+      ago: span,
+      timeZone: this.zone.name,
+      description: `the last ${count === 1 ? name : `${count} ${name}s`}${isShift ? ` (${hours} hours)` : ''}`,
+      hours
+    }
+  }
+
+  // Either end may be open: no start is "before", no end is "since"
+  calendar(start: CivilTime | null, end: CivilTime | null, description?: string): Omit<ResolvedTimeRange, 'text' | 'index'> {
+    const startDate = start ? fromCivil(start, this.zone) : undefined
+    const endDate = end ? fromCivil(end, this.zone) : undefined
+    // Whole days read better as "3 Mar 2026 to 10 Mar 2026" than up to midnight of the 11th
+    const isMidnight = (civil: CivilTime | null) => !civil || (civil.hour === 0 && civil.minute === 0)
+    const wholeDays = isMidnight(start) && isMidnight(end)
+    const lastDay = end && wholeDays ? addDays(end, -1) : end
+    let range: string
+    if (!start) {
+      range = `before ${formatCivil(end!)}`
+    } else if (!lastDay) {
+      range = `since ${formatCivil(start)}`
+    } else if (wholeDays && formatCivil(start) === formatCivil(lastDay)) {
+      range = `on ${formatCivil(start)}`
+    } else {
+      range = `from ${formatCivil(start)} to ${formatCivil(lastDay)}`
+    }
+    // Ranges without a start are sized as a year for binning
+    const hours = startDate ? ((endDate?.getTime() ?? this.nowInstant) - startDate.getTime()) / HOUR_MS : UNIT_HOURS.year
+    return {
+      kind: 'calendar',
+      start: startDate,
+      end: endDate,
+      timeZone: this.zone.name,
+      description: `${description ? `${description}, ` : ''}${range} (${this.zone.name})`,
+      hours: Math.max(0, hours)
+    }
+  }
+
+  // The day a date phrase names; dates without a year are the most recent such date
+  day(groups: (string | undefined)[], onOrBeforeToday = true): CivilTime | null {
+    const [isoYear, isoMonth, isoDay, month1, day1, year1, day2, month2, year2, weekdayName, text] = groups
+    if (isoYear) {
+      return { year: Number(isoYear), month: Number(isoMonth), day: Number(isoDay), hour: 0, minute: 0 }
+    }
+    const monthText = month1 ?? month2
+    if (monthText) {
+      const month = monthIndex(monthText) + 1
+      const day = Number(day1 ?? day2)
+      const explicitYear = year1 ?? year2
+      const civil = { year: explicitYear ? Number(explicitYear) : this.today.year, month, day, hour: 0, minute: 0 }
+      if (!explicitYear && onOrBeforeToday && this.compare(civil, this.today) > 0) civil.year--
+      return civil
+    }
+    if (weekdayName) {
+      const target = WEEKDAYS.indexOf(weekdayName)
+      let back = (weekday(this.today) - target + 7) % 7
+      if (text?.startsWith('last') && back === 0) back = 7
+      return addDays(this.today, -back)
+    }
+    if (text?.startsWith('today')) return this.today
+    if (text?.startsWith('yesterday')) return addDays(this.today, -1)
+    return null
+  }
+
+  compare(a: CivilTime, b: CivilTime): number {
+    return Date.UTC(a.year, a.month - 1, a.day, a.hour, a.minute) - Date.UTC(b.year, b.month - 1, b.day, b.hour, b.minute)
+  }
+
+  quarter(quarter: number, year?: number): Omit<ResolvedTimeRange, 'text' | 'index'> {
+    let resolvedYear = year ?? this.today.year
+    const start = { year: resolvedYear, month: (quarter - 1) * 3 + 1, day: 1, hour: 0, minute: 0 }
+    // A quarter that has not started yet means last year's
+    if (year === undefined && this.compare(start, this.today) > 0) {
+      resolvedYear--
+      start.year = resolvedYear
+    }
+    const end = quarter === 4
+      ? { year: resolvedYear + 1, month: 1, day: 1, hour: 0, minute: 0 }
+      : { year: resolvedYear, month: quarter * 3 + 1, day: 1, hour: 0, minute: 0 }
+    return this.calendar(start, end, `Q${quarter} ${resolvedYear}`)
+  }
+
+  get currentDay(): CivilTime {
+    return this.today
+  }
+
+  get now(): CivilTime {
+    return toCivil(this.nowInstant, this.zone)
+  }
+}
+
+type Reader = (match: RegExpMatchArray, reader: PhraseReader) => Omit<ResolvedTimeRange, 'text' | 'index'> | null
+
+// Day groups captured by DATE, in order
+const DATE_GROUPS = 10
+
+function dateGroups(match: RegExpMatchArray, from: number, text: string): (string | undefined)[] {
+  return [...match.slice(from, from + DATE_GROUPS), text]
+}
+
+// Each pattern reads one kind of phrase; the longest match in the question wins
+const PATTERNS: [RegExp, Reader][] = [
+  // last 3 days, past fortnight, previous 2 shifts
+  [new RegExp(`\\b(?:last|past|previous)\\s+(?:${COUNT}\\s+)?${UNIT}\\b`), (match, reader) => {
+    if (!match[1] && match[2] === 'quarter') return null
+    return reader.rolling(match[1] ? parseCount(match[1]) : 1, match[2])
+  }],
+  // since 3 days ago
+  [new RegExp(`\\bsince\\s+${COUNT}\\s+${UNIT}\\s+ago\\b`), (match, reader) => reader.rolling(parseCount(match[1]), match[2])],
+  [/\b(?:right now|currently)\b/, (_match, reader) => reader.rolling(1, 'hour')],
+  [/\brecently\b/, (_match, reader) => reader.rolling(1, 'day')],
+  // Q2, Q2 2025, second quarter of 2025
+  [/\bq([1-4])(?:\s*(?:of\s+)?(\d{4}))?\b/, (match, reader) => reader.quarter(Number(match[1]), match[2] ? Number(match[2]) : undefined)],
+  [/\b(first|second|third|fourth|1st|2nd|3rd|4th) quarter(?:\s+of)?(?:\s+(\d{4}))?\b/, (match, reader) =>
+    reader.quarter(['first', 'second', 'third', 'fourth'].indexOf(match[1]) + 1 || Number(match[1][0]), match[2] ? Number(match[2]) : undefined)],
+  [/\b(this|last|previous) quarter\b/, (match, reader) => {
+    const today = reader.currentDay
+    let quarter = Math.floor((today.month - 1) / 3) + 1
+    let year = today.year
+    if (match[1] !== 'this') {
+      quarter--
+      if (quarter === 0) { quarter = 4; year-- }
+    }
+    return reader.quarter(quarter, year)
+  }],
+  // this week (from Monday), this month, this year
+  [/\bthis (week|month|year)\b/, (match, reader) => {
+    const today = reader.currentDay
+    const start = match[1] === 'week' ? addDays(today, -((weekday(today) + 6) % 7))
+      : match[1] === 'month' ? { ...today, day: 1 }
+        : { ...today, month: 1, day: 1 }
+    return reader.calendar(start, null, `this ${match[1]}`)
+  }],
+  // between March 3 and 10, from 2025-03-03 to 2025-03-10, March 3-10
+  [new RegExp(`\\b(?:between|from)\\s+${DATE}(?:\\s+${TIME})?\\s+(?:and|to|until|through|till|-)\\s+(?:${DATE}|${DAY}(?!\\s*(?::|am|pm)))(?:\\s+${TIME})?\\b`), (match, reader) =>
+    dateRange(match, reader)],
+  [new RegExp(`\\b${MONTH}\\s+${DAY}\\s*-\\s*${DAY}(?:,?\\s+${YEAR})?\\b`), (match, reader) => {
+    const start = reader.day([undefined, undefined, undefined, match[1], match[2], match[4]])
+    if (!start) return null
+    return reader.calendar(start, addDays({ ...start, day: Number(match[3]) }, 1))
+  }],
+  // since Monday 06:00 UTC, since yesterday, since 08:00
+  [new RegExp(`\\bsince\\s+(?:${DATE}(?:\\s+${TIME})?|${TIME})\\b`), (match, reader) => {
+    const time = match[11] ?? match[12]
+    const hasDate = match[12] === undefined
+    const day = hasDate ? reader.day(dateGroups(match, 1, match[0].replace(/^since\s+/, ''))) : reader.currentDay
+    if (!day) return null
+    const start = time ? { ...day, ...parseTimeOfDay(time) } : day
+    // "since 08:00" later than now means yesterday's
+    if (!hasDate && reader.compare(start, reader.now) > 0) {
+      return reader.calendar({ ...addDays(start, -1), ...parseTimeOfDay(time) }, null)
+    }
+    return reader.calendar(start, null)
+  }],
+  // until March 10, before Monday
+  [new RegExp(`\\b(until|before|till)\\s+${DATE}\\b`), (match, reader) => {
+    const day = reader.day(dateGroups(match, 2, match[0].replace(/^\w+\s+/, '')))
+    if (!day) return null
+    return reader.calendar(null, match[1] === 'before' ? day : addDays(day, 1))
+  }],
+  // in March, in March 2025, during February
+  [new RegExp(`\\b(?:in|during)\\s+${MONTH}(?:\\s+${YEAR})?\\b`), (match, reader) => monthRange(reader, match[1], match[2])],
+  [new RegExp(`\\b${MONTH}\\s+${YEAR}\\b`), (match, reader) => monthRange(reader, match[1], match[2])],
+  // the day before yesterday, today, yesterday, on March 3, last Monday
+  [/\b(?:the )?day before yesterday\b/, (_match, reader) => {
+    const day = addDays(reader.currentDay, -2)
+    return reader.calendar(day, addDays(day, 1))
+  }],
+  [new RegExp(`\\b(?:on\\s+)?${DATE}\\b`), (match, reader) => {
+    const text = match[0].replace(/^on\s+/, '')
+    // A bare weekday or month name is too often something else ("may", "march" as verbs)
+    if (!/^on\s/.test(match[0]) && !match[1] && !/\d/.test(text) && !/^(today|yesterday|last\s)/.test(text)) return null
+    const day = reader.day(dateGroups(match, 1, text))
+    return day ? reader.calendar(day, addDays(day, 1), text === 'today' || text === 'yesterday' ? text : undefined) : null
+  }]
+]
+
+function monthRange(reader: PhraseReader, monthText: string, yearText?: string): Omit<ResolvedTimeRange, 'text' | 'index'> {
+  const month = monthIndex(monthText) + 1
+  const today = reader.currentDay
+  let year = yearText ? Number(yearText) : today.year
+  if (!yearText && month > today.month) year--
+  const start = { year, month, day: 1, hour: 0, minute: 0 }
+  const end = month === 12 ? { year: year + 1, month: 1, day: 1, hour: 0, minute: 0 } : { year, month: month + 1, day: 1, hour: 0, minute: 0 }
+  return reader.calendar(start, end)
+}
+
+// "between March 3 and 10": an end given as a bare day number is in the start's month; both ends are whole days
+function dateRange(match: RegExpMatchArray, reader: PhraseReader): Omit<ResolvedTimeRange, 'text' | 'index'> | null {
+  const startText = match[0].replace(/^(between|from)\s+/, '')
+  const start = reader.day(dateGroups(match, 1, startText))
+  if (!start) return null
+  const startTime = match[11]
+  const endGroups = dateGroups(match, 12, match[0].split(/\s+(?:and|to|until|through|till|-)\s+/).pop()!.replace(new RegExp(`\\s+${TIME}$`), ''))
+  const bareDay = match[22]
+  const endTime = match[23]
+
+  let last: CivilTime | null
+  if (bareDay) {
+    last = { ...start, day: Number(bareDay) }
+  } else {
+    last = reader.day(endGroups, false)
+    // "December 28 to January 3" crosses into the next year
+    if (last && !endGroups[2] && !endGroups[5] && !endGroups[8] && reader.compare(last, start) < 0) last.year++
+  }
+  if (!last) return null
+  if (reader.compare(last, start) < 0 && !endTime) return null
+
+  const from = startTime ? { ...start, ...parseTimeOfDay(startTime) } : start
+  const to = endTime ? { ...last, ...parseTimeOfDay(endTime) } : addDays(last, 1)
+  return reader.calendar(from, to)
+}
+
+/**
+ * The time range a question mentions, or null when it names none.
+ * A zone written after the phrase ("since Monday 06:00 UTC") overrides options.timeZone.
+ */
+export function findTimeExpression(question: string, options: TimeExpressionOptions = {}): ResolvedTimeRange | null {
+  const text = question.toLowerCase()
+  const candidates = PATTERNS
+    .map(([pattern, read]) => ({ match: text.match(pattern), read }))
+    .filter((candidate): candidate is { match: RegExpMatchArray; read: Reader } => candidate.match !== null)
+    .sort((a, b) => b.match[0].length - a.match[0].length || a.match.index! - b.match.index!)
+
+  for (const { match, read } of candidates) {
+    // A zone right after the phrase applies to it
+    const index = match.index!
+    let length = match[0].length
+    const zoneMatch = question.slice(index + length).match(new RegExp(`^\\s+(?:in\\s+)?${ZONE}\\b`, 'i'))
+    const explicitZone = zoneMatch ? parseTimeZone(zoneMatch[1]) : null
+    if (explicitZone) {
+      length += zoneMatch![0].length
+    }
+    const zone = explicitZone ?? parseTimeZone(options.timeZone ?? 'UTC') ?? fixedZone('UTC', 0)
+
+    const range = read(match, new PhraseReader(zone, options.now ?? new Date(), options.shiftHours ?? DEFAULT_SHIFT_HOURS))
+    if (range) {
+      return { ...range, text: question.slice(index, index + length), index }
+    }
+  }
+  return null
+}
+
+/**
+ * The where condition for a range on a datetime column. Calendar bounds become
+ * startTime/endTime parameters so saved queries can be rerun for other dates.
+ */
+export function buildTimeFilter(column: string, range: ResolvedTimeRange): { condition: string; parameters: QueryParameterDefinition[] } {
+  if (range.kind === 'rolling') {
+    return { condition: `${column} >= ago(${range.ago})`, parameters: [] }
+  }
+
+  const conditions: string[] = []
+  const parameters: QueryParameterDefinition[] = []
+  if (range.start) {
+    conditions.push(`${column} >= startTime`)
+    parameters.push({ name: 'startTime', type: 'datetime', input: 'datetime', label: 'From', defaultValue: range.start.toISOString() })
+  }
+  if (range.end) {
+    conditions.push(`${column} < endTime`)
+    parameters.push({ name: 'endTime', type: 'datetime', input: 'datetime', label: 'To', defaultValue: range.end.toISOString() })
+  }
+  return { condition: conditions.join(' and '), parameters }
+}
+
+// One line for the model, so it uses the bounds the client resolved instead of doing date arithmetic itself
+export function describeTimeRangeForPrompt(range: ResolvedTimeRange): string {
+  if (range.kind === 'rolling') {
+    return `"${range.text}" means ${range.description}, relative to when the query runs: use ago(${range.ago}).`
+  }
+  const bounds = [
+    range.start ? `from datetime(${range.start.toISOString()}) inclusive` : '',
+    range.end ? `until datetime(${range.end.toISOString()}) exclusive` : 'until now'
+  ].filter(Boolean).join(' ')
+  // Only the bounds that exist get a parameter; "before March 3" has no start and must not be given one
+  const parameters = [range.start ? 'startTime' : '', range.end ? 'endTime' : ''].filter(Boolean)
+  const declaration = parameters.length === 2
+    ? 'Declare startTime/endTime datetime parameters with these values as defaults.'
+    : `Declare only the ${parameters[0]} datetime parameter with this value as its default; there is no ${range.start ? 'upper' : 'lower'} bound.`
+  return `"${range.text}" means ${bounds} (${range.description}). ${declaration}`
+}
+
+/**
+ * Puts the resolved bounds into the datetime parameters of a generated query,
+ * whatever dates the model worked out: start/from/begin parameters get the start,
+ * end/to/until parameters the end.
+ */
+export function applyTimeRange(parameters: QueryParameterDefinition[], range: ResolvedTimeRange): QueryParameterDefinition[] {
+  if (range.kind !== 'calendar') {
+    return parameters
+  }
+  return parameters.map(parameter => {
+    if (parameter.type !== 'datetime') return parameter
+    if (range.start && /start|from|begin|since/i.test(parameter.name)) {
+      return { ...parameter, defaultValue: range.start.toISOString() }
+    }
+    if (range.end && /end|to$|until|till/i.test(parameter.name)) {
+      return { ...parameter, defaultValue: range.end.toISOString() }
+    }
+    return parameter
+  })
+}
@@ -0,0 +1,339 @@
+import { QueryParameterDefinition } from './queryParameters'
+import { replaceIdentifiers, splitTopLevel } from './kqlText'
+
+/**
+ * Finds the vessels a question refers to, by name ("atlantic", "the Nordic ship"),
+ * id ("CGO1") or type ("the research vessel", "cargo vessels"), allowing for
+ * small typos. Vessel filters in generated KQL are then rewritten to exact vesselId
+ * comparisons, so they neither miss rows nor match other vessels.
+ */
+
+export interface VesselRecord {
+  vesselId: string
+  vesselName: string
+  vesselType?: string
+}
+
+export interface VesselMention {
+  // The words of the question that name the vessel, as written
+  text: string
+  index: number
+  matchedBy: 'id' | 'name' | 'type'
+  // Best match first; more than one means the user has to pick, unless the mention is a group
+  candidates: VesselRecord[]
+  // The mention means every candidate, e.g. "cargo vessels" or "tankers"
+  group?: boolean
+}
+
+export interface VesselRewrite {
+  kqlQuery: string
+  parameters: QueryParameterDefinition[]
+  // Number of vessel predicates turned into vesselId comparisons
+  rewritten: number
+}
+
+interface Word {
+  text: string
+  lower: string
+  index: number
+}
+
+interface VesselName {
+  vessel: VesselRecord
+  words: string[]
+}
+
+const WORD = /[A-Za-z0-9]+(?:[-_][A-Za-z0-9]+)*/g
+const VESSEL_NOUNS = new Set(['vessel', 'ship', 'boat'])
+const PLURAL_NOUNS = new Set(['vessels', 'ships', 'boats'])
+// Words next to a partial name that show it means a vessel: "for atlantic", "the Nordic ship", "Atlantic's"
+const CUES_BEFORE = new Set(['for', 'of', 'on', 'aboard', 'about', ...VESSEL_NOUNS])
+const CUES_AFTER = new Set(['s', ...VESSEL_NOUNS])
+// "the tanker" means one vessel; "tankers" and "cargo vessels" mean all of that type
+const DETERMINERS = new Set(['the', 'our', 'that', 'this'])
+// "in the Pacific" is the ocean, not Pacific Explorer
+const PLACE_PREPOSITIONS = new Set(['in', 'across', 'over', 'near', 'around', 'through', 'into', 'off', 'along', 'within'])
+
+// Filters on these columns are rewritten; vesselId is what they become
+const NAME_COLUMN = 'vesselName'
+const ID_COLUMN = 'vesselId'
+// Longer operators first, so "hasprefix" is not read as "has" followed by an identifier
+const VESSEL_PREDICATE = new RegExp(
+  `\\b(${NAME_COLUMN}|${ID_COLUMN})\\s*(==|=~|!=|!~|!?(?:contains|hasprefix|has|startswith|endswith)(?:_cs)?|!?in~?(?=\\s*\\())\\s*` +
+  `("(?:[^"\\\\]|\\\\.)*"|'(?:[^'\\\\]|\\\\.)*'|\\([^()]*\\)|[A-Za-z_]\\w*)`,
+  'g'
+)
+const SUBSTRING_OPERATORS = /contains|has|startswith|endswith|hasprefix/
+
+function splitWords(text: string): Word[] {
+  return [...text.matchAll(WORD)].map(match => ({ text: match[0], lower: match[0].toLowerCase(), index: match.index! }))
+}
+
+// CGO-001, cgo1 and CGO_01 are the same id
+function normalizeId(id: string): string {
+  return id.toLowerCase().replace(/[^a-z0-9]/g, '').replace(/(^|\D)0+(?=\d)/g, '$1')
+}
+
+function idPrefix(id: string): string {
+  return normalizeId(id).replace(/\d.*$/, '')
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// Plurals and one-letter typos in longer words still match: "carriers", "atlantc"
+function wordMatches(word: string, nameWord: string, prefix: boolean = false): boolean {
+  if (word === nameWord || word === `${nameWord}s`) return true
+  if (prefix && word.length >= 3 && nameWord.startsWith(word)) return true
+  return nameWord.length >= 5 && Math.abs(word.length - nameWord.length) <= 1 && editDistance(word, nameWord) <= 1
+}
+
+function toVesselNames(vessels: VesselRecord[]): VesselName[] {
+  return vessels.map(vessel => ({ vessel, words: splitWords(vessel.vesselName).map(word => word.lower) }))
+}
+
+function byName(a: VesselRecord, b: VesselRecord): number {
+  return a.vesselName.localeCompare(b.vesselName)
+}
+
+function mention(question: string, words: Word[], from: number, to: number, matchedBy: VesselMention['matchedBy'], candidates: VesselRecord[]): VesselMention {
+  return {
+    text: question.slice(words[from].index, words[to].index + words[to].text.length),
+    index: words[from].index,
+    matchedBy,
+    candidates
+  }
+}
+
+// "CGO1", "cgo-001"; a bare upper-case prefix such as "CGO" matches every vessel that has it
+function matchId(word: Word, vessels: VesselRecord[]): VesselRecord[] {
+  if (!/\d/.test(word.text)) {
+    if (word.text.length < 2 || word.text !== word.text.toUpperCase()) return []
+    return vessels.filter(vessel => idPrefix(vessel.vesselId) === word.lower).sort(byName)
+  }
+  return vessels.filter(vessel => normalizeId(vessel.vesselId) === normalizeId(word.text))
+}
+
+function singularType(word: Word | undefined, vessels: VesselRecord[]): string | null {
+  if (!word) return null
+  return vessels.some(vessel => vessel.vesselType?.toLowerCase() === word.lower) ? word.lower : null
+}
+
+function pluralType(word: Word | undefined, vessels: VesselRecord[]): string | null {
+  if (!word?.lower.endsWith('s')) return null
+  return singularType({ ...word, lower: word.lower.slice(0, -1) }, vessels)
+}
+
+function ofType(vessels: VesselRecord[], type: string): VesselRecord[] {
+  return vessels.filter(vessel => vessel.vesselType?.toLowerCase() === type).sort(byName)
+}
+
+/**
+ * Finds vessel references in a question. ignoredWords are words that on their own
+ * mean something else in this database, e.g. column words such as "sea" (seaState);
+ * they still count as part of a longer name such as "Sea Hunter".
+ */
+export function findVesselMentions(question: string, vessels: VesselRecord[], ignoredWords: Set<string> = new Set()): VesselMention[] {
+  const words = splitWords(question)
+  const names = toVesselNames(vessels)
+  const mentions: VesselMention[] = []
+
+  for (let i = 0; i < words.length; i++) {
+    const ids = matchId(words[i], vessels)
+    if (ids.length > 0) {
+      mentions.push(mention(question, words, i, i, 'id', ids))
+      continue
+    }
+
+    // The longest run of words that all belong to the same vessel names
+    let candidates = names
+    let end = i - 1
+    for (let j = i; j < words.length; j++) {
+      const matching = candidates.filter(name => name.words.some(nameWord => wordMatches(words[j].lower, nameWord)))
+      if (matching.length === 0) break
+      candidates = matching
+      end = j
+    }
+    if (end >= i) {
+      const run = words.slice(i, end + 1)
+      // A whole name settles it: "Ocean Lab" rather than every Ocean vessel
+      const complete = candidates.filter(name => name.words.every(nameWord => run.some(word => wordMatches(word.lower, nameWord))))
+      const partial = complete.length === 0
+      if (!partial) candidates = complete
+
+      // "the Nordic cargo ship", "the Ocean research vessel"
+      const type = singularType(words[end + 1], vessels)
+      const ofType = type ? candidates.filter(name => name.vessel.vesselType?.toLowerCase() === type) : []
+      if (ofType.length > 0) {
+        candidates = ofType
+        end++
+      }
+
+      if (!partial || run.length > 1 || ofType.length > 0 || isVesselReference(words, i, candidates, ignoredWords)) {
+        mentions.push(mention(question, words, i, end, 'name', candidates.map(name => name.vessel).sort(byName)))
+        i = end
+        continue
+      }
+    }
+
+    // "cargo vessels", "tankers": every vessel of the type
+    const type = singularType(words[i], vessels)
+    const plural = pluralType(words[i], vessels)
+    if (plural || (type && PLURAL_NOUNS.has(words[i + 1]?.lower ?? ''))) {
+      const typeEnd = plural ? i : i + 1
+      mentions.push({ ...mention(question, words, i, typeEnd, 'type', ofType(vessels, (plural ?? type)!)), group: true })
+      i = typeEnd
+      continue
+    }
+
+    if (type && DETERMINERS.has(words[i - 1]?.lower ?? '')) {
+      const typeEnd = VESSEL_NOUNS.has(words[i + 1]?.lower ?? '') ? i + 1 : i
+      mentions.push(mention(question, words, i, typeEnd, 'type', ofType(vessels, type)))
+      i = typeEnd
+    }
+  }
+  return mentions
+}
+
+// A single word of a longer name only counts with something around it that says "vessel";
+// when it does and several vessels share the word, the user is asked which one
+function isVesselReference(words: Word[], index: number, candidates: VesselName[], ignoredWords: Set<string>): boolean {
+  const word = words[index]
+  const isNameWord = (nameWord: string) => word.lower === nameWord || word.lower === `${nameWord}s`
+  if (word.lower.length < 3 || ignoredWords.has(word.lower)) return false
+  // "freight vessels" is a kind of vessel rather than one of them
+  if (PLURAL_NOUNS.has(words[index + 1]?.lower ?? '')) return false
+  if (CUES_AFTER.has(words[index + 1]?.lower ?? '')) return true
+  // "the ferry", "for the explorer"; but "in the Pacific" is the ocean
+  if (DETERMINERS.has(words[index - 1]?.lower ?? '')) {
+    return !(PLACE_PREPOSITIONS.has(words[index - 2]?.lower ?? '') && candidates.every(name => isNameWord(name.words[0])))
+  }
+  if (CUES_BEFORE.has(words[index - 1]?.lower ?? '')) return true
+  // Capitalized mid-sentence: "show voltage on Pacific"
+  if (index > 0 && /^[A-Z]/.test(word.text)) return true
+  // "atlantic" or "carrier" on its own: the first or last word of a name, long enough not to be an everyday word,
+  // and not a verb ("express the voltage")
+  return word.lower.length >= 5 && !DETERMINERS.has(words[index + 1]?.lower ?? '') && candidates.some(name => isNameWord(name.words[0]) || isNameWord(name.words[name.words.length - 1]))
+}
+
+export function isAmbiguous(mention: VesselMention): boolean {
+  return !mention.group && mention.candidates.length > 1
+}
+
+/**
+ * Narrows mentions to the vessels the user picked. choices maps a mention's
+ * text, lower-cased, to a vesselId.
+ */
+export function applyVesselChoices(mentions: VesselMention[], choices: Record<string, string> = {}): VesselMention[] {
+  return mentions.map(found => {
+    const chosen = choices[found.text.toLowerCase()]
+    const candidates = chosen ? found.candidates.filter(vessel => vessel.vesselId === chosen) : []
+    return candidates.length > 0 ? { ...found, candidates } : found
+  })
+}
+
+export function describeVesselsForPrompt(mentions: VesselMention[]): string {
+  const describe = (vessel: VesselRecord) => `${vessel.vesselName} (${ID_COLUMN} "${vessel.vesselId}")`
+  return mentions
+    .filter(found => !isAmbiguous(found))
+    .map(found => found.group
+      ? `"${found.text}" are ${found.candidates.map(describe).join(', ')}`
+      : `"${found.text}" is ${describe(found.candidates[0])}`)
+    .join('; ') + `. Filter on ${ID_COLUMN} with these exact values.`
+}
+
+// Which vessel a filter value stands for; preferred vessels (those the question names) settle ties
+function resolveFilterValue(value: string, column: string, operator: string, vessels: VesselRecord[], preferred: VesselRecord[]): VesselRecord | null {
+  if (column === ID_COLUMN) {
+    const byId = vessels.filter(vessel => normalizeId(vessel.vesselId) === normalizeId(value))
+    return byId.length === 1 ? byId[0] : null
+  }
+
+  const exact = vessels.filter(vessel => vessel.vesselName.toLowerCase() === value.trim().toLowerCase())
+  if (exact.length === 1) return exact[0]
+
+  const words = splitWords(value)
+  if (words.length === 0) return null
+  const substring = SUBSTRING_OPERATORS.test(operator)
+  const candidates = toVesselNames(vessels)
+    .filter(name => words.every(word => name.words.some(nameWord => wordMatches(word.lower, nameWord, substring))))
+    .map(name => name.vessel)
+  const named = candidates.filter(vessel => preferred.some(other => other.vesselId === vessel.vesselId))
+  if (named.length === 1) return named[0]
+  return candidates.length === 1 ? candidates[0] : null
+}
+
+function unquote(literal: string): string {
+  return literal.slice(1, -1).replace(/\\(.)/g, '$1')
+}
+
+/**
+ * Rewrites filters on vessel names (and loosely written ids) to exact vesselId
+ * comparisons: `vesselName contains "atlantic"` becomes `vesselId == "CGO-001"`.
+ * Parameters used as filter values are renamed to id parameters with the id as
+ * default. Filters whose value matches no single vessel are left as they are.
+ */
+export function rewriteVesselFilters(
+  kqlQuery: string,
+  parameters: QueryParameterDefinition[],
+  vessels: VesselRecord[],
+  preferred: VesselRecord[] = []
+): VesselRewrite {
+  const declared = new Map(parameters.map(parameter => [parameter.name, parameter]))
+  const taken = new Set(parameters.map(parameter => parameter.name))
+  const renames = new Map<string, string>()
+  const updated = new Map<string, QueryParameterDefinition>()
+  let rewritten = 0
+
+  const nextIdName = (name: string): string => {
+    if (/id$/i.test(name)) return name
+    let candidate = 'selectedVesselId'
+    for (let n = 2; taken.has(candidate); n++) candidate = `selectedVesselId${n}`
+    taken.add(candidate)
+    return candidate
+  }
+
+  const rewrittenQuery = kqlQuery.replace(VESSEL_PREDICATE, (predicate, column: string, operator: string, operand: string) => {
+    const isList = operand.startsWith('(')
+    const items = isList ? splitTopLevel(operand.slice(1, -1), ',').map(item => item.trim()).filter(Boolean) : [operand]
+    const resolved = items.map(item => {
+      const quoted = /^["']/.test(item)
+      const parameter = quoted ? undefined : declared.get(item)
+      const value = quoted ? unquote(item) : parameter?.defaultValue
+      return typeof value === 'string' ? resolveFilterValue(value, column, operator, vessels, preferred) : null
+    })
+    if (items.length === 0 || resolved.some(vessel => vessel === null)) return predicate
+
+    const values = items.map((item, index) => {
+      const vessel = resolved[index]!
+      const parameter = declared.get(item)
+      if (!parameter) return JSON.stringify(vessel.vesselId)
+      const name = renames.get(item) ?? nextIdName(item)
+      renames.set(item, name)
+      updated.set(item, { ...parameter, name, type: 'string', input: 'vessel', label: 'Vessel', defaultValue: vessel.vesselId })
+      return item
+    })
+    rewritten++
+    const negated = operator.startsWith('!')
+    return isList
+      ? `${ID_COLUMN} ${negated ? '!in' : 'in'} (${values.join(', ')})`
+      : `${ID_COLUMN} ${negated ? '!=' : '=='} ${values[0]}`
+  })
+
+  // Renamed parameters keep the same name wherever else they appear, including the declare statement
+  const renamed = new Map([...renames].filter(([from, to]) => from !== to))
+  return {
+    kqlQuery: replaceIdentifiers(rewrittenQuery, renamed),
+    parameters: parameters.map(parameter => updated.get(parameter.name) ?? parameter),
+    rewritten
+  }
+}
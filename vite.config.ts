@@ -20,6 +20,10 @@ export default defineConfig({
       '.trycloudflare.com',
       '.loca.lt'
     ],
+    proxy: {
+      // Azure Functions backend in api/ (func start)
+      '/api': 'http://localhost:7071'
+    },
     headers: {
       // Allow iframe embedding for Teams
       'X-Frame-Options': 'SAMEORIGIN',